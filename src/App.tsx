@@ -1,10 +1,11 @@
 import { useState, useRef, useEffect } from 'react';
 import { ApiService } from './services/apiService.js';
+import { roundDecimal, toDecimalString, toSignificant } from './utils/decimal.js';
 
 interface BuyerAddress {
   address: string;
-  tokenAmount: number;
-  solAmount: number;
+  tokenAmount: number | string; // Whole tokens; numbers come from searches cached by older versions
+  solAmount: number | string;
   signature: string;
   timestamp: number;
   dex?: string;
@@ -21,35 +22,424 @@ interface BuyerAddress {
   buyer?: string;
   pricePerToken?: string;
   confidence?: string;
+  type?: string;
+  quoteToken?: string;
+  feePayer?: string;
+  marketCapAtEntry?: string | null; // In the quote token, exact decimal string
+  supplyPercentage?: string | null;
+  tokenProgram?: string | null;
+  targetTransferFee?: string; // Token-2022 transfer fees withheld, in base units
+  quoteTransferFee?: string;
+  riskFlags?: string[];
+  jitoTip?: string; // Lamports
+  sniperLabels?: string[];
+  bondingCurve?: { progress: string; complete: boolean } | null; // Pump.fun curve after the trade
+  // Pool the trade went through, for DEXes whose swaps name one; the input mint went into the pool
+  poolAddress?: string | null;
+  poolDex?: string | null;
+  poolInputMint?: string | null;
+  poolOutputMint?: string | null;
+  // USD values priced from on-chain stablecoin swaps; null when no swap was close enough
+  quoteValueUsd?: number | null;
+  priceUsd?: number | null;
+  marketCapUsd?: number | null;
+  quotePriceUsd?: number | null;
+  priceSource?: { method: string; samples?: number; fromSlot?: number; toSlot?: number; signatures?: string[] } | null;
+}
+
+type BackfillStrategy = 'block-scan' | 'signature-index';
+
+type StopConditionType = 'buys' | 'uniqueBuyers' | 'endSlot' | 'endTime' | 'quoteVolume' | 'durationSeconds';
+
+// Sent to the backend as `stopConditions`; endTime is unix seconds
+interface StopConditions {
+  mode: 'any' | 'all';
+  buys?: number;
+  uniqueBuyers?: number;
+  endSlot?: number;
+  endTime?: number;
+  quoteVolume?: number;
+  durationSeconds?: number;
+}
+
+// Form fields for the stop conditions; empty fields are left out
+interface StopConditionInputs {
+  mode: 'any' | 'all';
+  buys: string;
+  uniqueBuyers: string;
+  endSlot: string;
+  endTime: string; // datetime-local
+  quoteVolume: string;
+  durationMinutes: string;
+}
+
+// `current` and `target` follow the stop condition closest to ending tracking, named in `condition`
+interface SearchProgress {
+  current: number | string | null; // quoteVolume is a decimal string
+  target: number;
+  percentage: string;
+  isComplete: boolean;
+  condition?: StopConditionType;
+  buys?: number;
+  filtered?: Record<string, number>; // Transactions dropped by the session's filters, by reason
+  bondingCurve?: BondingCurveState | null; // Pump.fun mints only
+  migration?: CurveMigration | null;
+  pools?: PoolBreakdown[];
+}
+
+// A pump.fun curve after its latest trade; `progress` is the percentage of its tokens sold
+interface BondingCurveState {
+  progress: string;
+  complete: boolean;
+  slot: number;
+}
+
+interface CurveMigration {
+  dex: string;
+  pool: string | null;
+  slot: number;
+  txHash: string;
+}
+
+// Trades of a mint through one pool. Volumes are in the pool's quote token's base units and
+// leave out routed trades settled in another token; `volumeUsd` includes them.
+interface PoolBreakdown {
+  address: string;
+  dex: string;
+  mint: string;
+  quoteToken: string | null;
+  decimalsTarget: number;
+  decimalsQuote: number | null;
+  buys: number;
+  sells: number;
+  buyers: number;
+  tokensBought: string;
+  tokensSold: string;
+  buyVolume: string;
+  sellVolume: string;
+  volumeUsd: number | null;
+  firstSlot: number;
+  lastSlot: number;
+}
+
+// Buyers and progress of one of the mints a search tracks
+// Buys flagged as sniping or bundling; `labels` counts flagged buys per label
+interface SniperSummary {
+  launchSlot?: number | null;
+  buys: number;
+  flaggedBuys: number;
+  wallets: number;
+  flaggedWallets: number;
+  labels: Record<string, number>;
+  jitoTips: string; // Lamports
+}
+
+interface MintResult {
+  mint: string;
+  buyers: BuyerAddress[];
+  progress?: SearchProgress;
+  snipers?: SniperSummary;
+}
+
+// Name and symbol resolved on-chain by the backend; fields are null when a token has no metadata
+interface TokenMetadata {
+  mint: string;
+  name: string | null;
+  symbol: string | null;
+  decimals: number | null;
+  uri: string | null;
+  source: string | null;
+  extensions?: { names: string[]; riskFlags: string[] } | null; // Token-2022 mints only
+}
+
+// Where a mint launched, discovered by the backend when a search has no starting block
+interface LaunchSlots {
+  mint: string;
+  creationSlot: number | null;
+  poolSlot: number | null;
+  startSlot: number | null;
 }
 
 interface SearchData {
   id: string;
   sessionId: string;
-  tokenAddress: string;
-  blockNumber: number;
-  buyers: BuyerAddress[];
+  tokenAddress: string; // First tracked mint
+  blockNumber: number | null; // Null until the backend discovers the launch
+  launch?: Record<string, LaunchSlots> | null;
+  backfillStrategy?: BackfillStrategy;
+  stopConditions?: StopConditions;
+  mints: MintResult[];
+  tokens?: Record<string, TokenMetadata>; // Tracked mints and quote tokens seen, by mint
   timestamp: number;
   isLoading: boolean;
   error?: string;
-  progress?: {
-    current: number;
-    target: number;
-    percentage: string;
-    isComplete: boolean;
-  };
+  progress?: SearchProgress; // Totals across the mints
+  snipers?: SniperSummary;
   isFromCache?: boolean;
   lastUpdated?: number;
 }
 
+interface BuyerPosition {
+  wallet: string;
+  firstBuyNumber: number;
+  firstBuySlot: number;
+  buys: number;
+  sells: number;
+  // Decimal strings, in the quote token of the mint's first buy
+  totalBought: string;
+  totalSold: string;
+  balance: string;
+  averageEntryPrice: string;
+  realizedPnl: string;
+  unrealizedPnl: string;
+  status: 'holding' | 'partial' | 'exited';
+}
+
+interface MintPositions {
+  mint: string;
+  summary: {
+    wallets: number;
+    holding: number;
+    partial: number;
+    exited: number;
+    totalRealizedPnl: string;
+    totalUnrealizedPnl: string;
+    lastPrice: string | null;
+  };
+  positions: BuyerPosition[];
+}
+
+interface PositionsData {
+  mints: MintPositions[];
+  isLoading: boolean;
+  error?: string;
+}
+
+// Buyer wallets that share a funder, traced by the backend
+interface FundingCluster {
+  funder: string;
+  funders: { address: string; wallets: number; hop: number }[];
+  wallets: string[];
+  size: number;
+  buys: number;
+  supplyPercentage: Record<string, string | null>; // Per mint, null without a known supply
+  firstBuySlot: number;
+  lastBuySlot: number;
+  firstBuyTime: number;
+  lastBuyTime: number;
+  firstFundedAt: number | null; // Unix seconds
+  lastFundedAt: number | null;
+}
+
+interface ClustersData {
+  status?: 'tracing' | 'complete';
+  traced?: number;
+  wallets?: number;
+  clusters: FundingCluster[];
+  isLoading: boolean;
+  error?: string;
+}
+
 // Storage keys
 const STORAGE_KEY = 'token_tracker_searches';
 const CACHE_EXPIRY_DAYS = 7; // Cache results for 7 days
+const STREAM_RECONNECT_DELAY = 5000; // Reopen a refused event stream after 5 seconds
+const CLUSTER_POLL_INTERVAL = 5000; // Reload funding clusters while the backend is still tracing
+const TERMINAL_STATUSES = ['complete', 'stopped', 'interrupted', 'error'];
+
+interface SessionStream {
+  source: EventSource;
+  lastEventId: string | null;
+  isOpen: boolean;
+}
+
+// A classified transaction as the backend sends it, before convertBuyData
+interface DetectionEvent {
+  type: string;
+  targetToken: string;
+  buyNumber?: number | null;
+  [field: string]: unknown;
+}
+
+// Overall progress, with each mint's progress under `mints`
+interface SessionProgress extends SearchProgress {
+  mints?: Record<string, SearchProgress>;
+}
+
+interface SessionStatusEvent {
+  status: string;
+  error?: string;
+  blockNumber?: number | null;
+  launch?: Record<string, LaunchSlots> | null;
+}
+
+// Full session state, sent as the first stream event and returned by the progress endpoint
+interface SessionSnapshot extends SessionStatusEvent {
+  backfillStrategy?: BackfillStrategy;
+  isComplete?: boolean;
+  progress?: SessionProgress;
+  snipers?: SniperSummary;
+  tokens?: Record<string, TokenMetadata>;
+  mints?: {
+    mint: string;
+    progress?: SearchProgress | null;
+    snipers?: SniperSummary | null;
+    buyers: DetectionEvent[];
+  }[];
+}
+
+// Sniper labels of flagged buys by buy number, per mint
+interface SniperUpdate {
+  snipers: SniperSummary;
+  mints: Record<string, { summary: SniperSummary; labels: Record<string, string[]> }>;
+}
+
+// Events of GET /api/track/:sessionId/events by name
+interface SessionEvents {
+  snapshot: SessionSnapshot;
+  detection: DetectionEvent;
+  progress: SessionProgress;
+  snipers: SniperUpdate;
+  status: SessionStatusEvent;
+  session_error: { error?: string };
+}
+
+const DEFAULT_MAX_BUYS = 1000;
+const DEFAULT_STOP_INPUTS: StopConditionInputs = {
+  mode: 'any',
+  buys: String(DEFAULT_MAX_BUYS),
+  uniqueBuyers: '',
+  endSlot: '',
+  endTime: '',
+  quoteVolume: '',
+  durationMinutes: ''
+};
+const STOP_CONDITION_LABELS: Record<StopConditionType, string> = {
+  buys: 'buys',
+  uniqueBuyers: 'unique buyers',
+  endSlot: 'end slot',
+  endTime: 'end time',
+  quoteVolume: 'quote volume',
+  durationSeconds: 'duration'
+};
+
+const SNIPER_LABEL_NAMES: Record<string, { name: string; title: string }> = {
+  launchWindow: { name: 'Launch', title: 'Bought in the launch slot or right after it' },
+  sameSlot: { name: 'Same slot', title: 'Several wallets bought in this slot' },
+  jitoTip: { name: 'Jito tip', title: 'The transaction tipped Jito for bundle inclusion' },
+  sharedLayout: { name: 'Bundle', title: 'Several wallets sent transactions with this exact instruction layout' }
+};
+
+const RISK_FLAG_LABELS: Record<string, string> = {
+  permanentDelegate: 'permanent delegate',
+  transferHook: 'transfer hook',
+  transferFee: 'transfer fee',
+  defaultFrozen: 'accounts start frozen',
+  nonTransferable: 'non-transferable',
+  pausable: 'pausable'
+};
+
+const toStopConditions = (inputs: StopConditionInputs): StopConditions => {
+  const conditions: StopConditions = { mode: inputs.mode };
+  const number = (value: string) => value.trim() ? Number(value) : undefined;
+  conditions.buys = number(inputs.buys);
+  conditions.uniqueBuyers = number(inputs.uniqueBuyers);
+  conditions.endSlot = number(inputs.endSlot);
+  conditions.endTime = inputs.endTime ? Math.floor(new Date(inputs.endTime).getTime() / 1000) : undefined;
+  conditions.quoteVolume = number(inputs.quoteVolume);
+  conditions.durationSeconds = inputs.durationMinutes.trim() ? Math.round(Number(inputs.durationMinutes) * 60) : undefined;
+  return conditions;
+};
+
+const toStopInputs = (conditions?: StopConditions): StopConditionInputs => {
+  if (!conditions) {
+    return DEFAULT_STOP_INPUTS;
+  }
+  const text = (value?: number) => value === undefined || value === null ? '' : String(value);
+  // datetime-local wants local time without a zone
+  const endTime = conditions.endTime
+    ? new Date(conditions.endTime * 1000 - new Date().getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+    : '';
+  return {
+    mode: conditions.mode || 'any',
+    buys: text(conditions.buys),
+    uniqueBuyers: text(conditions.uniqueBuyers),
+    endSlot: text(conditions.endSlot),
+    endTime,
+    quoteVolume: text(conditions.quoteVolume),
+    durationMinutes: conditions.durationSeconds ? String(conditions.durationSeconds / 60) : ''
+  };
+};
+
+// Progress values in the unit of their stop condition
+const formatProgressValue = (condition: StopConditionType | undefined, value: number | string | null) => {
+  if (value === null || value === undefined) {
+    return '–';
+  }
+  if (typeof value === 'string' || condition === 'quoteVolume') {
+    return roundDecimal(String(value), 4);
+  }
+  switch (condition) {
+    case 'endTime':
+      return new Date(value * 1000).toLocaleString();
+    case 'durationSeconds':
+      return `${Math.floor(value / 60)}m ${value % 60}s`;
+    default:
+      return value.toLocaleString();
+  }
+};
+
+// Buyers of every mint in a search
+const getSearchBuyers = (search: SearchData) => search.mints.flatMap(result => result.buyers);
+
+// A search as cached or exported; searches cached before multi-mint tracking kept one buyer list
+// for tokenAddress instead of `mints`
+type StoredSearch = Omit<SearchData, 'mints'> & { buyers?: BuyerAddress[]; mints?: MintResult[] };
+
+const migrateSearch = ({ buyers = [], mints, ...search }: StoredSearch): SearchData => ({
+  ...search,
+  mints: Array.isArray(mints) ? mints : [{ mint: search.tokenAddress, buyers, progress: search.progress }]
+});
+
+// A fresh search for the given mints; progress starts out on the first stop condition until the
+// backend reports which one leads
+const createSearch = (
+  tokenAddresses: string[],
+  blockNumber: number | null,
+  backfillStrategy: BackfillStrategy,
+  stopConditions: StopConditions
+): SearchData => {
+  const condition = (Object.keys(STOP_CONDITION_LABELS) as StopConditionType[])
+    .find(type => stopConditions[type] !== undefined) || 'buys';
+  const progress: SearchProgress = {
+    current: null,
+    target: stopConditions[condition] ?? DEFAULT_MAX_BUYS,
+    percentage: '0.0',
+    isComplete: false,
+    condition,
+    buys: 0
+  };
+
+  return {
+    id: Date.now().toString(),
+    sessionId: '',
+    tokenAddress: tokenAddresses[0],
+    blockNumber,
+    backfillStrategy,
+    stopConditions,
+    mints: tokenAddresses.map(mint => ({ mint, buyers: [], progress })),
+    timestamp: Date.now(),
+    isLoading: true,
+    progress
+  };
+};
 
 function App() {
   const [searches, setSearches] = useState<SearchData[]>([]);
   const [tokenInput, setTokenInput] = useState('');
   const [blockInput, setBlockInput] = useState('');
+  const [strategyInput, setStrategyInput] = useState<BackfillStrategy>('block-scan');
+  const [stopInputs, setStopInputs] = useState<StopConditionInputs>(DEFAULT_STOP_INPUTS);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [serviceStatus, setServiceStatus] = useState<'idle' | 'running' | 'error'>('idle');
@@ -57,10 +447,16 @@ function App() {
   const [expandedSearches, setExpandedSearches] = useState<Set<string>>(new Set());
   const [sortBy, setSortBy] = useState<'timestamp' | 'buyCount' | 'tokenAddress'>('timestamp');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [expandedPositions, setExpandedPositions] = useState<Set<string>>(new Set());
+  const [positionsBySearch, setPositionsBySearch] = useState<Record<string, PositionsData>>({});
+  const [expandedClusters, setExpandedClusters] = useState<Set<string>>(new Set());
+  const [clustersBySearch, setClustersBySearch] = useState<Record<string, ClustersData>>({});
+  const expandedClustersRef = useRef<Set<string>>(new Set());
   
   const apiService = useRef<ApiService | null>(null);
   const globalProgressInterval = useRef<NodeJS.Timeout | null>(null);
   const searchesRef = useRef<SearchData[]>([]);
+  const eventStreams = useRef<Map<string, SessionStream>>(new Map());
 
   // Keep searchesRef in sync with searches state
   useEffect(() => {
@@ -94,9 +490,173 @@ function App() {
       if (globalProgressInterval.current) {
         clearInterval(globalProgressInterval.current);
       }
+      eventStreams.current.forEach(stream => stream.source.close());
+      eventStreams.current.clear();
     };
   }, []);
 
+  // Stream events for running sessions; sessions without an open stream fall back to polling
+  useEffect(() => {
+    searches.forEach(search => {
+      if (search.isLoading && search.sessionId && !search.error) {
+        openSessionStream(search.sessionId);
+      }
+    });
+
+    for (const sessionId of Array.from(eventStreams.current.keys())) {
+      if (!searches.some(search => search.sessionId === sessionId && search.isLoading)) {
+        closeSessionStream(sessionId);
+      }
+    }
+  }, [searches]);
+
+  const updateSearchBySession = (sessionId: string, update: (search: SearchData) => SearchData) => {
+    setSearches(prev => prev.map(search => search.sessionId === sessionId ? update(search) : search));
+  };
+
+  // Per-mint results from a session snapshot, keeping the current ones when it has none
+  const toMintResults = (data: SessionSnapshot, search: SearchData): MintResult[] => {
+    if (!Array.isArray(data.mints)) {
+      return search.mints;
+    }
+    return data.mints.map(result => ({
+      mint: result.mint,
+      progress: result.progress || undefined,
+      snipers: result.snipers || undefined,
+      buyers: result.buyers.map(buy => apiService.current!.convertBuyData(buy))
+    }));
+  };
+
+  // Overall progress carries each mint's progress under `mints`
+  const applyProgress = (search: SearchData, progress: SessionProgress): SearchData => ({
+    ...search,
+    progress,
+    mints: search.mints.map(result => ({ ...result, progress: progress?.mints?.[result.mint] || result.progress }))
+  });
+
+  const openSessionStream = (sessionId: string, lastEventId: string | null = null) => {
+    if (!apiService.current || typeof EventSource === 'undefined' || eventStreams.current.has(sessionId)) {
+      return;
+    }
+
+    const source: EventSource = apiService.current.openSessionEvents(sessionId, lastEventId);
+    const stream: SessionStream = { source, lastEventId, isOpen: false };
+    eventStreams.current.set(sessionId, stream);
+
+    // Remember the last event id so a reopened stream catches up from there
+    const listen = <T extends keyof SessionEvents>(type: T, handler: (data: SessionEvents[T]) => void) => {
+      source.addEventListener(type, (event: MessageEvent) => {
+        if (event.lastEventId) {
+          stream.lastEventId = event.lastEventId;
+        }
+        handler(JSON.parse(event.data) as SessionEvents[T]);
+      });
+    };
+
+    const applyStatus = (status: string, error?: string) => {
+      const finished = TERMINAL_STATUSES.includes(status);
+      updateSearchBySession(sessionId, search => ({
+        ...search,
+        isLoading: !finished,
+        error: status === 'error' ? error || 'Unknown error' : search.error
+      }));
+      if (finished) {
+        closeSessionStream(sessionId);
+      }
+    };
+
+    source.onopen = () => {
+      stream.isOpen = true;
+    };
+
+    // Sessions started without a block learn it and their launch slots while starting
+    const applyLaunch = (search: SearchData, data: SessionStatusEvent): SearchData => ({
+      ...search,
+      blockNumber: data.blockNumber ?? search.blockNumber,
+      launch: data.launch ?? search.launch
+    });
+
+    listen('snapshot', data => {
+      updateSearchBySession(sessionId, search => ({
+        ...applyLaunch(search, data),
+        mints: toMintResults(data, search),
+        tokens: { ...search.tokens, ...data.tokens },
+        progress: data.progress || search.progress,
+        snipers: data.snipers || search.snipers,
+        backfillStrategy: data.backfillStrategy || search.backfillStrategy
+      }));
+      applyStatus(data.status, data.error);
+    });
+
+    listen('detection', data => {
+      if (data.type !== 'buy' || !data.buyNumber) {
+        return;
+      }
+      // Buy numbers count per mint
+      updateSearchBySession(sessionId, search => ({
+        ...search,
+        mints: search.mints.map(result =>
+          result.mint !== data.targetToken || result.buyers.some(buyer => buyer.buyNumber === data.buyNumber)
+            ? result
+            : { ...result, buyers: [...result.buyers, apiService.current!.convertBuyData(data)] }
+        )
+      }));
+    });
+
+    listen('progress', data => {
+      updateSearchBySession(sessionId, search => applyProgress(search, data));
+    });
+
+    // Labels can change as later buys arrive; only flagged buys are listed
+    listen('snipers', data => {
+      updateSearchBySession(sessionId, search => ({
+        ...search,
+        snipers: data.snipers,
+        mints: search.mints.map(result => {
+          const update = data.mints[result.mint];
+          if (!update) {
+            return result;
+          }
+          return {
+            ...result,
+            snipers: update.summary,
+            buyers: result.buyers.map(buyer => ({ ...buyer, sniperLabels: update.labels[buyer.buyNumber ?? ''] || [] }))
+          };
+        })
+      }));
+    });
+
+    listen('status', data => {
+      updateSearchBySession(sessionId, search => applyLaunch(search, data));
+      applyStatus(data.status, data.error);
+    });
+
+    listen('session_error', data => applyStatus('error', data.error));
+
+    source.onerror = () => {
+      stream.isOpen = false;
+
+      // EventSource reconnects by itself unless the server refused the stream
+      if (source.readyState === EventSource.CLOSED) {
+        eventStreams.current.delete(sessionId);
+        setTimeout(() => {
+          const search = searchesRef.current.find(s => s.sessionId === sessionId);
+          if (search && search.isLoading) {
+            openSessionStream(sessionId, stream.lastEventId);
+          }
+        }, STREAM_RECONNECT_DELAY);
+      }
+    };
+  };
+
+  const closeSessionStream = (sessionId: string) => {
+    const stream = eventStreams.current.get(sessionId);
+    if (stream) {
+      stream.source.close();
+      eventStreams.current.delete(sessionId);
+    }
+  };
+
   // Save searches to localStorage
   const saveSearchesToStorage = () => {
     try {
@@ -131,8 +691,8 @@ function App() {
         });
 
         // Mark all loaded searches as from cache and not loading
-        const processedSearches = validSearches.map((search: SearchData) => ({
-          ...search,
+        const processedSearches = validSearches.map((search: StoredSearch) => ({
+          ...migrateSearch(search),
           isFromCache: true,
           isLoading: false,
           sessionId: '', // Clear sessionId for cached searches
@@ -151,10 +711,11 @@ function App() {
     }
   };
 
-  // Check if a search already exists for the given token and block
-  const findExistingSearch = (tokenAddress: string, blockNumber: number): SearchData | null => {
+  // Check if a search already exists for the given tokens and block
+  const findExistingSearch = (tokenAddresses: string[], blockNumber: number | null): SearchData | null => {
+    const key = tokenAddresses.join(',').toLowerCase();
     return searches.find(search => 
-      search.tokenAddress.toLowerCase() === tokenAddress.toLowerCase() && 
+      search.mints.map(result => result.mint).join(',').toLowerCase() === key && 
       search.blockNumber === blockNumber
     ) || null;
   };
@@ -244,7 +805,7 @@ function App() {
                  typeof search === 'object' &&
                  search.tokenAddress &&
                  typeof search.blockNumber === 'number' &&
-                 Array.isArray(search.buyers);
+                 (Array.isArray(search.mints) || Array.isArray(search.buyers));
         });
 
         if (validSearches.length === 0) {
@@ -258,8 +819,8 @@ function App() {
         }
 
         // Process imported searches
-        const processedSearches = validSearches.map((search: any) => ({
-          ...search,
+        const processedSearches: SearchData[] = validSearches.map((search: StoredSearch) => ({
+          ...migrateSearch(search),
           id: search.id || Date.now().toString() + Math.random().toString(36).substr(2, 9),
           isFromCache: true,
           isLoading: false,
@@ -314,40 +875,37 @@ function App() {
     setSearches(prev => prev.filter(s => s.id !== search.id));
     
     // Set inputs to the search values
-    setTokenInput(search.tokenAddress);
-    setBlockInput(search.blockNumber.toString());
+    const tokenAddresses = search.mints.map(result => result.mint);
+    setTokenInput(tokenAddresses.join(', '));
+    setBlockInput(search.blockNumber?.toString() || '');
+    const backfillStrategy = search.backfillStrategy || 'block-scan';
+    setStrategyInput(backfillStrategy);
+    const stopConditions = search.stopConditions || toStopConditions(DEFAULT_STOP_INPUTS);
+    setStopInputs(toStopInputs(stopConditions));
     
     // Start a new search
     setError(null);
     setIsLoading(true);
     setServiceStatus('running');
 
-    const searchId = Date.now().toString();
-
-    const newSearch: SearchData = {
-      id: searchId,
-      sessionId: '',
-      tokenAddress: search.tokenAddress,
-      blockNumber: search.blockNumber,
-      buyers: [],
-      timestamp: Date.now(),
-      isLoading: true,
-      progress: { current: 0, target: 1000, percentage: '0.0', isComplete: false }
-    };
+    const newSearch = createSearch(tokenAddresses, search.blockNumber, backfillStrategy, stopConditions);
+    const searchId = newSearch.id;
 
     setSearches(prev => [newSearch, ...prev]);
 
     try {
       // Start the token tracking via API
       const response = await apiService.current.startTracking(
-        search.tokenAddress,
-        search.blockNumber
+        tokenAddresses,
+        search.blockNumber,
+        backfillStrategy,
+        stopConditions
       );
 
       // Update search with session ID
       setSearches(prev => prev.map(s => 
         s.id === searchId 
-          ? { ...s, sessionId: response.sessionId }
+          ? { ...s, sessionId: response.sessionId, blockNumber: response.blockNumber, launch: response.launch }
           : s
       ));
 
@@ -380,17 +938,17 @@ function App() {
   const getAllAddresses = () => {
     const addressCounts = new Map<string, { count: number; tokens: string[] }>();
     
-    searches.forEach(search => {
-      const tokenShort = `${search.tokenAddress.slice(0, 8)}...`;
+    searches.flatMap(search => search.mints).forEach(result => {
+      const tokenShort = `${result.mint.slice(0, 8)}...`;
       const uniqueBuyersInSearch = new Set<string>();
       
-      // First, collect unique buyers within this search (same token)
-      search.buyers.forEach((buyer: BuyerAddress) => {
+      // First, collect unique buyers of this mint
+      result.buyers.forEach((buyer: BuyerAddress) => {
         const address = buyer.buyer || buyer.address;
         uniqueBuyersInSearch.add(address);
       });
       
-      // Then, count each unique buyer from this search across all searches
+      // Then, count each unique buyer of this mint across all mints
       uniqueBuyersInSearch.forEach(address => {
         const current = addressCounts.get(address);
         if (current) {
@@ -411,17 +969,14 @@ function App() {
 
   // Calculate statistics for a search
   const getSearchStats = (search: SearchData) => {
-    const totalVolume = search.buyers.reduce((sum, buyer) => {
-      const amount = parseFloat(buyer.amountSold || buyer.solAmount?.toString() || '0');
-      return sum + amount;
-    }, 0);
+    const buyers = getSearchBuyers(search);
+    // Quote tokens differ between buys, so totals only add up in USD; unpriced buys are left out
+    const pricedBuyers = buyers.filter(buyer => typeof buyer.quoteValueUsd === 'number');
+    const totalVolumeUsd = pricedBuyers.reduce((sum, buyer) => sum + (buyer.quoteValueUsd as number), 0);
 
-    const avgPrice = search.buyers.reduce((sum, buyer) => {
-      const price = parseFloat(buyer.pricePerToken || '0');
-      return sum + price;
-    }, 0) / Math.max(search.buyers.length, 1);
+    const avgPriceUsd = pricedBuyers.reduce((sum, buyer) => sum + (buyer.priceUsd || 0), 0) / Math.max(pricedBuyers.length, 1);
 
-    const dexCounts = search.buyers.reduce((counts, buyer) => {
+    const dexCounts = buyers.reduce((counts, buyer) => {
       const dex = buyer.dex || 'Unknown';
       counts[dex] = (counts[dex] || 0) + 1;
       return counts;
@@ -430,13 +985,26 @@ function App() {
     const topDex = Object.entries(dexCounts).sort((a, b) => b[1] - a[1])[0];
 
     return {
-      totalVolume,
-      avgPrice,
+      totalVolumeUsd,
+      avgPriceUsd,
+      unpricedBuys: buyers.length - pricedBuyers.length,
       topDex: topDex ? { name: topDex[0], count: topDex[1] } : null,
-      uniqueBuyers: new Set(search.buyers.map(b => b.buyer || b.address)).size
+      uniqueBuyers: new Set(buyers.map(b => b.buyer || b.address)).size
     };
   };
 
+  // Position counts summed over the mints of a search
+  const getPositionCounts = (data?: PositionsData) => {
+    if (!data || data.mints.length === 0) {
+      return null;
+    }
+    return data.mints.reduce((counts, { summary }) => ({
+      holding: counts.holding + summary.holding,
+      partial: counts.partial + summary.partial,
+      exited: counts.exited + summary.exited
+    }), { holding: 0, partial: 0, exited: 0 });
+  };
+
   // Toggle search expansion
   const toggleSearchExpansion = (searchId: string) => {
     setExpandedSearches(prev => {
@@ -450,6 +1018,103 @@ function App() {
     });
   };
 
+  // Load early buyer positions for a search from the backend
+  const loadPositions = async (search: SearchData) => {
+    if (!apiService.current || !search.sessionId) {
+      setPositionsBySearch(prev => ({
+        ...prev,
+        [search.id]: { mints: [], isLoading: false, error: 'Positions are only available while the session is running on the backend' }
+      }));
+      return;
+    }
+
+    setPositionsBySearch(prev => ({
+      ...prev,
+      [search.id]: { mints: prev[search.id]?.mints || [], isLoading: true }
+    }));
+
+    try {
+      const response = await apiService.current.getPositions(search.sessionId);
+      setPositionsBySearch(prev => ({
+        ...prev,
+        [search.id]: { mints: response.mints || [], isLoading: false }
+      }));
+    } catch (error) {
+      setPositionsBySearch(prev => ({
+        ...prev,
+        [search.id]: { mints: [], isLoading: false, error: error instanceof Error ? error.message : 'Failed to load positions' }
+      }));
+    }
+  };
+
+  // Toggle the positions table of a search, loading it on first open
+  const togglePositions = (search: SearchData) => {
+    const isOpen = expandedPositions.has(search.id);
+    setExpandedPositions(prev => {
+      const newSet = new Set(prev);
+      if (isOpen) {
+        newSet.delete(search.id);
+      } else {
+        newSet.add(search.id);
+      }
+      return newSet;
+    });
+    if (!isOpen) {
+      loadPositions(search);
+    }
+  };
+
+  // Load funding clusters for a search; keeps reloading while the backend traces and the panel is open
+  const loadClusters = async (search: SearchData) => {
+    if (!apiService.current || !search.sessionId) {
+      setClustersBySearch(prev => ({
+        ...prev,
+        [search.id]: { clusters: [], isLoading: false, error: 'Funding clusters are only available for sessions on the backend' }
+      }));
+      return;
+    }
+
+    setClustersBySearch(prev => ({
+      ...prev,
+      [search.id]: { ...prev[search.id], clusters: prev[search.id]?.clusters || [], isLoading: true }
+    }));
+
+    try {
+      const response = await apiService.current.getClusters(search.sessionId);
+      setClustersBySearch(prev => ({
+        ...prev,
+        [search.id]: { status: response.status, traced: response.traced, wallets: response.wallets, clusters: response.clusters || [], isLoading: false }
+      }));
+      if (response.status === 'tracing') {
+        setTimeout(() => {
+          if (expandedClustersRef.current.has(search.id)) {
+            loadClusters(search);
+          }
+        }, CLUSTER_POLL_INTERVAL);
+      }
+    } catch (error) {
+      setClustersBySearch(prev => ({
+        ...prev,
+        [search.id]: { clusters: [], isLoading: false, error: error instanceof Error ? error.message : 'Failed to load funding clusters' }
+      }));
+    }
+  };
+
+  const toggleClusters = (search: SearchData) => {
+    const isOpen = expandedClusters.has(search.id);
+    const newSet = new Set(expandedClusters);
+    if (isOpen) {
+      newSet.delete(search.id);
+    } else {
+      newSet.add(search.id);
+    }
+    expandedClustersRef.current = newSet;
+    setExpandedClusters(newSet);
+    if (!isOpen) {
+      loadClusters(search);
+    }
+  };
+
   // Sort searches
   const getSortedSearches = () => {
     return [...searches].sort((a, b) => {
@@ -460,7 +1125,7 @@ function App() {
           comparison = a.timestamp - b.timestamp;
           break;
         case 'buyCount':
-          comparison = a.buyers.length - b.buyers.length;
+          comparison = getSearchBuyers(a).length - getSearchBuyers(b).length;
           break;
         case 'tokenAddress':
           comparison = a.tokenAddress.localeCompare(b.tokenAddress);
@@ -494,21 +1159,27 @@ function App() {
       
       // Update service status to running if we have active sessions
       setServiceStatus('running');
+
+      // Sessions with an open event stream are kept up to date by their events
+      const polledSearches = activeSearches.filter(search =>
+        !eventStreams.current.get(search.sessionId)?.isOpen
+      );
       
       // Monitor each active session
-      const updatePromises = activeSearches.map(async (search) => {
+      const updatePromises = polledSearches.map(async (search) => {
         try {
-          const response = await apiService.current!.getTrackingProgress(search.sessionId);
-          
-          const convertedBuys = response.buyers ? response.buyers.map((buy: any) => 
-            apiService.current!.convertBuyData(buy)
-          ) : [];
+          const response: SessionSnapshot = await apiService.current!.getTrackingProgress(search.sessionId);
           
           return {
             searchId: search.id,
             data: {
-              buyers: convertedBuys,
+              mints: toMintResults(response, search),
+              tokens: { ...search.tokens, ...response.tokens },
               progress: response.progress,
+              snipers: response.snipers,
+              backfillStrategy: response.backfillStrategy || search.backfillStrategy,
+              blockNumber: response.blockNumber ?? search.blockNumber,
+              launch: response.launch ?? search.launch,
               isLoading: response.status === 'running' || response.status === 'starting',
               error: response.status === 'error' ? response.error : undefined,
               isComplete: response.isComplete
@@ -573,8 +1244,8 @@ function App() {
   };
 
   const handleSearch = async () => {
-    if (!tokenInput.trim() || !blockInput.trim()) {
-      setError('Please enter both token address and block number');
+    if (!tokenInput.trim()) {
+      setError('Please enter a token address');
       return;
     }
 
@@ -588,11 +1259,13 @@ function App() {
       return;
     }
 
-    const tokenAddress = tokenInput.trim();
-    const blockNumber = parseInt(blockInput);
+    // Several related mints can be tracked in one session, separated by commas
+    const tokenAddresses = Array.from(new Set(tokenInput.split(',').map(mint => mint.trim()).filter(Boolean)));
+    // Without a block the backend starts at the tokens' launch
+    const blockNumber = blockInput.trim() ? parseInt(blockInput) : null;
 
-    // Check if we already have results for this token and block
-    const existingSearch = findExistingSearch(tokenAddress, blockNumber);
+    // Check if we already have results for these tokens and block
+    const existingSearch = blockNumber !== null ? findExistingSearch(tokenAddresses, blockNumber) : null;
     
     if (existingSearch) {
       // If we have cached results, show them and expand the search
@@ -607,32 +1280,25 @@ function App() {
     setIsLoading(true);
     setServiceStatus('running');
 
-    const searchId = Date.now().toString();
-
-    const newSearch: SearchData = {
-      id: searchId,
-      sessionId: '',
-      tokenAddress: tokenAddress,
-      blockNumber: blockNumber,
-      buyers: [],
-      timestamp: Date.now(),
-      isLoading: true,
-      progress: { current: 0, target: 1000, percentage: '0.0', isComplete: false }
-    };
+    const stopConditions = toStopConditions(stopInputs);
+    const newSearch = createSearch(tokenAddresses, blockNumber, strategyInput, stopConditions);
+    const searchId = newSearch.id;
 
     setSearches(prev => [newSearch, ...prev]);
 
     try {
       // Start the token tracking via API
       const response = await apiService.current.startTracking(
-        tokenAddress,
-        blockNumber
+        tokenAddresses,
+        blockNumber,
+        strategyInput,
+        stopConditions
       );
 
       // Update search with session ID
       setSearches(prev => prev.map(search => 
         search.id === searchId 
-          ? { ...search, sessionId: response.sessionId }
+          ? { ...search, sessionId: response.sessionId, blockNumber: response.blockNumber, launch: response.launch }
           : search
       ));
 
@@ -681,9 +1347,38 @@ function App() {
     return `${address.slice(0, 8)}...${address.slice(-8)}`;
   };
 
+  // A token's symbol when known, otherwise its shortened address
+  const formatToken = (search: SearchData, mint?: string | null) => {
+    if (!mint) {
+      return '';
+    }
+    return search.tokens?.[mint]?.symbol || formatAddress(mint);
+  };
+
+  const getTokenTitle = (search: SearchData, mint: string) => {
+    const token = search.tokens?.[mint];
+    return token?.name ? `${token.name} (${mint})` : mint;
+  };
+
+  // Raw base-unit amounts, converted without going through floating point
   const formatAmount = (amount: string | number, decimals: number = 9) => {
-    const num = typeof amount === 'string' ? parseFloat(amount) : amount;
-    return (num / Math.pow(10, decimals)).toFixed(4);
+    const raw = typeof amount === 'number' ? BigInt(Math.round(amount)) : amount;
+    return roundDecimal(toDecimalString(raw, decimals), 4);
+  };
+
+  // Prices of new tokens are often far below one, so they keep significant digits instead of places
+  const formatPrice = (price: string) => {
+    return Number(price) >= 1 ? roundDecimal(price, 6) : toSignificant(price, 6);
+  };
+
+  // Sub-cent prices are common for new tokens, so small values keep their significant digits
+  const formatUsd = (value: number | null | undefined) => {
+    if (typeof value !== 'number') {
+      return 'N/A';
+    }
+    return value >= 0.01 || value === 0
+      ? `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+      : `$${value.toPrecision(4)}`;
   };
 
   const isAddressDuplicate = (address: string) => {
@@ -720,7 +1415,7 @@ function App() {
             🚀 Token Transaction Tracker
           </h1>
           <p className="text-gray-600 text-lg">
-            Track any transaction involving a token by token address and block number. Any transaction with the target token is counted as a buyer address.
+            Track the first buyers of a token by token address and block number. Transactions are classified as buys, sells, transfers, mints, burns or liquidity events, and only real buys are listed.
           </p>
           <div className="mt-6 flex justify-center gap-4">
             <span className={`inline-flex items-center px-4 py-2 rounded-full text-sm font-medium ${
@@ -801,33 +1496,85 @@ function App() {
 
         {/* Search Form */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Token Address *
+                Token Address(es) *
               </label>
               <input
                 type="text"
                 value={tokenInput}
                 onChange={(e) => setTokenInput(e.target.value)}
-                placeholder="Enter token mint address"
+                placeholder="Enter token mint addresses, separated by commas"
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 disabled={isLoading || backendStatus !== 'connected'}
               />
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Starting Block Number *
+                Starting Block Number
               </label>
               <input
                 type="number"
                 value={blockInput}
                 onChange={(e) => setBlockInput(e.target.value)}
-                placeholder="Enter block number"
+                placeholder="Leave blank to start at the launch"
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 disabled={isLoading || backendStatus !== 'connected'}
               />
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Backfill Strategy
+              </label>
+              <select
+                value={strategyInput}
+                onChange={(e) => setStrategyInput(e.target.value as BackfillStrategy)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={isLoading || backendStatus !== 'connected'}
+              >
+                <option value="block-scan">Block scan (every block)</option>
+                <option value="signature-index">Signature index (mint history only)</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Stop Conditions */}
+          <div className="mb-4">
+            <div className="flex items-center gap-2 mb-2">
+              <span className="text-sm font-medium text-gray-700">Stop each token when</span>
+              <select
+                value={stopInputs.mode}
+                onChange={(e) => setStopInputs(prev => ({ ...prev, mode: e.target.value as 'any' | 'all' }))}
+                className="text-sm border border-gray-300 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={isLoading || backendStatus !== 'connected'}
+              >
+                <option value="any">any condition is met</option>
+                <option value="all">all conditions are met</option>
+              </select>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+              {([
+                ['buys', 'Buys', 'number'],
+                ['uniqueBuyers', 'Unique buyers', 'number'],
+                ['endSlot', 'End slot', 'number'],
+                ['endTime', 'End time', 'datetime-local'],
+                ['quoteVolume', 'Quote volume', 'number'],
+                ['durationMinutes', 'Duration (min)', 'number']
+              ] as [Exclude<keyof StopConditionInputs, 'mode'>, string, string][]).map(([field, label, type]) => (
+                <div key={field}>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">{label}</label>
+                  <input
+                    type={type}
+                    value={stopInputs[field]}
+                    onChange={(e) => setStopInputs(prev => ({ ...prev, [field]: e.target.value }))}
+                    placeholder="—"
+                    className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    disabled={isLoading || backendStatus !== 'connected'}
+                  />
+                </div>
+              ))}
+            </div>
           </div>
           
           {error && (
@@ -923,8 +1670,8 @@ function App() {
                   </svg>
                 </div>
                 <div className="ml-3">
-                  <p className="text-sm font-medium text-gray-500">Total Transactions</p>
-                  <p className="text-2xl font-bold text-gray-900">{searches.reduce((sum, search) => sum + search.buyers.length, 0)}</p>
+                  <p className="text-sm font-medium text-gray-500">Total Buys</p>
+                  <p className="text-2xl font-bold text-gray-900">{searches.reduce((sum, search) => sum + getSearchBuyers(search).length, 0)}</p>
                 </div>
               </div>
             </div>
@@ -1062,7 +1809,23 @@ function App() {
                       <div className="flex-1">
                         <div className="flex items-center gap-3 mb-2">
                           <h3 className="text-lg font-semibold text-gray-900">
-                            Token: {formatAddress(search.tokenAddress)}
+                            {search.mints.length > 1 ? 'Tokens' : 'Token'}:{' '}
+                            {search.mints.map((result, index) => (
+                              <span key={result.mint} title={getTokenTitle(search, result.mint)}>
+                                {index > 0 && ', '}
+                                {search.tokens?.[result.mint]?.symbol
+                                  ? <>{search.tokens[result.mint].symbol} <span className="font-mono text-sm text-gray-500">{formatAddress(result.mint)}</span></>
+                                  : formatAddress(result.mint)}
+                                {(search.tokens?.[result.mint]?.extensions?.riskFlags.length ?? 0) > 0 && (
+                                  <span
+                                    className="ml-2 inline-flex items-center px-2 py-1 text-xs font-medium bg-red-100 text-red-800 rounded-full"
+                                    title="Token-2022 extensions that let an authority move, charge or lock holders' tokens"
+                                  >
+                                    Risk: {search.tokens![result.mint].extensions!.riskFlags.map(flag => RISK_FLAG_LABELS[flag] || flag).join(', ')}
+                                  </span>
+                                )}
+                              </span>
+                            ))}
                           </h3>
                           {search.isLoading && (
                             <div className="flex items-center gap-2">
@@ -1082,20 +1845,27 @@ function App() {
                           )}
                         </div>
                         <p className="text-sm text-gray-600">
-                          Block: {search.blockNumber.toLocaleString()} • Started: {new Date(search.timestamp).toLocaleString()}
+                          Block: {search.blockNumber?.toLocaleString() ?? 'discovering launch…'} • Started: {new Date(search.timestamp).toLocaleString()}
+                          {search.backfillStrategy && ` • Backfill: ${search.backfillStrategy === 'signature-index' ? 'signature index' : 'block scan'}`}
                           {search.isFromCache && search.lastUpdated && (
                             <span className="ml-2 text-green-600">
                               • Cached: {new Date(search.lastUpdated).toLocaleString()}
                             </span>
                           )}
                         </p>
+                        {search.launch && Object.values(search.launch).map(launch => (
+                          <p key={launch.mint} className="text-xs text-gray-500">
+                            Launch of {formatToken(search, launch.mint)}: created in slot {launch.creationSlot?.toLocaleString()}
+                            {launch.poolSlot !== null ? `, first liquidity in slot ${launch.poolSlot.toLocaleString()}` : ', no liquidity deposit found'}
+                          </p>
+                        ))}
                       </div>
                       
                       <div className="flex items-center gap-4">
                         {/* Statistics Cards */}
                         <div className="flex gap-2">
                           <div className="bg-blue-50 px-3 py-1 rounded-lg">
-                            <span className="text-xs text-blue-600 font-medium">{search.buyers.length} transactions</span>
+                            <span className="text-xs text-blue-600 font-medium">{getSearchBuyers(search).length} buys</span>
                           </div>
                           <div className="bg-green-50 px-3 py-1 rounded-lg">
                             <span className="text-xs text-green-600 font-medium">{stats.uniqueBuyers} unique</span>
@@ -1137,7 +1907,9 @@ function App() {
                     {search.progress && (
                       <div className="mt-4">
                         <div className="flex justify-between text-sm text-gray-600 mb-1">
-                          <span>Progress: {search.progress.current}/{search.progress.target}</span>
+                          <span>
+                            Progress{search.progress.condition ? ` (${STOP_CONDITION_LABELS[search.progress.condition]})` : ''}: {formatProgressValue(search.progress.condition, search.progress.current)}/{formatProgressValue(search.progress.condition, search.progress.target)}
+                          </span>
                           <span>{search.progress.percentage}%</span>
                         </div>
                         <div className="w-full bg-gray-200 rounded-full h-2">
@@ -1146,6 +1918,17 @@ function App() {
                             style={{ width: `${search.progress.percentage}%` }}
                           ></div>
                         </div>
+                        {search.progress.filtered && Object.keys(search.progress.filtered).length > 0 && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            Filtered out: {Object.entries(search.progress.filtered).map(([reason, count]) => `${count} ${reason}`).join(', ')}
+                          </div>
+                        )}
+                        {search.snipers && search.snipers.flaggedBuys > 0 && (
+                          <div className="text-xs text-red-700 mt-1">
+                            Snipers: {search.snipers.flaggedBuys} of {search.snipers.buys} buys from {search.snipers.flaggedWallets} wallets
+                            {' '}({Object.entries(search.snipers.labels).filter(([, count]) => count > 0).map(([label, count]) => `${count} ${SNIPER_LABEL_NAMES[label]?.name || label}`).join(', ')})
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -1158,13 +1941,16 @@ function App() {
                         <div className="bg-gray-50 rounded-lg p-4">
                           <h4 className="text-sm font-medium text-gray-700 mb-1">Total Volume</h4>
                           <p className="text-lg font-semibold text-gray-900">
-                            {stats.totalVolume.toFixed(4)} SOL
+                            {formatUsd(stats.totalVolumeUsd)}
                           </p>
+                          {stats.unpricedBuys > 0 && (
+                            <p className="text-xs text-gray-500">{stats.unpricedBuys} buys without a USD price</p>
+                          )}
                         </div>
                         <div className="bg-gray-50 rounded-lg p-4">
                           <h4 className="text-sm font-medium text-gray-700 mb-1">Average Price</h4>
                           <p className="text-lg font-semibold text-gray-900">
-                            {stats.avgPrice.toFixed(6)} SOL
+                            {formatUsd(stats.avgPriceUsd)}
                           </p>
                         </div>
                         <div className="bg-gray-50 rounded-lg p-4">
@@ -1175,78 +1961,361 @@ function App() {
                         </div>
                       </div>
 
-                      {/* Transactions Table */}
-                      {search.buyers.length > 0 ? (
-                        <div className="overflow-x-auto">
-                          <table className="min-w-full divide-y divide-gray-200">
-                            <thead className="bg-gray-50">
-                              <tr>
-                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Transaction #</th>
-                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Address</th>
-                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Token Amount</th>
-                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount Sold</th>
-                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
-                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
-                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Signature</th>
-                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
-                              </tr>
-                            </thead>
-                            <tbody className="bg-white divide-y divide-gray-200">
-                              {search.buyers.map((buyer, index) => (
-                                <tr 
-                                  key={index} 
-                                  className={`hover:bg-gray-50 transition-colors ${isAddressDuplicate(buyer.buyer || buyer.address) ? 'bg-yellow-50' : ''}`}
-                                >
-                                  <td className="px-4 py-3 text-sm text-gray-900">
-                                    <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-blue-100 text-blue-800 rounded-full">
-                                      {buyer.buyNumber || index + 1}
-                                    </span>
-                                  </td>
-                                  <td className="px-4 py-3 text-sm text-gray-900">
-                                    <div className="flex items-center gap-2">
-                                      <span className="font-mono">{formatAddress(buyer.buyer || buyer.address)}</span>
-                                      {isAddressDuplicate(buyer.buyer || buyer.address) && (
-                                        <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-yellow-100 text-yellow-800 rounded-full">
-                                          Duplicate
-                                        </span>
-                                      )}
+                      {/* Early Buyer Positions */}
+                      <div className="mb-6 border border-gray-200 rounded-lg">
+                        <div className="flex items-center justify-between px-4 py-3 bg-gray-50 rounded-t-lg">
+                          <button
+                            onClick={() => togglePositions(search)}
+                            className="flex items-center gap-2 text-sm font-medium text-gray-700"
+                          >
+                            <svg className={`w-4 h-4 text-gray-500 transform transition-transform ${expandedPositions.has(search.id) ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                            </svg>
+                            Early Buyer Positions
+                            {getPositionCounts(positionsBySearch[search.id]) && (
+                              <span className="text-xs text-gray-500 font-normal">
+                                {getPositionCounts(positionsBySearch[search.id])!.holding} holding • {getPositionCounts(positionsBySearch[search.id])!.partial} partial • {getPositionCounts(positionsBySearch[search.id])!.exited} exited
+                              </span>
+                            )}
+                          </button>
+                          {expandedPositions.has(search.id) && (
+                            <button
+                              onClick={() => loadPositions(search)}
+                              className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+                            >
+                              {positionsBySearch[search.id]?.isLoading ? 'Loading...' : 'Refresh'}
+                            </button>
+                          )}
+                        </div>
+                        {expandedPositions.has(search.id) && (
+                          <div className="p-4">
+                            {positionsBySearch[search.id]?.error ? (
+                              <p className="text-sm text-red-600">{positionsBySearch[search.id].error}</p>
+                            ) : positionsBySearch[search.id]?.mints.some(result => result.positions.length > 0) ? (
+                              <div className="space-y-4">
+                                {positionsBySearch[search.id].mints.map(result => (
+                                  <div key={result.mint}>
+                                    {search.mints.length > 1 && (
+                                      <h5 className="text-xs font-medium text-gray-600 mb-2">
+                                        Token: <span className="font-mono" title={getTokenTitle(search, result.mint)}>{formatToken(search, result.mint)}</span> • {result.summary.wallets} wallets
+                                      </h5>
+                                    )}
+                                    <div className="overflow-x-auto">
+                                      <table className="min-w-full divide-y divide-gray-200">
+                                        <thead>
+                                          <tr>
+                                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Buy #</th>
+                                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Wallet</th>
+                                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Avg Entry</th>
+                                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Realized PnL</th>
+                                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Unrealized PnL</th>
+                                          </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-gray-100">
+                                          {result.positions.map(position => (
+                                            <tr key={position.wallet} className="hover:bg-gray-50">
+                                              <td className="px-3 py-2 text-sm text-gray-900">{position.firstBuyNumber}</td>
+                                              <td className="px-3 py-2 text-sm font-mono text-gray-900">{formatAddress(position.wallet)}</td>
+                                              <td className="px-3 py-2 text-sm">
+                                                <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${
+                                                  position.status === 'holding' ? 'bg-green-100 text-green-800' :
+                                                  position.status === 'partial' ? 'bg-yellow-100 text-yellow-800' :
+                                                  'bg-red-100 text-red-800'
+                                                }`}>
+                                                  {position.status}
+                                                </span>
+                                              </td>
+                                              <td className="px-3 py-2 text-sm text-gray-900">{roundDecimal(position.balance, 4)}</td>
+                                              <td className="px-3 py-2 text-sm text-gray-900">{formatPrice(position.averageEntryPrice)}</td>
+                                              <td className={`px-3 py-2 text-sm font-medium ${!position.realizedPnl.startsWith('-') ? 'text-green-700' : 'text-red-700'}`}>
+                                                {roundDecimal(position.realizedPnl, 4)}
+                                              </td>
+                                              <td className={`px-3 py-2 text-sm font-medium ${!position.unrealizedPnl.startsWith('-') ? 'text-green-700' : 'text-red-700'}`}>
+                                                {roundDecimal(position.unrealizedPnl, 4)}
+                                              </td>
+                                            </tr>
+                                          ))}
+                                        </tbody>
+                                      </table>
                                     </div>
-                                  </td>
-                                  <td className="px-4 py-3 text-sm text-gray-900 font-medium">
-                                    {formatAmount(buyer.amountBought || buyer.tokenAmount, buyer.decimalsTarget)}
-                                  </td>
-                                  <td className="px-4 py-3 text-sm text-gray-900">
-                                    {formatAmount(buyer.amountSold || buyer.solAmount, buyer.decimalsSold)}
-                                  </td>
-                                  <td className="px-4 py-3 text-sm text-gray-900">
-                                    <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${
-                                      buyer.confidence === 'high' ? 'bg-green-100 text-green-800' :
-                                      buyer.confidence === 'medium' ? 'bg-yellow-100 text-yellow-800' :
-                                      'bg-gray-100 text-gray-800'
-                                    }`}>
-                                      {buyer.dex || 'Unknown'}
+                                  </div>
+                                ))}
+                              </div>
+                            ) : (
+                              <p className="text-sm text-gray-500">
+                                {positionsBySearch[search.id]?.isLoading ? 'Loading positions...' : 'No positions recorded yet.'}
+                              </p>
+                            )}
+                          </div>
+                        )}
+                      </div>
+
+                      {/* Funding Clusters */}
+                      <div className="mb-6 border border-gray-200 rounded-lg">
+                        <div className="flex items-center justify-between px-4 py-3 bg-gray-50 rounded-t-lg">
+                          <button
+                            onClick={() => toggleClusters(search)}
+                            className="flex items-center gap-2 text-sm font-medium text-gray-700"
+                          >
+                            <svg className={`w-4 h-4 text-gray-500 transform transition-transform ${expandedClusters.has(search.id) ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                            </svg>
+                            Funding Clusters
+                            {clustersBySearch[search.id]?.status && (
+                              <span className="text-xs text-gray-500 font-normal">
+                                {clustersBySearch[search.id].clusters.length} clusters • {clustersBySearch[search.id].traced}/{clustersBySearch[search.id].wallets} wallets traced
+                              </span>
+                            )}
+                          </button>
+                          {expandedClusters.has(search.id) && (
+                            <button
+                              onClick={() => loadClusters(search)}
+                              className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+                            >
+                              {clustersBySearch[search.id]?.isLoading ? 'Loading...' : 'Refresh'}
+                            </button>
+                          )}
+                        </div>
+                        {expandedClusters.has(search.id) && (
+                          <div className="p-4">
+                            {clustersBySearch[search.id]?.error ? (
+                              <p className="text-sm text-red-600">{clustersBySearch[search.id].error}</p>
+                            ) : clustersBySearch[search.id]?.clusters.length > 0 ? (
+                              <div className="overflow-x-auto">
+                                <table className="min-w-full divide-y divide-gray-200">
+                                  <thead>
+                                    <tr>
+                                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Funder</th>
+                                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Wallets</th>
+                                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Buys</th>
+                                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supply Bought</th>
+                                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Buy Slots</th>
+                                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Funded</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody className="divide-y divide-gray-100">
+                                    {clustersBySearch[search.id].clusters.map(cluster => (
+                                      <tr key={cluster.funder} className="hover:bg-gray-50 align-top">
+                                        <td className="px-3 py-2 text-sm font-mono text-gray-900" title={cluster.funders.map(funder => `${funder.address} (${funder.wallets} wallets, hop ${funder.hop})`).join('\n')}>
+                                          {formatAddress(cluster.funder)}
+                                          {cluster.funders.length > 1 && (
+                                            <span className="ml-1 text-xs text-gray-500 font-sans">+{cluster.funders.length - 1} more</span>
+                                          )}
+                                        </td>
+                                        <td className="px-3 py-2 text-sm text-gray-900" title={cluster.wallets.join('\n')}>
+                                          {cluster.size}
+                                        </td>
+                                        <td className="px-3 py-2 text-sm text-gray-900">{cluster.buys}</td>
+                                        <td className="px-3 py-2 text-sm text-gray-900">
+                                          {Object.entries(cluster.supplyPercentage).map(([mint, share]) => (
+                                            <div key={mint}>
+                                              {share !== null ? `${toSignificant(share, 3)}%` : 'N/A'}
+                                              {search.mints.length > 1 && <span className="text-xs text-gray-500"> {formatToken(search, mint)}</span>}
+                                            </div>
+                                          ))}
+                                        </td>
+                                        <td className="px-3 py-2 text-sm text-gray-900">
+                                          {cluster.firstBuySlot === cluster.lastBuySlot
+                                            ? cluster.firstBuySlot
+                                            : `${cluster.firstBuySlot} – ${cluster.lastBuySlot} (${cluster.lastBuySlot - cluster.firstBuySlot} slots)`}
+                                        </td>
+                                        <td className="px-3 py-2 text-sm text-gray-900">
+                                          {cluster.firstFundedAt !== null
+                                            ? <>
+                                                {new Date(cluster.firstFundedAt * 1000).toLocaleString()}
+                                                {cluster.lastFundedAt !== null && cluster.lastFundedAt !== cluster.firstFundedAt && (
+                                                  <div className="text-xs text-gray-500">over {Math.round((cluster.lastFundedAt - cluster.firstFundedAt) / 60)} min</div>
+                                                )}
+                                              </>
+                                            : 'N/A'}
+                                        </td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              </div>
+                            ) : (
+                              <p className="text-sm text-gray-500">
+                                {clustersBySearch[search.id]?.isLoading || clustersBySearch[search.id]?.status === 'tracing'
+                                  ? 'Tracing funding sources...'
+                                  : 'No wallets share a funder.'}
+                              </p>
+                            )}
+                          </div>
+                        )}
+                      </div>
+
+                      {/* Transactions Table, one per tracked mint */}
+                      {getSearchBuyers(search).length > 0 ? (
+                        <div className="space-y-6">
+                          {search.mints.map(result => (
+                            <div key={result.mint}>
+                              {search.mints.length > 1 && (
+                                <div className="flex items-center justify-between mb-2">
+                                  <h4 className="text-sm font-semibold text-gray-800">
+                                    Token: <span className="font-mono" title={getTokenTitle(search, result.mint)}>{formatToken(search, result.mint)}</span>
+                                    {result.snipers && result.snipers.flaggedBuys > 0 && (
+                                      <span className="ml-2 text-xs font-normal text-red-700">{result.snipers.flaggedBuys} buys flagged as snipers</span>
+                                    )}
+                                  </h4>
+                                  {result.progress && (
+                                    <span className="text-xs text-gray-600">
+                                      {result.progress.condition ? `${STOP_CONDITION_LABELS[result.progress.condition]}: ` : ''}{formatProgressValue(result.progress.condition, result.progress.current)}/{formatProgressValue(result.progress.condition, result.progress.target)} ({result.progress.percentage}%){result.progress.isComplete ? ' • complete' : ''}
                                     </span>
-                                  </td>
-                                  <td className="px-4 py-3 text-sm text-gray-900 font-medium">
-                                    {buyer.pricePerToken ? parseFloat(buyer.pricePerToken).toFixed(6) : 'N/A'}
-                                  </td>
-                                  <td className="px-4 py-3 text-sm text-gray-900">
-                                    <a 
-                                      href={`https://solscan.io/tx/${buyer.signature}`}
-                                      target="_blank"
-                                      rel="noopener noreferrer"
-                                      className="text-blue-600 hover:text-blue-800 font-mono hover:underline"
-                                    >
-                                      {buyer.signature.slice(0, 8)}...
-                                    </a>
-                                  </td>
-                                  <td className="px-4 py-3 text-sm text-gray-900">
-                                    {new Date(buyer.timestamp).toLocaleString()}
-                                  </td>
-                                </tr>
-                              ))}
-                            </tbody>
-                          </table>
+                                  )}
+                                </div>
+                              )}
+                              {(result.progress?.migration || result.progress?.bondingCurve) && (
+                                <p className="text-xs text-gray-600 mb-2">
+                                  {result.progress.migration
+                                    ? `Bonding curve migrated to ${result.progress.migration.dex} in slot ${result.progress.migration.slot.toLocaleString()}`
+                                    : `Bonding curve ${result.progress.bondingCurve?.progress}% filled as of slot ${result.progress.bondingCurve?.slot.toLocaleString()}`}
+                                </p>
+                              )}
+                              {result.progress?.pools && result.progress.pools.length > 0 && (
+                                <div className="mb-3 text-xs text-gray-600">
+                                  <p className="font-medium text-gray-700 mb-1">Pools</p>
+                                  <ul className="space-y-1">
+                                    {result.progress.pools.map(pool => (
+                                      <li key={pool.address}>
+                                        <span className="font-mono" title={pool.address}>{formatAddress(pool.address)}</span>
+                                        {' '}({pool.dex}{pool.quoteToken ? ` / ${formatToken(search, pool.quoteToken)}` : ''})
+                                        {result.progress?.migration?.pool === pool.address ? ' • migrated curve' : ''}
+                                        {' • '}{pool.buys} buys by {pool.buyers} wallets, {pool.sells} sells
+                                        {pool.decimalsQuote !== null && ` • ${formatAmount(pool.buyVolume, pool.decimalsQuote)} ${formatToken(search, pool.quoteToken)} bought`}
+                                        {pool.volumeUsd !== null && ` • ${formatUsd(pool.volumeUsd)} volume`}
+                                        {' • '}first trade in slot {pool.firstSlot.toLocaleString()}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </div>
+                              )}
+                              {result.buyers.length > 0 ? (
+                                <div className="overflow-x-auto">
+                                  <table className="min-w-full divide-y divide-gray-200">
+                                    <thead className="bg-gray-50">
+                                      <tr>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Buy #</th>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Address</th>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Token Amount</th>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount Sold</th>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Signature</th>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                                      </tr>
+                                    </thead>
+                                    <tbody className="bg-white divide-y divide-gray-200">
+                                      {result.buyers.map((buyer, index) => (
+                                        <tr 
+                                          key={index} 
+                                          className={`hover:bg-gray-50 transition-colors ${isAddressDuplicate(buyer.buyer || buyer.address) ? 'bg-yellow-50' : ''}`}
+                                        >
+                                          <td className="px-4 py-3 text-sm text-gray-900">
+                                            <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-blue-100 text-blue-800 rounded-full">
+                                              {buyer.buyNumber || index + 1}
+                                            </span>
+                                          </td>
+                                          <td className="px-4 py-3 text-sm text-gray-900">
+                                            <div className="flex items-center gap-2">
+                                              <span className="font-mono">{formatAddress(buyer.buyer || buyer.address)}</span>
+                                              {isAddressDuplicate(buyer.buyer || buyer.address) && (
+                                                <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-yellow-100 text-yellow-800 rounded-full">
+                                                  Duplicate
+                                                </span>
+                                              )}
+                                              {buyer.feePayer && buyer.buyer && buyer.feePayer !== buyer.buyer && (
+                                                <span
+                                                  className="inline-flex items-center px-2 py-1 text-xs font-medium bg-indigo-100 text-indigo-800 rounded-full"
+                                                  title={`Fee paid by ${buyer.feePayer}`}
+                                                >
+                                                  Relayed
+                                                </span>
+                                              )}
+                                              {buyer.sniperLabels?.map(label => (
+                                                <span
+                                                  key={label}
+                                                  className="inline-flex items-center px-2 py-1 text-xs font-medium bg-red-100 text-red-800 rounded-full"
+                                                  title={SNIPER_LABEL_NAMES[label]?.title}
+                                                >
+                                                  {SNIPER_LABEL_NAMES[label]?.name || label}
+                                                </span>
+                                              ))}
+                                            </div>
+                                          </td>
+                                          <td className="px-4 py-3 text-sm text-gray-900 font-medium">
+                                            {formatAmount(buyer.amountBought || buyer.tokenAmount, buyer.decimalsTarget)} {formatToken(search, buyer.targetToken)}
+                                            {buyer.supplyPercentage && (
+                                              <div className="text-xs text-gray-500">{toSignificant(buyer.supplyPercentage, 3)}% of supply</div>
+                                            )}
+                                            {buyer.targetTransferFee && buyer.targetTransferFee !== '0' && (
+                                              <div className="text-xs text-gray-500">Transfer fee: {formatAmount(buyer.targetTransferFee, buyer.decimalsTarget)}</div>
+                                            )}
+                                          </td>
+                                          <td className="px-4 py-3 text-sm text-gray-900">
+                                            <span title={buyer.quoteToken ? getTokenTitle(search, buyer.quoteToken) : undefined}>
+                                              {formatAmount(buyer.amountSold || buyer.solAmount, buyer.decimalsSold)} {formatToken(search, buyer.quoteToken || buyer.tokenSold)}
+                                            </span>
+                                            {typeof buyer.quoteValueUsd === 'number' && (
+                                              <div className="text-xs text-gray-500">{formatUsd(buyer.quoteValueUsd)}</div>
+                                            )}
+                                          </td>
+                                          <td className="px-4 py-3 text-sm text-gray-900">
+                                            <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${
+                                              buyer.confidence === 'high' ? 'bg-green-100 text-green-800' :
+                                              buyer.confidence === 'medium' ? 'bg-yellow-100 text-yellow-800' :
+                                              'bg-gray-100 text-gray-800'
+                                            }`}>
+                                              {buyer.dex || 'Unknown'}
+                                            </span>
+                                            {buyer.bondingCurve && (
+                                              <div className="text-xs text-gray-500" title="Share of the bonding curve's tokens sold after this trade">
+                                                Curve {buyer.bondingCurve.progress}%
+                                              </div>
+                                            )}
+                                            {buyer.poolAddress && (
+                                              <div className="text-xs text-gray-500 font-mono" title={`${buyer.poolDex} pool ${buyer.poolAddress}`}>
+                                                {formatAddress(buyer.poolAddress)}
+                                              </div>
+                                            )}
+                                          </td>
+                                          <td className="px-4 py-3 text-sm text-gray-900 font-medium">
+                                            {typeof buyer.priceUsd === 'number' ? (
+                                              <span title={buyer.priceSource?.signatures ? `Priced from ${buyer.priceSource.samples} stablecoin swaps in slots ${buyer.priceSource.fromSlot}-${buyer.priceSource.toSlot}` : undefined}>
+                                                {formatUsd(buyer.priceUsd)}
+                                              </span>
+                                            ) : (buyer.pricePerToken ? formatPrice(buyer.pricePerToken) : 'N/A')}
+                                            {(buyer.marketCapUsd !== null && buyer.marketCapUsd !== undefined) || buyer.marketCapAtEntry ? (
+                                              <div className="text-xs text-gray-500" title="Market cap implied by this buy's price">
+                                                MC {typeof buyer.marketCapUsd === 'number' ? formatUsd(buyer.marketCapUsd) : roundDecimal(buyer.marketCapAtEntry as string, 2)}
+                                              </div>
+                                            ) : null}
+                                          </td>
+                                          <td className="px-4 py-3 text-sm text-gray-900">
+                                            <a 
+                                              href={`https://solscan.io/tx/${buyer.signature}`}
+                                              target="_blank"
+                                              rel="noopener noreferrer"
+                                              className="text-blue-600 hover:text-blue-800 font-mono hover:underline"
+                                            >
+                                              {buyer.signature.slice(0, 8)}...
+                                            </a>
+                                          </td>
+                                          <td className="px-4 py-3 text-sm text-gray-900">
+                                            {new Date(buyer.timestamp).toLocaleString()}
+                                          </td>
+                                        </tr>
+                                      ))}
+                                    </tbody>
+                                  </table>
+                                </div>
+                              ) : (
+                                <p className="text-sm text-gray-500 py-4">No buys found for this token yet.</p>
+                              )}
+                            </div>
+                          ))}
                         </div>
                       ) : (
                         <div className="text-center py-12 text-gray-500">
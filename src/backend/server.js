@@ -1,8 +1,22 @@
 import express from 'express';
 import cors from 'cors';
+import { randomUUID } from 'crypto';
 import { TokenTrackingService } from '../services/tokenTrackingService.js';
+import { StorageService } from '../services/storageService.js';
+import { PositionLedger } from '../services/positionLedger.js';
+import { SessionEventHub } from '../services/sessionEventHub.js';
+import { BACKFILL_STRATEGIES } from '../services/rpcService.js';
+import { RpcEndpointPool } from '../services/rpcEndpointPool.js';
+import { BlockIngestionService } from '../services/blockIngestionService.js';
+import { TokenMetadataService } from '../services/tokenMetadataService.js';
+import { SniperAnalyzer } from '../services/sniperAnalyzer.js';
+import { FundingClusterService } from '../services/fundingClusterService.js';
+import { LaunchDiscoveryService } from '../services/launchDiscoveryService.js';
+import { normalizeStopConditions } from '../services/stopConditions.js';
+import { normalizeDetectionFilters } from '../services/detectionFilters.js';
 import { Logger } from '../services/logger.js';
 import { config } from '../config/index.js';
+import { isValidTokenMint, normalizeTrackedMints } from '../utils/validation.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -13,67 +27,483 @@ app.use(express.json());
 
 // Store active tracking sessions
 const activeSessions = new Map();
+// Statuses of sessions that are no longer scanning
+const ENDED_STATUSES = ['complete', 'stopped', 'interrupted', 'error'];
 const logger = new Logger(config.logging.level);
 
+// Sessions and detections are persisted so they outlive the process and the cleanup timer
+const storage = new StorageService();
+storage.markInterruptedSessions();
+
+// Pushes status, detection, progress and error events to clients streaming a session
+const eventHub = new SessionEventHub();
+
+// All sessions share the RPC endpoints, so their request budgets and health cover every session
+const endpointPool = new RpcEndpointPool();
+// ...and one block stream, so a slot is fetched once however many sessions need it
+const blockIngestion = new BlockIngestionService({ endpointPool });
+// ...and resolved token names and symbols
+const tokenMetadata = new TokenMetadataService({ endpointPool });
+// ...and traced funding sources of buyer wallets
+const fundingClusters = new FundingClusterService({ endpointPool });
+// ...and discovered launch slots of mints
+const launchDiscovery = new LaunchDiscoveryService({ endpointPool });
+// Labels the buyers of stored sessions; live sessions label their own
+const sniperAnalyzer = new SniperAnalyzer();
+
+function setSessionStatus(sessionId, session, status, error) {
+  session.status = status;
+  if (error !== undefined) {
+    session.error = error;
+  }
+  storage.updateSession(sessionId, { status, error });
+
+  publishStatus(sessionId, session, status);
+  if (status === 'error') {
+    eventHub.publish(sessionId, 'session_error', { error: session.error });
+  }
+}
+
+// Status events also carry the starting block and launch slots, which sessions started without a
+// block only learn while starting
+function publishStatus(sessionId, session, status) {
+  eventHub.publish(sessionId, 'status', {
+    status,
+    error: session.error,
+    blockNumber: session.blockNumber,
+    launch: session.launch
+  });
+}
+
+function persistSessionProgress(sessionId, session, fields = {}) {
+  // Recent transactions are already stored as detections
+  const { recent_transactions, ...stats } = session.service.getStats();
+  storage.updateSession(sessionId, {
+    progress: session.service.getProgress(),
+    stats,
+    ...fields
+  });
+}
+
+// Creates the tracking service for a session and runs it in the background;
+// `run` receives the service and starts or resumes it. `launch` holds the discovered launch slots
+// of sessions started without a block; while `blockNumber` is null they are still being discovered.
+function launchSession(sessionId, targetTokens, blockNumber, run, launch = null) {
+  const hooks = storage.createSessionHooks(sessionId);
+  const service = new TokenTrackingService({
+    ...hooks,
+    endpointPool,
+    blockSource: blockIngestion,
+    tokenMetadata,
+    onDetection: detection => {
+      hooks.onDetection(detection);
+      eventHub.publish(sessionId, 'detection', detection);
+    }
+  });
+
+  activeSessions.set(sessionId, {
+    service,
+    startTime: Date.now(),
+    targetTokens,
+    blockNumber,
+    launch,
+    status: 'starting'
+  });
+
+  // The service's promise only resolves once its scan has ended, which it does on its own when
+  // tracking completes
+  run(service).then(success => {
+    const session = activeSessions.get(sessionId);
+    if (session) {
+      if (success) {
+        const status = service.isTrackingComplete() ? 'complete' : 'stopped';
+        if (session.status !== status) {
+          setSessionStatus(sessionId, session, status);
+        }
+      } else {
+        setSessionStatus(sessionId, session, 'error', 'Failed to start tracking service');
+      }
+    }
+  }).catch(error => {
+    const session = activeSessions.get(sessionId);
+    if (session) {
+      setSessionStatus(sessionId, session, 'error', error.message);
+    }
+    logger.error('Error starting tracking service', { sessionId, error: error.message });
+  }).finally(() => {
+    // A session that ended on its own keeps its state until it's stopped, but its events are over
+    const session = activeSessions.get(sessionId);
+    if (session) {
+      session.finished = true;
+      eventHub.closeSession(sessionId);
+    }
+  });
+
+  if (blockNumber !== null) {
+    markRunningSoon(sessionId);
+  }
+}
+
+// Update status to running shortly after service initialization
+// The service.start() promise won't resolve until the service stops, so we need to update status here
+function markRunningSoon(sessionId) {
+  setTimeout(() => {
+    const session = activeSessions.get(sessionId);
+    if (session && session.status === 'starting') {
+      setSessionStatus(sessionId, session, 'running');
+      logger.info('Session status updated to running', { sessionId });
+    }
+  }, 1000); // Give the service 1 second to initialize
+}
+
+// Finds the launch slots of a session started without a block, in its 'starting' phase, and
+// publishes them with the status. Returns the earliest launch to start at, or null when the
+// session was stopped meanwhile; throws when a mint's launch couldn't be found.
+async function discoverSessionLaunch(sessionId, targetTokens, params) {
+  const launch = await launchDiscovery.discoverMany(targetTokens);
+  const session = activeSessions.get(sessionId);
+  if (!session) {
+    return null;
+  }
+
+  const failed = Object.values(launch).filter(({ startSlot }) => startSlot === null);
+  const blockNumber = failed.length > 0 ? null : Math.min(...Object.values(launch).map(({ startSlot }) => startSlot));
+  session.launch = launch;
+  session.blockNumber = blockNumber;
+  storage.updateSession(sessionId, { blockNumber, params: { ...params, blockNumber, launch } });
+
+  if (failed.length > 0) {
+    throw new Error(`Could not discover the launch slot of ${failed.map(({ mint }) => mint).join(', ')}; provide a blockNumber`);
+  }
+  publishStatus(sessionId, session, session.status);
+  markRunningSoon(sessionId);
+  return blockNumber;
+}
+
+// Sniper summaries and the labels of flagged buys by buy number, pushed to event streams as
+// labels change with later buys
+function getSniperUpdate(service) {
+  const mints = service.getMintResults();
+  return {
+    snipers: service.sniperAnalyzer.combine(mints),
+    mints: Object.fromEntries(mints.map(result => [result.mint, {
+      summary: result.snipers,
+      labels: Object.fromEntries(result.buyers
+        .filter(buyer => buyer.sniperLabels.length > 0)
+        .map(buyer => [buyer.buyNumber, buyer.sniperLabels]))
+    }]))
+  };
+}
+
+// Stops a live session and keeps its final state in storage
+function stopSession(sessionId, session) {
+  session.service.stop();
+  let finalStatus = session.service.isTrackingComplete() ? 'complete' : 'stopped';
+  if (session.status === 'error') {
+    finalStatus = 'error';
+  }
+  persistSessionProgress(sessionId, session, { status: finalStatus, stoppedAt: Date.now() });
+  activeSessions.delete(sessionId);
+
+  eventHub.publish(sessionId, 'progress', session.service.getProgress());
+  eventHub.publish(sessionId, 'snipers', getSniperUpdate(session.service));
+  publishStatus(sessionId, session, finalStatus);
+  eventHub.closeSession(sessionId);
+  return finalStatus;
+}
+
+// A stopped session's positions come from its last checkpoint, which also covers filtered trades
+// that aren't stored. Mints without one are rebuilt by replaying the stored trades.
+function loadPositionLedgers(sessionId, targetTokens) {
+  const checkpointMints = storage.getCheckpoint(sessionId)?.mints || [];
+  const ledgers = new Map(targetTokens.map(mint => [mint, new PositionLedger()]));
+  const replayed = new Set();
+  for (const [mint, ledger] of ledgers) {
+    const positions = checkpointMints.find(entry => entry.mint === mint)?.positions;
+    if (positions) {
+      ledger.importState(positions);
+    } else {
+      replayed.add(mint);
+    }
+  }
+
+  if (replayed.size > 0) {
+    storage.getDetections(sessionId, { types: ['buy', 'sell'] })
+      .filter(detection => replayed.has(detection.targetToken))
+      .forEach(detection => ledgers.get(detection.targetToken).recordDetection(detection));
+  }
+  return ledgers;
+}
+
+// Sessions stored before multi-mint tracking tracked the one mint in tokenAddress
+function getStoredTargets(storedSession) {
+  return storedSession.params.tokenAddresses || [{ mint: storedSession.tokenAddress, maxBuys: null }];
+}
+
+// Groups a stored session's buyers by the mint they bought, with each mint's stored progress
+function getStoredMintResults(storedSession, buyers) {
+  const targets = getStoredTargets(storedSession);
+  const { progress } = storedSession;
+  // Supplies are only kept in checkpoints
+  const checkpointMints = storage.getCheckpoint(storedSession.sessionId)?.mints || [];
+
+  return targets.map(({ mint }) => {
+    const checkpointMint = checkpointMints.find(entry => entry.mint === mint);
+    const analysis = sniperAnalyzer.analyze(
+      buyers.filter(buyer => buyer.targetToken === mint),
+      checkpointMint?.tracker?.launchSlot ?? null
+    );
+    return {
+      mint,
+      supply: checkpointMint?.supply || null,
+      progress: progress?.mints?.[mint] || (targets.length === 1 ? progress : null),
+      buyers: analysis.buys,
+      snipers: analysis.summary
+    };
+  });
+}
+
+// Metadata of a stored session's mints and quote tokens. Responses don't wait on the RPC: tokens
+// that aren't cached yet are resolved in the background and included in a later response.
+function getStoredTokens(mints) {
+  const tokens = tokenMetadata.getCached(mints);
+  const missing = mints.filter(mint => mint && !tokens[mint]);
+  if (missing.length > 0) {
+    tokenMetadata.resolveMany(missing);
+  }
+  return tokens;
+}
+
+// Sessions stored before backfill strategies existed were block scans
+function getStoredBackfillStrategy(storedSession) {
+  return storedSession.params.backfillStrategy || 'block-scan';
+}
+
+function getStoredSessionResponse(storedSession) {
+  const { sessionId, status, error, progress, stats } = storedSession;
+
+  if (status === 'error') {
+    return { sessionId, status, error: error || 'Unknown error', blockNumber: storedSession.blockNumber, launch: storedSession.params.launch || null, stored: true };
+  }
+
+  const buyers = storage.getDetections(sessionId, { types: ['buy'], buyersOnly: true });
+  const targetTokens = getStoredTargets(storedSession).map(({ mint }) => mint);
+  const mints = getStoredMintResults(storedSession, buyers);
+  return {
+    sessionId,
+    status,
+    targetTokens,
+    tokens: getStoredTokens([...targetTokens, ...buyers.map(buyer => buyer.quoteToken)]),
+    progress,
+    buyers,
+    mints,
+    snipers: sniperAnalyzer.combine(mints),
+    stats,
+    backfillStrategy: getStoredBackfillStrategy(storedSession),
+    stopConditions: storedSession.params.stopConditions || null,
+    filters: storedSession.params.filters || null,
+    blockNumber: storedSession.blockNumber,
+    launch: storedSession.params.launch || null,
+    isComplete: status === 'complete' || Boolean(progress?.isComplete),
+    stored: true
+  };
+}
+
+// Current state of a live or stored session, as returned by GET /api/track/:sessionId and sent
+// as the first event of a stream; null when the session doesn't exist
+function getSessionSnapshot(sessionId) {
+  const session = activeSessions.get(sessionId);
+  
+  if (!session) {
+    // Finished sessions are served from storage
+    const storedSession = storage.getSession(sessionId);
+    if (!storedSession) {
+      return null;
+    }
+    return getStoredSessionResponse(storedSession);
+  }
+
+  const { service, status, error } = session;
+  
+  if (status === 'error') {
+    return {
+      sessionId,
+      status: 'error',
+      error: error || 'Unknown error',
+      blockNumber: session.blockNumber,
+      launch: session.launch
+    };
+  }
+
+  if (status === 'starting') {
+    // Even if status is starting, check if the service has found any buys
+    const progress = service.getProgress();
+    const buys = service.getDetectedBuys();
+    const mints = service.getMintResults();
+    
+    // If we have buys, update status to running
+    if (buys.length > 0) {
+      setSessionStatus(sessionId, session, 'running');
+      logger.info('Session status updated to running due to found buys', { sessionId, buyCount: buys.length });
+    }
+    
+    return {
+      sessionId,
+      status: buys.length > 0 ? 'running' : 'starting',
+      targetTokens: service.getTargetTokens(),
+      tokens: service.getTokens(),
+      progress,
+      buyers: buys,
+      mints,
+      snipers: service.sniperAnalyzer.combine(mints),
+      backfillStrategy: service.backfill.strategy,
+      stopConditions: service.stopConditions,
+      filters: service.filters.spec,
+      blockNumber: session.blockNumber,
+      launch: session.launch,
+      isComplete: progress.isComplete
+    };
+  }
+
+  // Get current progress and results
+  const progress = service.getProgress();
+  const buys = service.getDetectedBuys();
+  const stats = service.getStats();
+  const mints = service.getMintResults();
+  
+  // Check if tracking is complete
+  const isComplete = progress.isComplete || service.isTrackingComplete();
+  
+  // If complete, update session status
+  if (isComplete && status !== 'complete') {
+    setSessionStatus(sessionId, session, 'complete');
+    logger.info('Session marked as complete', { sessionId, buyCount: buys.length });
+  }
+
+  return {
+    sessionId,
+    status: isComplete ? 'complete' : status,
+    targetTokens: service.getTargetTokens(),
+    tokens: service.getTokens(),
+    progress,
+    buyers: buys,
+    mints,
+    snipers: service.sniperAnalyzer.combine(mints),
+    stats,
+    backfillStrategy: service.backfill.strategy,
+    stopConditions: service.stopConditions,
+    filters: service.filters.spec,
+    blockNumber: session.blockNumber,
+    launch: session.launch,
+    isComplete: isComplete
+  };
+}
+
 // Health check endpoint
 app.get('/api/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-// Start token tracking
-app.post('/api/track', async (req, res) => {
+// RPC endpoint pool state: health, latency, error rate, slot lag and quarantines per endpoint
+app.get('/api/diagnostics/rpc', (req, res) => {
+  try {
+    res.json(endpointPool.getState());
+  } catch (error) {
+    logger.error('Error in /api/diagnostics/rpc', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Shared block stream: cache, fetches saved by sharing, and what each session is reading
+app.get('/api/diagnostics/ingestion', (req, res) => {
   try {
-    const { tokenAddress, blockNumber } = req.body;
+    res.json(blockIngestion.getStats());
+  } catch (error) {
+    logger.error('Error in /api/diagnostics/ingestion', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Start token tracking. `tokenAddresses` tracks several mints in one session, each given as an
+// address or as `{ mint, maxBuys }` to cap that mint's buys; `tokenAddress` tracks a single mint.
+// `stopConditions` decide when each mint is complete, e.g. `{ mode: 'any', buys: 500, durationSeconds: 3600 }`;
+// `filters` drop detections by size, DEX or wallet, e.g. `{ minQuoteAmount: 0.05, excludeProgramAccounts: true }`.
+// Without a `blockNumber` the launches of the mints are discovered while the session starts, and the
+// scan starts at the earliest; they arrive in `status` events and snapshots.
+app.post('/api/track', (req, res) => {
+  try {
+    const {
+      tokenAddress,
+      tokenAddresses,
+      blockNumber,
+      backfillStrategy = config.backfill.defaultStrategy,
+      poolAddresses = []
+    } = req.body;
     
-    if (!tokenAddress) {
+    if (!tokenAddress && !tokenAddresses) {
       return res.status(400).json({ error: 'Token address is required' });
     }
 
-    const sessionId = Date.now().toString();
-    
-    // Create new tracking service instance
-    const service = new TokenTrackingService();
-    
-    // Store session
-    activeSessions.set(sessionId, {
-      service,
-      startTime: Date.now(),
-      tokenAddress,
-      blockNumber: blockNumber || null,
-      status: 'starting'
-    });
+    const targets = normalizeTrackedMints(tokenAddresses || tokenAddress);
+    if (!targets) {
+      return res.status(400).json({ error: 'tokenAddresses must be mint addresses or { mint, maxBuys } entries with a positive integer maxBuys' });
+    }
+    const targetTokens = targets.map(({ mint }) => mint);
 
-    // Start tracking in background
-    service.start(tokenAddress, blockNumber).then(success => {
-      const session = activeSessions.get(sessionId);
-      if (session) {
-        session.status = success ? 'running' : 'error';
-        if (!success) {
-          session.error = 'Failed to start tracking service';
-        }
-      }
-    }).catch(error => {
-      const session = activeSessions.get(sessionId);
-      if (session) {
-        session.status = 'error';
-        session.error = error.message;
-      }
-      logger.error('Error starting tracking service', { sessionId, error: error.message });
-    });
+    if (!BACKFILL_STRATEGIES.includes(backfillStrategy)) {
+      return res.status(400).json({ error: `backfillStrategy must be one of: ${BACKFILL_STRATEGIES.join(', ')}` });
+    }
+
+    if (!Array.isArray(poolAddresses) || !poolAddresses.every(isValidTokenMint)) {
+      return res.status(400).json({ error: 'poolAddresses must be a list of addresses' });
+    }
 
-    // Update status to running immediately after service initialization
-    // The service.start() promise won't resolve until the service stops, so we need to update status here
-    setTimeout(() => {
-      const session = activeSessions.get(sessionId);
-      if (session && session.status === 'starting') {
-        session.status = 'running';
-        logger.info('Session status updated to running', { sessionId });
+    if (blockNumber != null && !(Number.isSafeInteger(blockNumber) && blockNumber >= 0)) {
+      return res.status(400).json({ error: 'blockNumber must be a non-negative integer' });
+    }
+
+    let stopConditions;
+    try {
+      stopConditions = normalizeStopConditions(req.body.stopConditions || {});
+    } catch (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    let filters;
+    try {
+      filters = normalizeDetectionFilters(req.body.filters || {});
+    } catch (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const startingBlock = blockNumber ?? null;
+    const sessionId = randomUUID();
+    const params = { tokenAddress: targetTokens[0], tokenAddresses: targets, blockNumber: startingBlock, launch: null, backfillStrategy, poolAddresses, stopConditions, filters };
+
+    storage.createSession({
+      sessionId,
+      tokenAddress: targetTokens[0],
+      blockNumber: startingBlock,
+      params
+    });
+    
+    launchSession(sessionId, targetTokens, startingBlock, async service => {
+      const fromBlock = startingBlock ?? await discoverSessionLaunch(sessionId, targetTokens, params);
+      if (fromBlock === null) {
+        return false;
       }
-    }, 1000); // Give the service 1 second to initialize
+      return service.start(targets, fromBlock, { backfillStrategy, poolAddresses, stopConditions, filters });
+    });
 
     res.json({ 
       sessionId,
       status: 'starting',
+      targetTokens,
+      blockNumber: startingBlock,
+      launch: null,
+      stopConditions,
+      filters,
+      backfillStrategy,
       message: 'Token tracking started'
     });
 
@@ -83,71 +513,172 @@ app.post('/api/track', async (req, res) => {
   }
 });
 
+// Resume a stopped or interrupted session from its last checkpoint
+app.post('/api/track/:sessionId/resume', (req, res) => {
+  try {
+    const { sessionId } = req.params;
+
+    if (activeSessions.has(sessionId)) {
+      return res.status(409).json({ error: 'Session is already running' });
+    }
+
+    const storedSession = storage.getSession(sessionId);
+    if (!storedSession) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    if (!storage.getCheckpoint(sessionId)) {
+      return res.status(409).json({ error: 'Session has no checkpoint to resume from' });
+    }
+
+    const checkpoint = storage.prepareResume(sessionId);
+    const targetTokens = getStoredTargets(storedSession).map(({ mint }) => mint);
+    launchSession(sessionId, targetTokens, storedSession.blockNumber, service => service.resume(checkpoint), storedSession.params.launch || null);
+
+    res.json({
+      sessionId,
+      status: 'starting',
+      resumedFromSlot: checkpoint.slot,
+      message: 'Token tracking resumed'
+    });
+
+  } catch (error) {
+    logger.error('Error in /api/track/:sessionId/resume', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Get tracking progress and results
 app.get('/api/track/:sessionId', (req, res) => {
+  try {
+    const snapshot = getSessionSnapshot(req.params.sessionId);
+    
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json(snapshot);
+
+  } catch (error) {
+    logger.error('Error in /api/track/:sessionId', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Stream a session's events (server-sent events). The first event is a `snapshot` with the
+// same body as GET /api/track/:sessionId, followed by `status`, `detection`, `progress` and
+// `session_error` events. Reconnecting clients send Last-Event-ID (or ?lastEventId=) and get
+// the events they missed, or a fresh snapshot when those are no longer buffered.
+app.get('/api/track/:sessionId/events', (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const snapshot = getSessionSnapshot(sessionId);
+
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    res.write('retry: 3000\n\n');
+
+    const writeEvent = event => {
+      res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    };
+
+    // Stored and finished sessions don't change any more; send their state and let the client close
+    if (!activeSessions.has(sessionId) || activeSessions.get(sessionId).finished) {
+      writeEvent({ id: '', type: 'snapshot', data: snapshot });
+      return res.end();
+    }
+
+    const lastEventId = req.get('Last-Event-ID') || req.query.lastEventId || null;
+    const subscription = eventHub.subscribe(sessionId, lastEventId, writeEvent, () => res.end());
+
+    if (subscription.missed) {
+      subscription.missed.forEach(writeEvent);
+    } else {
+      writeEvent({ id: subscription.lastEventId, type: 'snapshot', data: snapshot });
+    }
+
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), config.events.heartbeatInterval);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      subscription.unsubscribe();
+    });
+
+  } catch (error) {
+    logger.error('Error in /api/track/:sessionId/events', { error: error.message });
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// Get early buyers' positions with realized and unrealized PnL, grouped by mint
+app.get('/api/track/:sessionId/positions', (req, res) => {
   try {
     const { sessionId } = req.params;
     const session = activeSessions.get(sessionId);
+    const storedSession = session ? null : storage.getSession(sessionId);
     
-    if (!session) {
+    if (!session && !storedSession) {
       return res.status(404).json({ error: 'Session not found' });
     }
 
-    const { service, status, error } = session;
-    
-    if (status === 'error') {
-      return res.json({
-        sessionId,
-        status: 'error',
-        error: error || 'Unknown error'
-      });
-    }
-
-    if (status === 'starting') {
-      // Even if status is starting, check if the service has found any buys
-      const progress = service.buyTracker.getProgress();
-      const buys = service.buyTracker.getDetectedBuys();
-      
-      // If we have buys, update status to running
-      if (buys.length > 0) {
-        session.status = 'running';
-        logger.info('Session status updated to running due to found buys', { sessionId, buyCount: buys.length });
-      }
-      
-      return res.json({
-        sessionId,
-        status: buys.length > 0 ? 'running' : 'starting',
-        progress,
-        buyers: buys,
-        isComplete: progress.isComplete
-      });
-    }
-
-    // Get current progress and results
-    const progress = service.buyTracker.getProgress();
-    const buys = service.buyTracker.getDetectedBuys();
-    const stats = service.getStats();
-    
-    // Check if tracking is complete
-    const isComplete = progress.isComplete || service.buyTracker.isTrackingComplete();
-    
-    // If complete, update session status
-    if (isComplete && status !== 'complete') {
-      session.status = 'complete';
-      logger.info('Session marked as complete', { sessionId, buyCount: buys.length });
+    let targetTokens;
+    let getLedger;
+    if (session) {
+      targetTokens = session.service.getTargetTokens();
+      getLedger = mint => session.service.getPositionLedger(mint);
+    } else {
+      targetTokens = getStoredTargets(storedSession).map(({ mint }) => mint);
+      const ledgers = loadPositionLedgers(sessionId, targetTokens);
+      getLedger = mint => ledgers.get(mint);
     }
 
     res.json({
       sessionId,
-      status: isComplete ? 'complete' : 'running',
-      progress,
-      buyers: buys,
-      stats,
-      isComplete: isComplete
+      mints: targetTokens.map(mint => {
+        const ledger = getLedger(mint);
+        return { mint, summary: ledger.getSummary(), positions: ledger.getPositions() };
+      })
     });
 
   } catch (error) {
-    logger.error('Error in /api/track/:sessionId', { error: error.message });
+    logger.error('Error in /api/track/:sessionId/positions', { error: error.message });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get buyer wallets grouped by shared funding sources. Tracing runs in the background: the
+// response has the clusters found so far, and `status` stays 'tracing' until every buyer is traced.
+app.get('/api/track/:sessionId/clusters', (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const session = activeSessions.get(sessionId);
+    const storedSession = session ? null : storage.getSession(sessionId);
+
+    if (!session && !storedSession) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    let buyers;
+    let supplies;
+    if (session) {
+      buyers = session.service.getDetectedBuys();
+      supplies = Object.fromEntries(session.service.getMintResults().map(({ mint, supply }) => [mint, supply]));
+    } else {
+      buyers = storage.getDetections(sessionId, { types: ['buy'], buyersOnly: true });
+      supplies = Object.fromEntries(getStoredMintResults(storedSession, buyers).map(({ mint, supply }) => [mint, supply]));
+    }
+
+    res.json({ sessionId, ...fundingClusters.getClusters(buyers, supplies) });
+
+  } catch (error) {
+    logger.error('Error in /api/track/:sessionId/clusters', { error: error.message });
     res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -162,15 +693,12 @@ app.delete('/api/track/:sessionId', (req, res) => {
       return res.status(404).json({ error: 'Session not found' });
     }
 
-    // Stop the service
-    session.service.stop();
-    
-    // Remove session
-    activeSessions.delete(sessionId);
+    // Stop the service; its results stay available from storage
+    const status = stopSession(sessionId, session);
     
     res.json({ 
       sessionId,
-      status: 'stopped',
+      status,
       message: 'Tracking stopped'
     });
 
@@ -180,17 +708,26 @@ app.delete('/api/track/:sessionId', (req, res) => {
   }
 });
 
-// Get all active sessions
+// Get active and stored sessions
 app.get('/api/sessions', (req, res) => {
   try {
-    const sessions = Array.from(activeSessions.entries()).map(([sessionId, session]) => ({
-      sessionId,
-      tokenAddress: session.tokenAddress,
-      blockNumber: session.blockNumber,
-      status: session.status,
-      startTime: session.startTime,
-      runtime: Date.now() - session.startTime
-    }));
+    const limit = parseInt(req.query.limit) || 100;
+    const sessions = storage.listSessions(limit).map(storedSession => {
+      const session = activeSessions.get(storedSession.sessionId);
+      return {
+        sessionId: storedSession.sessionId,
+        tokenAddress: storedSession.tokenAddress,
+        tokenAddresses: getStoredTargets(storedSession).map(({ mint }) => mint),
+        tokens: getStoredTokens(getStoredTargets(storedSession).map(({ mint }) => mint)),
+        blockNumber: storedSession.blockNumber,
+        status: session ? session.status : storedSession.status,
+        backfillStrategy: getStoredBackfillStrategy(storedSession),
+        isActive: Boolean(session),
+        startTime: storedSession.createdAt,
+        runtime: (storedSession.stoppedAt || Date.now()) - storedSession.createdAt,
+        progress: session ? session.service.getProgress() : storedSession.progress
+      };
+    });
 
     res.json({ sessions });
 
@@ -200,29 +737,60 @@ app.get('/api/sessions', (req, res) => {
   }
 });
 
-// Cleanup old sessions periodically
+// Evict old sessions whose scan has ended; their state is already in storage. A complete session
+// may still be following positions, and errored services can be left marked as running.
 setInterval(() => {
   const now = Date.now();
   const maxAge = 30 * 60 * 1000; // 30 minutes
   
   for (const [sessionId, session] of activeSessions.entries()) {
-    if (now - session.startTime > maxAge) {
+    const hasEnded = ENDED_STATUSES.includes(session.status) &&
+      (session.status === 'error' || !session.service.isRunning);
+    if (hasEnded && now - session.startTime > maxAge) {
       logger.info('Cleaning up old session', { sessionId, age: now - session.startTime });
-      session.service.stop();
-      activeSessions.delete(sessionId);
+      stopSession(sessionId, session);
     }
   }
 }, 5 * 60 * 1000); // Check every 5 minutes
 
+// Push progress of running sessions to event streams when it changes
+setInterval(() => {
+  for (const [sessionId, session] of activeSessions.entries()) {
+    const progress = session.service.getProgress();
+    const serialized = JSON.stringify(progress);
+    if (serialized !== session.lastPublishedProgress) {
+      session.lastPublishedProgress = serialized;
+      eventHub.publish(sessionId, 'progress', progress);
+      eventHub.publish(sessionId, 'snipers', getSniperUpdate(session.service));
+    }
+
+    // Streaming clients don't poll GET /api/track/:sessionId, which used to flip this
+    if (progress.isComplete && session.status === 'running') {
+      setSessionStatus(sessionId, session, 'complete');
+    }
+  }
+}, config.events.progressInterval);
+
+// Persist progress of running sessions periodically so a crash loses little
+setInterval(() => {
+  for (const [sessionId, session] of activeSessions.entries()) {
+    try {
+      persistSessionProgress(sessionId, session);
+    } catch (error) {
+      logger.error('Failed to persist session progress', { sessionId, error: error.message });
+    }
+  }
+}, config.storage.progressPersistInterval);
+
 // Graceful shutdown
 process.on('SIGINT', () => {
   logger.info('Shutting down server...');
   
   // Stop all active sessions
   for (const [sessionId, session] of activeSessions.entries()) {
-    session.service.stop();
+    stopSession(sessionId, session);
   }
-  activeSessions.clear();
+  storage.close();
   
   process.exit(0);
 });
@@ -233,8 +801,13 @@ app.listen(PORT, () => {
   logger.info('Available endpoints:');
   logger.info('  POST /api/track - Start token tracking');
   logger.info('  GET /api/track/:sessionId - Get tracking progress');
-  logger.info('  DELETE /api/track/:sessionId - Stop tracking');
-  logger.info('  GET /api/sessions - List active sessions');
+  logger.info('  GET /api/track/:sessionId/positions - Get early buyer positions per mint');
+  logger.info('  POST /api/track/:sessionId/resume - Resume a stopped session from its checkpoint');
+  logger.info('  GET /api/track/:sessionId/events - Stream session events (server-sent events)');
+  logger.info('  DELETE /api/track/:sessionId - Stop tracking (results stay in storage)');
+  logger.info('  GET /api/sessions - List active and stored sessions');
+  logger.info('  GET /api/diagnostics/rpc - RPC endpoint pool health');
+  logger.info('  GET /api/diagnostics/ingestion - Shared block stream and cache');
   logger.info('  GET /api/health - Health check');
 });
 
@@ -1,25 +1,53 @@
 import dotenv from 'dotenv';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
 
 dotenv.config();
 
+const rpcUrl = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
+
+// RPC endpoints come from RPC_ENDPOINTS_FILE (a JSON file) or SOLANA_RPC_ENDPOINTS (JSON, or a
+// comma-separated list of URLs). JSON entries are URLs or objects such as
+// { "url": "...", "name": "helius", "weight": 2, "maxRequestsPerSecond": 10, "requestDelay": 100,
+//   "headers": { "Authorization": "Bearer ..." } }. Without either, SOLANA_RPC_URL is the only endpoint.
+function loadRpcEndpoints() {
+  const source = process.env.RPC_ENDPOINTS_FILE
+    ? fs.readFileSync(process.env.RPC_ENDPOINTS_FILE, 'utf8')
+    : process.env.SOLANA_RPC_ENDPOINTS;
+
+  if (!source || !source.trim()) {
+    return [{ url: rpcUrl }];
+  }
+
+  const trimmed = source.trim();
+  const entries = trimmed.startsWith('[')
+    ? JSON.parse(trimmed)
+    : trimmed.split(',').map(url => url.trim()).filter(Boolean);
+  return entries.map(entry => typeof entry === 'string' ? { url: entry } : entry);
+}
+
 export const config = {
   solana: {
-    rpcUrl: process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
+    rpcUrl,
+    endpoints: loadRpcEndpoints(),
     commitment: 'confirmed',
     slotPollInterval: parseInt(process.env.SLOT_POLL_INTERVAL) || 5000, // Increased to 5 seconds
     maxRetries: parseInt(process.env.MAX_RETRIES) || 5,
     retryDelay: parseInt(process.env.RETRY_DELAY) || 1000,
-    // Much more conservative rate limiting settings
+    maxFetchRounds: parseInt(process.env.MAX_FETCH_ROUNDS) || 3, // Rounds of maxRetries attempts before a slot fails the scan
+    // Much more conservative rate limiting settings (defaults for endpoints that don't set their own)
     maxRequestsPerSecond: parseInt(process.env.MAX_REQUESTS_PER_SECOND) || 3, // Reduced from 10 to 3
     requestDelay: parseInt(process.env.REQUEST_DELAY) || 500, // Increased from 100ms to 500ms
     rateLimitBackoffMultiplier: parseFloat(process.env.RATE_LIMIT_BACKOFF_MULTIPLIER) || 3.0, // Increased from 2.0 to 3.0
     maxRateLimitDelay: parseInt(process.env.MAX_RATE_LIMIT_DELAY) || 60000, // Increased to 60 seconds max
     // Additional conservative settings
-    maxSlotsPerBatch: parseInt(process.env.MAX_SLOTS_PER_BATCH) || 2, // Process max 2 slots at once
-    slotProcessingDelay: parseInt(process.env.SLOT_PROCESSING_DELAY) || 1000, // 1 second between slots
+    maxSlotsPerBatch: parseInt(process.env.MAX_SLOTS_PER_BATCH) || 2, // Process max 2 slots per poll
+    // Concurrent block fetching; the request budget above still applies to every getBlock call
+    fetchConcurrency: parseInt(process.env.FETCH_CONCURRENCY) || 2, // getBlock requests in flight at start
+    minFetchConcurrency: parseInt(process.env.MIN_FETCH_CONCURRENCY) || 1, // Floor after repeated 429s
+    maxFetchConcurrency: parseInt(process.env.MAX_FETCH_CONCURRENCY) || 8, // Ceiling while requests succeed
     // Historical scanning settings
-    historicalBatchSize: parseInt(process.env.HISTORICAL_BATCH_SIZE) || 10, // Process 10 historical blocks at once
-    historicalBatchDelay: parseInt(process.env.HISTORICAL_BATCH_DELAY) || 2000, // 2 seconds between historical batches
+    historicalBatchSize: parseInt(process.env.HISTORICAL_BATCH_SIZE) || 10, // Log historical progress every 10 blocks
   },
   
   logging: {
@@ -27,113 +55,85 @@ export const config = {
     enablePerformanceLogs: process.env.ENABLE_PERFORMANCE_LOGS === 'true',
   },
   
-  // Known DEX program IDs
-  dexPrograms: {
-    jupiter: {
-      programId: 'JUP4Fb2cqiRUcaTHdrPC8h2gNsA2ETXiPDD33WcGuJB',
-      name: 'Jupiter',
-      discriminators: {
-        'shared_route': [0x8b, 0x8f, 0x1f, 0x8c, 0x1c, 0x1a, 0x6a, 0x4a],
-        'route': [0x8b, 0x8f, 0x1f, 0x8c, 0x1c, 0x1a, 0x6a, 0x4a],
-      }
-    },
-    orca: {
-      programId: '9W959DqEETiGZocYWCQPaJ6sBmUzgfxXfqGeTEdp3aQP',
-      name: 'Orca',
-      discriminators: {
-        'swap': [0xf8, 0xc6, 0x9e, 0x91, 0xe1, 0x75, 0x87, 0xc8],
-      }
-    },
-    raydium: {
-      programId: '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8',
-      name: 'Raydium',
-      discriminators: {
-        'swap': [0x09, 0x0a, 0x90, 0x1d, 0x0c, 0x0a, 0x0b, 0x0c],
-      }
-    },
-    lifinity: {
-      programId: '2wT8Yq49kHgDzXuPxZSaeLaH1qbmGXtEyPy64bL7aD3c',
-      name: 'Lifinity',
-      discriminators: {
-        'swap': [0x2e, 0x6b, 0x41, 0x5a, 0x9f, 0x8b, 0x7c, 0x3d],
-      }
-    },
-    serum: {
-      programId: '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin',
-      name: 'Serum',
-      discriminators: {
-        'new_order': [0x10, 0x2c, 0x0b, 0x6e, 0x3f, 0x54, 0x8a, 0x9c],
-      }
-    },
-    openbook: {
-      programId: 'srmqPvymJeFKQ4zGQed1GFppgkRHL9kaELCbyksJtPX',
-      name: 'OpenBook',
-      discriminators: {
-        'new_order': [0x10, 0x2c, 0x0b, 0x6e, 0x3f, 0x54, 0x8a, 0x9c],
-      }
-    },
-    phoenix: {
-      programId: 'PhoeNiXZ8ByJGLkxNfZRnkUfjvmuYqLR89jjFHGqdXY',
-      name: 'Phoenix',
-      discriminators: {
-        'swap': [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00],
-      }
-    },
-    step: {
-      programId: 'SSwpMgqNDsyV7mAgN9ady4bDVu5ySjmmXejXvy2vLt1',
-      name: 'Step',
-      discriminators: {
-        'swap': [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00],
-      }
-    },
-    cykura: {
-      programId: 'cysPXAjehMpVKUapzbMCCnpFxUFFryEWEaLgnb9NrR8',
-      name: 'Cykura',
-      discriminators: {
-        'swap': [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00],
-      }
-    },
-    goosefx: {
-      programId: '7WduLbRfYhTJktjLw5FDEyrqoEv61aTTCuGAetgLjzN5',
-      name: 'GooseFX',
-      discriminators: {
-        'swap': [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00],
-      }
-    },
-    cropper: {
-      programId: 'CROPiAqv5Qn1eZ4w6K6Qw6Qw6Qw6Qw6Qw6Qw6Qw6', // Placeholder, please verify
-      name: 'Cropper',
-      discriminators: {
-        'swap': [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00],
-      }
-    },
-    crema: {
-      programId: '6MLxLqiXaaSUpkgMnWDTuejNZEz3kE7k2woyHGVFw319',
-      name: 'Crema',
-      discriminators: {
-        'swap': [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00],
-      }
-    },
-    aldrin: {
-      programId: 'AMM55ShdkoGRB5jVYPjWziwk8m5MpwyDgsMWHaMSQWH6',
-      name: 'Aldrin',
-      discriminators: {
-        'swap': [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00],
-      }
-    },
-    pumpswap: {
-      programId: 'pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA', // Placeholder, please verify
-      name: 'Pumpswap',
-      discriminators: {
-        'swap': [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00],
-      }
-    },
-    meteora: {
-      programId: 'Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB',
-      name: 'Meteora',
-      discriminators: {
-        'swap': [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00],
-      }
-    },
-  }
-};
\ No newline at end of file
+  positions: {
+    // Opt in to keep processing blocks after the buyer cap is reached, so early buyers' positions stay current
+    followAfterComplete: process.env.FOLLOW_POSITIONS_AFTER_COMPLETE === 'true',
+  },
+
+  decoder: {
+    // Directory of Anchor IDL JSON files; every file registers one program with the decoder
+    idlDirectory: process.env.IDL_DIRECTORY || fileURLToPath(new URL('../idl', import.meta.url)),
+  },
+
+  backfill: {
+    // 'block-scan' downloads every block from the starting block; 'signature-index' fetches only
+    // transactions listed by getSignaturesForAddress for the mint (and any pool addresses)
+    defaultStrategy: process.env.BACKFILL_STRATEGY || 'block-scan',
+  },
+
+  pricing: {
+    // USD prices come from stablecoin swaps in the blocks a session reads (see PricingService)
+    windowSlots: parseInt(process.env.PRICING_WINDOW_SLOTS) || 50, // Samples up to 50 slots (~20s) away price a detection
+    minSampleUsd: parseFloat(process.env.PRICING_MIN_SAMPLE_USD) || 5, // Ignore stablecoin swaps smaller than $5
+    // Quote tokens priced besides SOL, e.g. liquid staking tokens
+    quoteMints: (process.env.PRICING_QUOTE_MINTS || '').split(',').map(mint => mint.trim()).filter(Boolean),
+  },
+
+  snipers: {
+    // Buys flagged as sniping or bundling (see SniperAnalyzer)
+    launchWindowSlots: parseInt(process.env.SNIPER_LAUNCH_WINDOW_SLOTS) || 1, // The launch slot and the one after it
+    sameSlotMinWallets: parseInt(process.env.SNIPER_SAME_SLOT_MIN_WALLETS) || 3,
+    layoutMinWallets: parseInt(process.env.SNIPER_LAYOUT_MIN_WALLETS) || 3,
+    layoutWindowSlots: parseInt(process.env.SNIPER_LAYOUT_WINDOW_SLOTS) || 5,
+  },
+
+  funding: {
+    // Funding-source clustering of buyer wallets (see FundingClusterService)
+    maxHops: parseInt(process.env.FUNDING_MAX_HOPS) || 2, // Funders of funders
+    transactionsPerWallet: parseInt(process.env.FUNDING_TRANSACTIONS_PER_WALLET) || 10, // Searched before a wallet's first buy
+    hubThreshold: parseInt(process.env.FUNDING_HUB_THRESHOLD) || 1000, // Funders this busy are exchanges or bridges
+    ignoredFunders: (process.env.FUNDING_IGNORED_FUNDERS || '').split(',').map(address => address.trim()).filter(Boolean),
+  },
+
+  discovery: {
+    // Launch slot discovery for sessions started without a block (see LaunchDiscoveryService)
+    maxSignaturePages: parseInt(process.env.DISCOVERY_MAX_SIGNATURE_PAGES) || 100, // 1000 signatures each
+    poolScanTransactions: parseInt(process.env.DISCOVERY_POOL_SCAN_TRANSACTIONS) || 100, // Oldest transactions searched for the first liquidity deposit
+  },
+
+  metadata: {
+    retryInterval: parseInt(process.env.METADATA_RETRY_INTERVAL) || 300000, // Retry failed token metadata lookups after 5 minutes
+  },
+
+  rpcPool: {
+    healthCheckInterval: parseInt(process.env.RPC_HEALTH_CHECK_INTERVAL) || 30000, // Probe idle endpoints every 30 seconds
+    failureThreshold: parseInt(process.env.RPC_FAILURE_THRESHOLD) || 3, // Consecutive failures before quarantine
+    quarantineDuration: parseInt(process.env.RPC_QUARANTINE_DURATION) || 30000, // First quarantine, doubled on every failed probe
+    maxQuarantineDuration: parseInt(process.env.RPC_MAX_QUARANTINE_DURATION) || 300000, // Longest quarantine, 5 minutes
+  },
+
+  ingestion: {
+    // Backend only: one shared block stream for all sessions (see BlockIngestionService)
+    blockCacheSize: parseInt(process.env.BLOCK_CACHE_SIZE) || 100, // Recent blocks kept in memory for other sessions
+    batchSlots: parseInt(process.env.INGESTION_BATCH_SLOTS) || 50, // Slots a session reads per batch while catching up
+  },
+
+  rpcTransport: {
+    // 'live' uses the RPC endpoint, 'record' also saves every getSlot/getBlock/getTransaction
+    // response to fixtureDirectory, 'replay' serves those fixtures without any network access
+    mode: process.env.RPC_TRANSPORT || 'live',
+    fixtureDirectory: process.env.RPC_FIXTURE_DIR || 'fixtures/rpc',
+  },
+
+  events: {
+    bufferSize: parseInt(process.env.EVENT_BUFFER_SIZE) || 500, // Events kept per session for reconnecting clients
+    progressInterval: parseInt(process.env.EVENT_PROGRESS_INTERVAL) || 2000, // Push progress at most every 2 seconds
+    heartbeatInterval: parseInt(process.env.EVENT_HEARTBEAT_INTERVAL) || 15000, // Keep idle streams open through proxies
+  },
+
+  storage: {
+    databasePath: process.env.DATABASE_PATH || 'data/solkol.db', // SQLite file for sessions and detections
+    progressPersistInterval: parseInt(process.env.PROGRESS_PERSIST_INTERVAL) || 15000, // Save session progress every 15 seconds
+    checkpointInterval: parseInt(process.env.CHECKPOINT_INTERVAL_SLOTS) || 25, // Checkpoint the scan every 25 slots
+  },
+};
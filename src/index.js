@@ -1,7 +1,38 @@
 import { TokenTrackingService } from './services/tokenTrackingService.js';
+import { StorageService } from './services/storageService.js';
 import { Logger } from './services/logger.js';
 import { config } from './config/index.js';
+import { normalizeTrackedMints } from './utils/validation.js';
+import { normalizeStopConditions } from './services/stopConditions.js';
+import { normalizeDetectionFilters } from './services/detectionFilters.js';
 import readline from 'readline';
+import { parseArgs } from 'util';
+
+const { values: args } = parseArgs({
+  options: {
+    resume: { type: 'string' },
+    strategy: { type: 'string', default: config.backfill.defaultStrategy },
+    pool: { type: 'string', multiple: true, default: [] },
+    // Stop conditions
+    'stop-mode': { type: 'string' },
+    buys: { type: 'string' },
+    'unique-buyers': { type: 'string' },
+    'end-slot': { type: 'string' },
+    'end-time': { type: 'string' },
+    'quote-volume': { type: 'string' },
+    duration: { type: 'string' },
+    // Detection filters
+    'min-quote': { type: 'string' },
+    'max-quote': { type: 'string' },
+    'quote-mint': { type: 'string' },
+    dex: { type: 'string', multiple: true, default: [] },
+    'exclude-wallet': { type: 'string', multiple: true, default: [] },
+    'exclude-wallets-file': { type: 'string' },
+    'exclude-program-accounts': { type: 'boolean', default: false },
+    'log-filtered': { type: 'boolean', default: false },
+    help: { type: 'boolean', short: 'h' },
+  },
+});
 
 // Create readline interface for user input
 const rl = readline.createInterface({
@@ -9,10 +40,11 @@ const rl = readline.createInterface({
   output: process.stdout
 });
 
-function promptForToken() {
+// Several mints can be tracked in one session, separated by commas
+function promptForTokens() {
   return new Promise((resolve) => {
-    rl.question('Enter the token mint address to track: ', (answer) => {
-      resolve(answer.trim());
+    rl.question('Enter the token mint address(es) to track, separated by commas: ', (answer) => {
+      resolve(answer.split(',').map(mint => mint.trim()).filter(Boolean));
     });
   });
 }
@@ -35,42 +67,158 @@ function promptForBlockNumber() {
   });
 }
 
+// A clean shutdown leaves the stored session resumable; failures record their own error status
+function markStoppedOnExit(storage, sessionId, service) {
+  process.on('exit', code => {
+    if (code === 0) {
+      const status = service.isTrackingComplete() ? 'complete' : 'stopped';
+      storage.updateSession(sessionId, { status, stoppedAt: Date.now() });
+    }
+  });
+}
+
+async function resumeSession(storage, sessionId, logger) {
+  let checkpoint;
+  try {
+    checkpoint = storage.prepareResume(sessionId);
+  } catch (error) {
+    logger.error('Cannot resume session', { sessionId, error: error.message });
+    process.exit(1);
+  }
+
+  const service = new TokenTrackingService(storage.createSessionHooks(sessionId));
+  service.setupGracefulShutdown();
+  markStoppedOnExit(storage, sessionId, service);
+  storage.updateSession(sessionId, { status: 'running' });
+
+  logger.info('✅ Resuming session from checkpoint', {
+    sessionId,
+    targetTokens: checkpoint.targetTokens || [checkpoint.targetToken],
+    checkpointSlot: checkpoint.slot
+  });
+
+  return service.resume(checkpoint);
+}
+
 async function main() {
   const logger = new Logger(config.logging.level);
   
   logger.info('🚀 Solana Token Transaction Tracker Starting...', {
     rpc_url: config.solana.rpcUrl,
     poll_interval: config.solana.slotPollInterval,
-    tracking_approach: 'Any transaction with target token'
+    tracking_approach: 'Classified buys of target token'
   });
 
-  // Get token from user input
-  const targetToken = await promptForToken();
+  const storage = new StorageService();
+
+  if (args.resume) {
+    rl.close();
+    const resumed = await resumeSession(storage, args.resume, logger);
+    if (!resumed) {
+      storage.updateSession(args.resume, { status: 'error', error: 'Failed to resume tracking service' });
+      logger.error('Failed to resume service');
+      process.exit(1);
+    }
+    return;
+  }
+
+  // Get tokens from user input
+  const targetTokens = await promptForTokens();
   const startingBlock = await promptForBlockNumber();
   rl.close();
   
-  if (!targetToken) {
+  if (targetTokens.length === 0) {
     logger.error('No token provided');
     process.exit(1);
   }
 
-  const service = new TokenTrackingService();
+  const targets = normalizeTrackedMints(targetTokens);
+  if (!targets) {
+    logger.error('Invalid token mint address', { targetTokens });
+    process.exit(1);
+  }
+
+  let stopConditions;
+  try {
+    stopConditions = normalizeStopConditions({
+      mode: args['stop-mode'],
+      buys: args.buys,
+      uniqueBuyers: args['unique-buyers'],
+      endSlot: args['end-slot'],
+      endTime: args['end-time'],
+      quoteVolume: args['quote-volume'],
+      durationSeconds: args.duration
+    });
+  } catch (error) {
+    logger.error('Invalid stop conditions', { error: error.message });
+    process.exit(1);
+  }
+
+  let filters;
+  try {
+    filters = normalizeDetectionFilters({
+      minQuoteAmount: args['min-quote'],
+      maxQuoteAmount: args['max-quote'],
+      quoteMint: args['quote-mint'],
+      allowedDexes: args.dex,
+      excludedWallets: args['exclude-wallet'],
+      excludedWalletsFile: args['exclude-wallets-file'],
+      excludeProgramAccounts: args['exclude-program-accounts'],
+      logFiltered: args['log-filtered']
+    });
+  } catch (error) {
+    logger.error('Invalid detection filters', { error: error.message });
+    process.exit(1);
+  }
+
+  // CLI runs are stored like API sessions so they can be resumed with --resume
+  const sessionId = Date.now().toString();
+  storage.createSession({
+    sessionId,
+    tokenAddress: targets[0].mint,
+    blockNumber: startingBlock,
+    status: 'running',
+    params: {
+      tokenAddress: targets[0].mint,
+      tokenAddresses: targets,
+      blockNumber: startingBlock,
+      backfillStrategy: args.strategy,
+      poolAddresses: args.pool,
+      stopConditions,
+      filters,
+      source: 'cli'
+    }
+  });
+
+  const service = new TokenTrackingService(storage.createSessionHooks(sessionId));
   
   // Setup graceful shutdown
   service.setupGracefulShutdown();
+  markStoppedOnExit(storage, sessionId, service);
   
   try {
-    const started = await service.start(targetToken, startingBlock);
+    logger.info('✅ Starting service. Tracking transactions for token:', { 
+      sessionId,
+      targetTokens: targets.map(({ mint }) => mint),
+      startingBlock: startingBlock || 'current',
+      backfillStrategy: args.strategy,
+      stopConditions,
+      filters: { ...filters, excludedWallets: filters.excludedWallets.length },
+      resumeWith: `npm start -- --resume ${sessionId}`
+    });
+
+    const started = await service.start(targets, startingBlock, {
+      backfillStrategy: args.strategy,
+      poolAddresses: args.pool,
+      stopConditions,
+      filters
+    });
     if (!started) {
+      storage.updateSession(sessionId, { status: 'error', error: 'Failed to start tracking service' });
       logger.error('Failed to start service');
       process.exit(1);
     }
     
-    logger.info('✅ Service started successfully. Tracking transactions for token:', { 
-      targetToken, 
-      startingBlock: startingBlock || 'current' 
-    });
-    
     // Keep the process alive
     process.stdin.resume();
     
@@ -84,27 +232,61 @@ async function main() {
 }
 
 // Handle CLI arguments
-if (process.argv.includes('--help') || process.argv.includes('-h')) {
+if (args.help) {
   console.log(`
 Solana Token Buy Tracker
 
-Usage: npm start
+Usage: npm start [-- --strategy <block-scan|signature-index>] [--pool <address> ...] [stop conditions] [filters]
+       npm start -- --resume <sessionId>
+
+The service will prompt you to enter one or more token mint addresses
+(comma-separated) and then track the buy transactions of each token across
+all supported DEXes, by default until the first 1000 buys are found.
+Each run is stored as a session and checkpointed periodically; --resume
+continues a stopped or interrupted session from its last checkpoint.
+
+History from the starting block is backfilled by --strategy: block-scan
+downloads every block, signature-index fetches only the transactions that
+getSignaturesForAddress lists for each mint and each --pool address.
+
+Stop conditions (each mint stops on its own; default: --buys 1000):
+  --buys <n>             Number of buys
+  --unique-buyers <n>    Number of unique buyer wallets
+  --end-slot <slot>      Last slot to scan
+  --end-time <time>      Last block time, unix seconds or a date (e.g. 2025-07-15T12:00:00Z)
+  --quote-volume <n>     Cumulative buy volume in the quote token of the first buy
+  --duration <seconds>   Wall-clock tracking time
+  --stop-mode <any|all>  Stop when any condition is met (default) or only when all are
 
-The service will prompt you to enter a token mint address and then track
-the first 1000 buy transactions for that token across all supported DEXes.
+Filters (dropped transactions are counted, not recorded):
+  --min-quote <n>               Skip buys and sells paying less than n SOL (e.g. 0.05)
+  --max-quote <n>               Skip buys and sells paying more than n SOL
+  --quote-mint <address>        Measure --min-quote and --max-quote in this token instead of SOL
+  --dex <program|name>          Only count trades on this DEX program; repeat for several
+  --exclude-wallet <address>    Skip this wallet; repeat for several
+  --exclude-wallets-file <path> Skip the wallets listed in a file (JSON array or one per line)
+  --exclude-program-accounts    Skip traders that are program-derived accounts
+  --log-filtered                Log every skipped transaction with the reason
 
 Environment Variables:
   SOLANA_RPC_URL          Solana RPC endpoint (default: public mainnet)
+  SOLANA_RPC_ENDPOINTS    Endpoint pool: comma-separated URLs or JSON array (default: SOLANA_RPC_URL)
+  RPC_ENDPOINTS_FILE      JSON file with the endpoint pool
   SLOT_POLL_INTERVAL      Polling interval in ms (default: 400)
   LOG_LEVEL              Logging level: error, warn, info, debug (default: info)
   ENABLE_PERFORMANCE_LOGS Enable performance logging (default: true)
+  IDL_DIRECTORY          Directory of Anchor IDL files for the decoder (default: src/idl)
+  DATABASE_PATH          SQLite file for sessions and checkpoints (default: data/solkol.db)
+  CHECKPOINT_INTERVAL_SLOTS Slots between checkpoints (default: 25)
+  BACKFILL_STRATEGY      Default backfill strategy (default: block-scan)
+  RPC_TRANSPORT          live, record or replay RPC responses (default: live)
+  RPC_FIXTURE_DIR        Fixture directory for record and replay (default: fixtures/rpc)
+  FOLLOW_POSITIONS_AFTER_COMPLETE Keep following blocks for positions once the buyer list is complete (default: false)
 
-Supported DEXes:
-  - Jupiter Aggregator
-  - Orca
-  - Raydium  
-  - Lifinity
-  - Serum
+Supported DEXes (one IDL file each in src/idl, see IDL_DIRECTORY):
+  - Jupiter v6, Orca (Whirlpool and token swap), Raydium (AMM v4, CPMM and CLMM)
+  - Pump.fun bonding curves, PumpSwap, Lifinity, Meteora (AMM and DLMM), Aldrin, Step
+  - Cykura, Crema, GooseFX, Serum, OpenBook, Phoenix
 
 The service will output detected buys in JSON format to stdout.
 
@@ -1,4 +1,6 @@
 // Frontend API service for communicating with backend
+import { toDecimalString } from '../utils/decimal.js';
+
 const API_BASE_URL = 'http://localhost:3001/api';
 
 export class ApiService {
@@ -28,13 +30,21 @@ export class ApiService {
     return response.json();
   }
 
-  // Start token tracking
-  async startTracking(tokenAddress, blockNumber = null | Number) {
+  /**
+   * Start tracking one or more mints in a single session
+   * @param {Array<string|{mint: string, maxBuys?: number}>} tokenAddresses - Mints, optionally with their own buy cap
+   * @param {number|null} blockNumber - Starting block, or null to start at the discovered launch
+   * @param {string} backfillStrategy - 'block-scan' or 'signature-index'
+   * @param {Object|null} stopConditions - When each mint stops; null for the backend default
+   */
+  async startTracking(tokenAddresses, blockNumber = null, backfillStrategy = 'block-scan', stopConditions = null) {
     return this.makeRequest('/track', {
       method: 'POST',
       body: JSON.stringify({
-        tokenAddress,
-        blockNumber: blockNumber !== null ? parseInt(blockNumber) : null
+        tokenAddresses,
+        blockNumber: blockNumber !== null ? parseInt(blockNumber) : null,
+        backfillStrategy,
+        stopConditions
       })
     });
   }
@@ -44,6 +54,27 @@ export class ApiService {
     return this.makeRequest(`/track/${sessionId}`);
   }
 
+  // Get early buyers' positions and PnL, grouped by mint
+  async getPositions(sessionId) {
+    return this.makeRequest(`/track/${sessionId}/positions`);
+  }
+
+  // Get buyer wallets grouped by shared funding sources
+  async getClusters(sessionId) {
+    return this.makeRequest(`/track/${sessionId}/clusters`);
+  }
+
+  /**
+   * Open a server-sent event stream for a session
+   * @param {string} sessionId - The session id
+   * @param {string|null} lastEventId - Last event id seen, to resume after a dropped stream
+   * @returns {EventSource}
+   */
+  openSessionEvents(sessionId, lastEventId = null) {
+    const query = lastEventId ? `?lastEventId=${encodeURIComponent(lastEventId)}` : '';
+    return new EventSource(`${this.baseUrl}/track/${sessionId}/events${query}`);
+  }
+
   // Stop tracking session
   async stopTracking(sessionId) {
     return this.makeRequest(`/track/${sessionId}`, {
@@ -51,7 +82,7 @@ export class ApiService {
     });
   }
 
-  // Get all active sessions
+  // Get active and stored sessions
   async getActiveSessions() {
     return this.makeRequest('/sessions');
   }
@@ -61,12 +92,13 @@ export class ApiService {
     return this.makeRequest('/health');
   }
 
-  // Convert backend buy data to frontend format
+  // Convert backend buy data to frontend format. Amounts stay exact: raw amounts and prices are
+  // passed through as strings, `tokenAmount` and `solAmount` are decimal strings in whole tokens.
   convertBuyData(buy) {
     return {
       address: buy.buyer || 'unknown',
-      tokenAmount: parseFloat(buy.amountBought || '0'),
-      solAmount: parseFloat(buy.amountSold || '0'),
+      tokenAmount: toDecimalString(buy.amountBought || '0', buy.decimalsTarget || 0),
+      solAmount: toDecimalString(buy.amountSold || '0', buy.decimalsSold || 0),
       signature: buy.txHash || '',
       timestamp: buy.timestamp * 1000, // Convert to milliseconds
       dex: buy.dex,
@@ -81,8 +113,29 @@ export class ApiService {
       slot: buy.slot,
       buyNumber: buy.buyNumber,
       buyer: buy.buyer,
+      feePayer: buy.feePayer,
       pricePerToken: buy.pricePerToken,
       confidence: buy.confidence,
+      type: buy.type,
+      quoteToken: buy.quoteToken,
+      marketCapAtEntry: buy.marketCapAtEntry ?? null,
+      supplyPercentage: buy.supplyPercentage ?? null,
+      tokenProgram: buy.tokenProgram ?? null,
+      targetTransferFee: buy.targetTransferFee ?? '0',
+      quoteTransferFee: buy.quoteTransferFee ?? '0',
+      riskFlags: buy.riskFlags ?? [],
+      jitoTip: buy.jitoTip ?? '0',
+      sniperLabels: buy.sniperLabels ?? [],
+      bondingCurve: buy.bondingCurve ?? null,
+      poolAddress: buy.poolAddress ?? null,
+      poolDex: buy.poolDex ?? null,
+      poolInputMint: buy.poolInputMint ?? null,
+      poolOutputMint: buy.poolOutputMint ?? null,
+      quoteValueUsd: buy.quoteValueUsd ?? null,
+      priceUsd: buy.priceUsd ?? null,
+      marketCapUsd: buy.marketCapUsd ?? null,
+      quotePriceUsd: buy.quotePriceUsd ?? null,
+      priceSource: buy.priceSource ?? null,
     };
   }
 } 
\ No newline at end of file
@@ -0,0 +1,194 @@
+import { config } from '../config/index.js';
+import { Logger } from './logger.js';
+import { OrderedFetchPipeline, FetchError } from './fetchPipeline.js';
+import { SolanaRPCService } from './rpcService.js';
+
+/**
+ * One block stream shared by every tracking session in the process. Sessions request slots and
+ * a single fetch loop works through the union of the requested slots, so the getBlock requests
+ * in flight stay within one pipeline's concurrency however many sessions are reading. Each slot
+ * is fetched once: sessions asking for a slot that is already requested wait on the same request,
+ * and recent blocks are cached so a session scanning the same range a little later reads them
+ * from memory. Blocks still ahead of a session that is reading a range are kept until it gets
+ * there, so overlapping historical scans share their fetches too.
+ */
+export class BlockIngestionService {
+  constructor(options = {}) {
+    this.logger = new Logger(config.logging.level);
+    this.rpcService = new SolanaRPCService({ endpointPool: options.endpointPool, transport: options.transport });
+    // One pipeline for all readers, so its concurrency reacts to the rate limits they share
+    this.fetchPipeline = new OrderedFetchPipeline();
+    this.cacheSize = options.cacheSize || config.ingestion.blockCacheSize;
+
+    this.cache = new Map();
+    this.requested = new Map();
+    this.fetchLoop = null;
+    this.readers = new Set();
+    this.latestSlot = null;
+    this.latestSlotFetchedAt = 0;
+    this.latestSlotRequest = null;
+    this.stats = { fetched: 0, cacheHits: 0, sharedFetches: 0, evicted: 0 };
+  }
+
+  // At most one getSlot per poll interval, however many sessions ask
+  getLatestSlot() {
+    if (this.latestSlotRequest) {
+      return this.latestSlotRequest;
+    }
+    if (this.latestSlot !== null && Date.now() - this.latestSlotFetchedAt < config.solana.slotPollInterval) {
+      return Promise.resolve(this.latestSlot);
+    }
+
+    this.latestSlotRequest = this.rpcService.endpointPool.request('getSlot')
+      .then(slot => {
+        this.latestSlot = Math.max(slot, this.latestSlot ?? slot);
+        this.latestSlotFetchedAt = Date.now();
+        return this.latestSlot;
+      })
+      .finally(() => {
+        this.latestSlotRequest = null;
+      });
+    return this.latestSlotRequest;
+  }
+
+  // Resolves to the block, or null for a skipped slot; rejects with a FetchError when the slot
+  // still can't be read after the pipeline's retry rounds
+  getBlock(slot) {
+    if (this.cache.has(slot)) {
+      this.stats.cacheHits++;
+      return Promise.resolve(this.cache.get(slot));
+    }
+    if (this.requested.has(slot)) {
+      this.stats.sharedFetches++;
+      return this.requested.get(slot).promise;
+    }
+
+    const request = {};
+    request.promise = new Promise((resolve, reject) => {
+      request.resolve = resolve;
+      request.reject = reject;
+    });
+    // Readers request slots ahead of the one they deliver; a failure is reported when they get to it
+    request.promise.catch(() => {});
+    this.requested.set(slot, request);
+    this.schedule();
+    return request.promise;
+  }
+
+  schedule() {
+    if (this.fetchLoop) {
+      return;
+    }
+    this.fetchLoop = this.runFetchLoop().finally(() => {
+      this.fetchLoop = null;
+      if (this.requested.size > 0) {
+        this.schedule();
+      }
+    });
+  }
+
+  // Fetches the requested slots in ascending order; slots requested meanwhile join the next pass
+  async runFetchLoop() {
+    while (this.requested.size > 0) {
+      const slots = Array.from(this.requested.keys()).sort((a, b) => a - b);
+
+      try {
+        await this.fetchPipeline.run(
+          slots,
+          slot => this.rpcService.fetchBlock(slot),
+          async (block, slot) => {
+            this.stats.fetched++;
+            this.store(slot, block);
+            this.settle(slot, request => request.resolve(block));
+          }
+        );
+      } catch (error) {
+        // The slot that couldn't be read fails its readers; the rest of the pass is fetched next time
+        const failedSlots = error instanceof FetchError ? [error.key] : slots;
+        this.logger.error('Shared block fetch failed', { slots: failedSlots.length, error: error.message });
+        failedSlots.forEach(slot => this.settle(slot, request => request.reject(error)));
+      }
+    }
+  }
+
+  settle(slot, complete) {
+    const request = this.requested.get(slot);
+    if (request) {
+      this.requested.delete(slot);
+      complete(request);
+    }
+  }
+
+  /**
+   * Hands the blocks of [startSlot, endSlot] to `deliver` in slot order. The slots are requested
+   * from the shared fetch loop a pipeline window ahead, so only slots no other reader has fetched
+   * or requested are fetched. A slot that still fails after the pipeline's retry rounds rejects
+   * the read with a FetchError.
+   * @param {number} startSlot - First slot
+   * @param {number} endSlot - Last slot, inclusive
+   * @param {Function} deliver - async (block, slot) => void; block is null for slots without one
+   * @param {Function} shouldContinue - Checked before each delivery; returning false stops the read
+   */
+  async streamSlots(startSlot, endSlot, deliver, shouldContinue = () => true) {
+    const reader = { nextSlot: startSlot, endSlot };
+    const blocks = new Map();
+    let nextToRequest = startSlot;
+    this.readers.add(reader);
+
+    try {
+      for (let slot = startSlot; slot <= endSlot && shouldContinue(); slot++) {
+        while (nextToRequest <= endSlot && nextToRequest < slot + this.fetchPipeline.maxConcurrency) {
+          blocks.set(nextToRequest, this.getBlock(nextToRequest));
+          nextToRequest++;
+        }
+
+        const block = await blocks.get(slot);
+        blocks.delete(slot);
+        reader.nextSlot = slot + 1;
+        await deliver(block, slot);
+      }
+    } finally {
+      this.readers.delete(reader);
+    }
+  }
+
+  store(slot, block) {
+    this.cache.set(slot, block);
+    if (this.cache.size <= this.cacheSize) {
+      return;
+    }
+
+    // Evict the oldest blocks no reader still needs; past twice the cache size, evict regardless
+    const hardLimit = this.cacheSize * 2;
+    for (const cachedSlot of this.cache.keys()) {
+      if (this.cache.size <= this.cacheSize) {
+        break;
+      }
+      if (this.cache.size <= hardLimit && this.isNeeded(cachedSlot)) {
+        continue;
+      }
+      this.cache.delete(cachedSlot);
+      this.stats.evicted++;
+    }
+  }
+
+  isNeeded(slot) {
+    for (const reader of this.readers) {
+      if (slot >= reader.nextSlot && slot <= reader.endSlot) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  getStats() {
+    return {
+      ...this.stats,
+      latestSlot: this.latestSlot,
+      cachedBlocks: this.cache.size,
+      requested: this.requested.size,
+      readers: Array.from(this.readers, reader => ({ nextSlot: reader.nextSlot, endSlot: reader.endSlot })),
+      fetch: this.fetchPipeline.getStats(),
+    };
+  }
+}
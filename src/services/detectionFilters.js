@@ -0,0 +1,187 @@
+import fs from 'fs';
+import { PublicKey } from '@solana/web3.js';
+import { isValidTokenMint } from '../utils/validation.js';
+import { DECIMAL_SCALE, parseDecimal, toDecimalString } from '../utils/decimal.js';
+
+// Size bounds are in this quote token unless `quoteMint` names another
+const NATIVE_MINT = 'So11111111111111111111111111111111111111112';
+
+// Why a detection was dropped, as counted in a tracker's `filtered` totals
+export const FILTER_REASONS = ['excludedWallet', 'programAccount', 'dexNotAllowed', 'belowMinQuote', 'aboveMaxQuote'];
+
+const FILTER_OPTIONS = [
+  'minQuoteAmount',
+  'maxQuoteAmount',
+  'quoteMint',
+  'allowedDexes',
+  'excludedWallets',
+  'excludedWalletsFile',
+  'excludeProgramAccounts',
+  'logFiltered'
+];
+
+// Wallet lists are a JSON array or addresses separated by commas or new lines; `#` starts a comment
+function readWalletFile(path) {
+  let source;
+  try {
+    source = fs.readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new Error(`filters.excludedWalletsFile could not be read: ${error.message}`);
+  }
+
+  const trimmed = source.trim();
+  if (trimmed.startsWith('[')) {
+    const wallets = JSON.parse(trimmed);
+    if (!Array.isArray(wallets)) {
+      throw new Error('filters.excludedWalletsFile must hold a list of addresses');
+    }
+    return wallets;
+  }
+  return trimmed
+    .split('\n')
+    .map(line => line.replace(/#.*/, ''))
+    .flatMap(line => line.split(','))
+    .map(address => address.trim())
+    .filter(Boolean);
+}
+
+// Amounts are kept as exact decimal strings, e.g. 0.05 -> '0.05'
+function parseQuoteAmount(spec, key) {
+  if (spec[key] === undefined || spec[key] === null || spec[key] === '') {
+    return null;
+  }
+  let value;
+  try {
+    value = parseDecimal(spec[key]);
+  } catch (error) {
+    value = -1n;
+  }
+  if (value < 0n) {
+    throw new Error(`filters.${key} must be a non-negative number`);
+  }
+  return toDecimalString(value, DECIMAL_SCALE);
+}
+
+function parseList(value, key) {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  const list = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(list) || !list.every(entry => typeof entry === 'string')) {
+    throw new Error(`filters.${key} must be a list of strings`);
+  }
+  return list.map(entry => entry.trim()).filter(Boolean);
+}
+
+/**
+ * Validates and normalizes detection filters from the API, the CLI or a checkpoint. Wallets from
+ * `excludedWalletsFile` are read once and merged into `excludedWallets`, so the result no longer
+ * depends on the file.
+ * @param {Object} spec - `minQuoteAmount` and `maxQuoteAmount` in whole tokens of `quoteMint`
+ *   (SOL by default), `allowedDexes` as program ids or DEX names, `excludedWallets`, `excludedWalletsFile`,
+ *   `excludeProgramAccounts` and `logFiltered`; lists may be comma-separated strings
+ * @returns {Object} The filters with every option set
+ * @throws {Error} When an option is invalid or the wallet file can't be read
+ */
+export function normalizeDetectionFilters(spec = {}) {
+  if (spec === null || typeof spec !== 'object' || Array.isArray(spec)) {
+    throw new Error('filters must be an object');
+  }
+
+  const unknown = Object.keys(spec).filter(key => !FILTER_OPTIONS.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown filters: ${unknown.join(', ')}. Expected any of: ${FILTER_OPTIONS.join(', ')}`);
+  }
+
+  const minQuoteAmount = parseQuoteAmount(spec, 'minQuoteAmount');
+  const maxQuoteAmount = parseQuoteAmount(spec, 'maxQuoteAmount');
+  if (minQuoteAmount !== null && maxQuoteAmount !== null && parseDecimal(minQuoteAmount) > parseDecimal(maxQuoteAmount)) {
+    throw new Error('filters.minQuoteAmount must not be greater than filters.maxQuoteAmount');
+  }
+  const quoteMint = spec.quoteMint || NATIVE_MINT;
+  if (!isValidTokenMint(quoteMint)) {
+    throw new Error(`filters.quoteMint is not a valid mint address: ${quoteMint}`);
+  }
+
+  const excludedWallets = parseList(spec.excludedWallets, 'excludedWallets');
+  if (spec.excludedWalletsFile) {
+    const fileWallets = readWalletFile(spec.excludedWalletsFile);
+    // Entries are not echoed back, the file may not be the caller's
+    const invalidIndex = fileWallets.findIndex(address => !isValidTokenMint(address));
+    if (invalidIndex >= 0) {
+      throw new Error(`filters.excludedWalletsFile entry ${invalidIndex + 1} is not a valid address`);
+    }
+    excludedWallets.push(...fileWallets);
+  }
+  const invalidWallet = excludedWallets.find(address => !isValidTokenMint(address));
+  if (invalidWallet) {
+    throw new Error(`filters.excludedWallets contains an invalid address: ${invalidWallet}`);
+  }
+
+  return {
+    minQuoteAmount,
+    maxQuoteAmount,
+    quoteMint,
+    allowedDexes: parseList(spec.allowedDexes, 'allowedDexes'),
+    excludedWallets: [...new Set(excludedWallets)],
+    excludeProgramAccounts: Boolean(spec.excludeProgramAccounts),
+    logFiltered: Boolean(spec.logFiltered)
+  };
+}
+
+/**
+ * Decides which detections a tracker reports. Wallet rules apply to every detection, size and DEX
+ * rules only to buys and sells. Sizes are compared exactly in base units, and only for trades paid
+ * in `quoteMint`; trades in any other quote token can't be compared and pass the size rules.
+ */
+export class DetectionFilters {
+  constructor(spec = {}) {
+    this.spec = normalizeDetectionFilters(spec);
+    this.excludedWallets = new Set(this.spec.excludedWallets);
+    this.allowedDexes = new Set(this.spec.allowedDexes.map(dex => dex.toLowerCase()));
+    this.logFiltered = this.spec.logFiltered;
+  }
+
+  /**
+   * @param {Object} detection - A detection built by TokenBuyTracker
+   * @returns {string|null} One of FILTER_REASONS, or null when the detection is kept
+   */
+  getFilterReason(detection) {
+    if (this.excludedWallets.has(detection.buyer) || this.excludedWallets.has(detection.feePayer)) {
+      return 'excludedWallet';
+    }
+    if (this.spec.excludeProgramAccounts && !this.isWalletAddress(detection.buyer)) {
+      return 'programAccount';
+    }
+
+    if (detection.type !== 'buy' && detection.type !== 'sell') {
+      return null;
+    }
+
+    if (this.allowedDexes.size > 0 &&
+      !this.allowedDexes.has(detection.programId.toLowerCase()) &&
+      !this.allowedDexes.has(detection.dex.toLowerCase())) {
+      return 'dexNotAllowed';
+    }
+
+    if (detection.quoteToken !== this.spec.quoteMint) {
+      return null;
+    }
+    const quoteAmount = parseDecimal(toDecimalString(detection.amountSold || 0, detection.decimalsSold || 0));
+    if (this.spec.minQuoteAmount !== null && quoteAmount < parseDecimal(this.spec.minQuoteAmount)) {
+      return 'belowMinQuote';
+    }
+    if (this.spec.maxQuoteAmount !== null && quoteAmount > parseDecimal(this.spec.maxQuoteAmount)) {
+      return 'aboveMaxQuote';
+    }
+    return null;
+  }
+
+  isWalletAddress(address) {
+    try {
+      return PublicKey.isOnCurve(new PublicKey(address).toBytes());
+    } catch (error) {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { Logger } from './logger.js';
+import { config } from '../config/index.js';
+
+// JSON-RPC errors that retrying won't clear: the endpoint has cleaned up or doesn't have the block
+// (-32001, -32004), or keeps no transaction history (-32011)
+export const PERMANENT_ERROR_CODES = [-32001, -32004, -32011];
+
+// A key that couldn't be fetched; `key` is the first one not delivered
+export class FetchError extends Error {
+  constructor(key, cause) {
+    super(`Failed to fetch ${key}: ${cause.message}`);
+    this.name = 'FetchError';
+    this.key = key;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Fetches a list of keys (e.g. slots) with several requests in flight and hands the results
+ * over strictly in key order. Concurrency is adjusted AIMD-style: it grows by one after a
+ * full window of successful fetches and halves when the RPC answers with 429.
+ */
+export class OrderedFetchPipeline {
+  constructor(options = {}) {
+    this.logger = new Logger(config.logging.level);
+    this.minConcurrency = options.minConcurrency || config.solana.minFetchConcurrency;
+    this.maxConcurrency = Math.max(options.maxConcurrency || config.solana.maxFetchConcurrency, this.minConcurrency);
+    this.concurrency = this.clamp(options.initialConcurrency || config.solana.fetchConcurrency);
+    this.maxRetries = options.maxRetries || config.solana.maxRetries;
+    this.maxFetchRounds = options.maxFetchRounds || config.solana.maxFetchRounds;
+    this.retryDelay = options.retryDelay || config.solana.retryDelay;
+
+    this.successStreak = 0;
+    this.lastDecreaseTime = 0;
+    this.stats = { fetched: 0, rateLimited: 0, failed: 0 };
+  }
+
+  /**
+   * Fetches every key and delivers the results in the order of `keys`. A key whose fetch keeps
+   * failing after `maxRetries` attempts is fetched again after a pause, up to `maxFetchRounds`
+   * rounds. Skipping it would let checkpoints move past a slot that was never read, so once the
+   * rounds run out, or on an error in PERMANENT_ERROR_CODES, the run rejects instead.
+   * @param {Array} keys - Keys to fetch, in delivery order
+   * @param {Function} fetchItem - async (key) => result
+   * @param {Function} deliver - async (result, key) => void, awaited before the next delivery
+   * @param {Function} shouldContinue - Checked before each delivery; returning false stops the run
+   * @throws {FetchError} For the first key that couldn't be fetched; earlier keys were delivered
+   */
+  async run(keys, fetchItem, deliver, shouldContinue = () => true) {
+    const pending = new Map();
+    let nextToFetch = 0;
+
+    for (let index = 0; index < keys.length && shouldContinue(); index++) {
+      // Keep up to `concurrency` keys ahead of delivery fetching or buffered
+      while (nextToFetch < keys.length && nextToFetch < index + this.concurrency) {
+        pending.set(nextToFetch, this.fetchWithRetry(keys[nextToFetch], fetchItem));
+        nextToFetch++;
+      }
+
+      let { result, error } = await pending.get(index);
+      for (let round = 1; error && round < this.maxFetchRounds && !this.isPermanentError(error) && shouldContinue(); round++) {
+        this.stats.failed++;
+        this.logger.error('Fetch failed after retries, trying again', { key: keys[index], round, error: error.message });
+        await this.sleep(config.solana.maxRateLimitDelay);
+        ({ result, error } = await this.fetchWithRetry(keys[index], fetchItem));
+      }
+      pending.delete(index);
+
+      if (error) {
+        if (!shouldContinue()) {
+          break;
+        }
+        this.stats.failed++;
+        throw new FetchError(keys[index], error);
+      }
+
+      await deliver(result, keys[index]);
+    }
+  }
+
+  async fetchWithRetry(key, fetchItem) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await fetchItem(key);
+        this.recordSuccess();
+        return { result };
+      } catch (error) {
+        if (this.isRateLimitError(error)) {
+          this.recordRateLimit();
+        }
+        if (attempt >= this.maxRetries || this.isPermanentError(error)) {
+          return { error };
+        }
+
+        const delay = Math.min(this.retryDelay * Math.pow(2, attempt - 1), config.solana.maxRateLimitDelay);
+        this.logger.debug('Fetch failed, retrying', { key, attempt, delay, error: error.message });
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  recordSuccess() {
+    this.stats.fetched++;
+    this.successStreak++;
+
+    if (this.successStreak >= this.concurrency && this.concurrency < this.maxConcurrency) {
+      this.concurrency++;
+      this.successStreak = 0;
+      this.logger.debug('Increasing fetch concurrency', { concurrency: this.concurrency });
+    }
+  }
+
+  recordRateLimit() {
+    this.stats.rateLimited++;
+    this.successStreak = 0;
+
+    // Requests already in flight share the same rate-limit window; halve once per window
+    const now = Date.now();
+    if (now - this.lastDecreaseTime < this.retryDelay) {
+      return;
+    }
+    this.lastDecreaseTime = now;
+
+    const previous = this.concurrency;
+    this.concurrency = this.clamp(Math.floor(this.concurrency / 2));
+    this.logger.warn('Rate limited, reducing fetch concurrency', { from: previous, to: this.concurrency });
+  }
+
+  isPermanentError(error) {
+    return PERMANENT_ERROR_CODES.includes(error?.code);
+  }
+
+  isRateLimitError(error) {
+    return Boolean(error && error.message && (error.message.includes('429') || error.message.includes('Too Many Requests')));
+  }
+
+  clamp(concurrency) {
+    return Math.min(Math.max(concurrency, this.minConcurrency), this.maxConcurrency);
+  }
+
+  getStats() {
+    return { ...this.stats, concurrency: this.concurrency };
+  }
+
+  sleep(ms) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,247 @@
+import { Logger } from './logger.js';
+import { config } from '../config/index.js';
+import { SolanaRPCService } from './rpcService.js';
+import { getAccountKeys, getSigners } from '../utils/transaction.js';
+import { divideDecimal } from '../utils/decimal.js';
+
+/**
+ * Groups buyer wallets by where their SOL came from. Each buyer's transactions before its first
+ * buy are searched for inbound SOL transfers, and the funders are traced the same way up to
+ * `config.funding.maxHops` hops back. Wallets that share a funder at any hop form a cluster, as
+ * when one operator funds many fresh wallets. Funders with at least `config.funding.hubThreshold`
+ * transactions (exchanges, bridges) and `config.funding.ignoredFunders` are neither traced nor
+ * clustered on, since they fund unrelated wallets.
+ *
+ * Tracing is slow and runs in the background, one wallet at a time; traces are cached for the
+ * life of the process and shared by every session.
+ */
+export class FundingClusterService {
+  constructor(options = {}) {
+    this.logger = new Logger(config.logging.level);
+    this.rpcService = new SolanaRPCService({ endpointPool: options.endpointPool, transport: options.transport });
+    this.maxHops = options.maxHops ?? config.funding.maxHops;
+    this.transactionsPerWallet = options.transactionsPerWallet ?? config.funding.transactionsPerWallet;
+    this.hubThreshold = options.hubThreshold ?? config.funding.hubThreshold;
+    this.ignoredFunders = new Set(options.ignoredFunders ?? config.funding.ignoredFunders);
+    this.traces = new Map(); // address -> inbound SOL transfers before the traced point
+    this.hubs = new Map(); // address -> whether it has too many transactions to cluster on
+    this.pending = new Set(); // buyers queued or being traced
+    this.queue = Promise.resolve();
+  }
+
+  /**
+   * Clusters a session's buyers from the traces available now, and queues tracing for buyers
+   * that have none yet
+   * @param {Array} buyers - The session's buys
+   * @param {Object} supplies - `{ [mint]: { amount, decimals } | null }`, for supply shares
+   * @returns {{ status: string, traced: number, wallets: number, clusters: Array }} `status` is
+   *   'tracing' until every buyer is traced, then 'complete'
+   */
+  getClusters(buyers, supplies = {}) {
+    const firstBuys = new Map();
+    for (const buy of buyers) {
+      const first = firstBuys.get(buy.buyer);
+      if (!first || buy.slot < first.slot) {
+        firstBuys.set(buy.buyer, buy);
+      }
+    }
+
+    for (const [wallet, buy] of firstBuys) {
+      if (!this.traces.has(wallet) && !this.pending.has(wallet)) {
+        this.enqueue(wallet, buy.txHash);
+      }
+    }
+
+    const wallets = Array.from(firstBuys.keys());
+    const traced = wallets.filter(wallet => this.traces.has(wallet) && !this.pending.has(wallet)).length;
+    return {
+      status: traced === wallets.length ? 'complete' : 'tracing',
+      traced,
+      wallets: wallets.length,
+      clusters: this.buildClusters(wallets, buyers, supplies),
+    };
+  }
+
+  enqueue(wallet, beforeSignature) {
+    this.pending.add(wallet);
+    this.queue = this.queue
+      .then(() => this.traceFunding(wallet, beforeSignature, this.maxHops))
+      .catch(error => {
+        this.logger.warn('Failed to trace wallet funding', { wallet, error: error.message });
+      })
+      .finally(() => {
+        this.pending.delete(wallet);
+      });
+  }
+
+  // Traces `address` and, while hops are left, the funders it found. Failed traces aren't
+  // cached, so the next request retries them.
+  async traceFunding(address, beforeSignature, hopsLeft) {
+    if (!this.traces.has(address)) {
+      this.traces.set(address, await this.fetchFunding(address, beforeSignature));
+    }
+
+    for (const funding of this.traces.get(address)) {
+      if (this.ignoredFunders.has(funding.funder) || await this.isHub(funding.funder)) {
+        continue;
+      }
+      if (hopsLeft > 1) {
+        await this.traceFunding(funding.funder, funding.signature, hopsLeft - 1);
+      }
+    }
+  }
+
+  // Inbound SOL transfers among the last `transactionsPerWallet` transactions before a signature
+  async fetchFunding(address, beforeSignature) {
+    const signatures = await this.rpcService.endpointPool.request('getSignaturesForAddress', address, {
+      before: beforeSignature,
+      limit: this.transactionsPerWallet,
+    });
+
+    const fundings = [];
+    for (const { signature, err } of signatures) {
+      if (err) {
+        continue;
+      }
+      const transaction = await this.rpcService.fetchTransaction(signature);
+      const funding = transaction && this.findFunding(transaction, address);
+      if (funding) {
+        fundings.push({ ...funding, signature, slot: transaction.slot, blockTime: transaction.blockTime ?? null });
+      }
+    }
+
+    this.logger.debug('FUNDING_TRACED', { address, transactions: signatures.length, funders: fundings.length });
+    return fundings;
+  }
+
+  // A plain SOL transfer into `address`: its lamports went up without it signing or moving a
+  // token, and the signer whose lamports dropped most sent them
+  findFunding(transaction, address) {
+    const { meta } = transaction;
+    const accountKeys = getAccountKeys(transaction);
+    const signers = getSigners(transaction);
+    const index = accountKeys.indexOf(address);
+    if (!meta || index < 0 || signers.includes(address)) {
+      return null;
+    }
+
+    const delta = index => BigInt(meta.postBalances[index] ?? 0) - BigInt(meta.preBalances[index] ?? 0);
+    const received = delta(index);
+    const movedTokens = [...(meta.preTokenBalances || []), ...(meta.postTokenBalances || [])]
+      .some(balance => balance.owner === address);
+    if (received <= 0n || movedTokens) {
+      return null;
+    }
+
+    const sender = signers
+      .map(signer => ({ signer, delta: delta(accountKeys.indexOf(signer)) }))
+      .filter(({ delta }) => delta < 0n)
+      .sort((a, b) => (a.delta < b.delta ? -1 : a.delta > b.delta ? 1 : 0))[0];
+    return sender ? { funder: sender.signer, lamports: received.toString() } : null;
+  }
+
+  async isHub(address) {
+    if (!this.hubs.has(address)) {
+      const signatures = await this.rpcService.endpointPool.request('getSignaturesForAddress', address, {
+        limit: this.hubThreshold,
+      });
+      this.hubs.set(address, signatures.length >= this.hubThreshold);
+    }
+    return this.hubs.get(address);
+  }
+
+  // Funders of a wallet at every hop, nearest first, skipping hubs and ignored funders
+  getFunders(wallet) {
+    const funders = new Map();
+    let frontier = [wallet];
+    for (let hop = 1; hop <= this.maxHops && frontier.length > 0; hop++) {
+      const next = [];
+      for (const address of frontier) {
+        for (const funding of this.traces.get(address) || []) {
+          const { funder } = funding;
+          if (funders.has(funder) || funder === wallet || this.ignoredFunders.has(funder) || this.hubs.get(funder) !== false) {
+            continue;
+          }
+          funders.set(funder, { hop, funding });
+          next.push(funder);
+        }
+      }
+      frontier = next;
+    }
+    return funders;
+  }
+
+  buildClusters(wallets, buyers, supplies) {
+    const fundersByWallet = new Map(wallets.map(wallet => [wallet, this.getFunders(wallet)]));
+    const walletsByFunder = new Map();
+    for (const [wallet, funders] of fundersByWallet) {
+      for (const funder of funders.keys()) {
+        walletsByFunder.set(funder, [...(walletsByFunder.get(funder) || []), wallet]);
+      }
+    }
+
+    // Wallets joined through any shared funder end up in one cluster
+    const parent = new Map(wallets.map(wallet => [wallet, wallet]));
+    const find = wallet => (parent.get(wallet) === wallet ? wallet : find(parent.get(wallet)));
+    for (const funded of walletsByFunder.values()) {
+      funded.slice(1).forEach(wallet => parent.set(find(wallet), find(funded[0])));
+    }
+
+    const groups = new Map();
+    for (const wallet of wallets) {
+      groups.set(find(wallet), [...(groups.get(find(wallet)) || []), wallet]);
+    }
+
+    return Array.from(groups.values())
+      .filter(members => members.length > 1)
+      .map(members => this.describeCluster(members, fundersByWallet, walletsByFunder, buyers, supplies))
+      .sort((a, b) => b.size - a.size || a.firstBuySlot - b.firstBuySlot);
+  }
+
+  describeCluster(members, fundersByWallet, walletsByFunder, buyers, supplies) {
+    const memberSet = new Set(members);
+    const buys = buyers.filter(buy => memberSet.has(buy.buyer));
+    const sharedFunders = Array.from(walletsByFunder.entries())
+      .filter(([, funded]) => funded.length > 1 && funded.some(wallet => memberSet.has(wallet)))
+      .map(([funder, funded]) => ({
+        address: funder,
+        wallets: funded.length,
+        hop: Math.min(...funded.map(wallet => fundersByWallet.get(wallet).get(funder).hop)),
+      }))
+      .sort((a, b) => b.wallets - a.wallets || a.hop - b.hop);
+
+    // When each wallet received its nearest funding
+    const fundedAt = members
+      .map(wallet => Array.from(fundersByWallet.get(wallet).values()).find(({ hop }) => hop === 1)?.funding.blockTime)
+      .filter(time => time !== null && time !== undefined);
+    const slots = buys.map(buy => buy.slot);
+    const times = buys.map(buy => buy.timestamp);
+
+    return {
+      funder: sharedFunders[0].address,
+      funders: sharedFunders,
+      wallets: members,
+      size: members.length,
+      buys: buys.length,
+      supplyPercentage: this.getSupplyShares(buys, supplies),
+      firstBuySlot: Math.min(...slots),
+      lastBuySlot: Math.max(...slots),
+      firstBuyTime: Math.min(...times),
+      lastBuyTime: Math.max(...times),
+      firstFundedAt: fundedAt.length > 0 ? Math.min(...fundedAt) : null,
+      lastFundedAt: fundedAt.length > 0 ? Math.max(...fundedAt) : null,
+    };
+  }
+
+  // Share of each mint's supply the cluster bought, null for mints without a known supply
+  getSupplyShares(buys, supplies) {
+    const bought = new Map();
+    for (const buy of buys) {
+      bought.set(buy.targetToken, (bought.get(buy.targetToken) || 0n) + BigInt(buy.amountBought || '0'));
+    }
+    return Object.fromEntries(Array.from(bought, ([mint, amount]) => {
+      const supply = supplies[mint] ? BigInt(supplies[mint].amount) : 0n;
+      return [mint, supply > 0n ? divideDecimal(amount * 100n, supply, 8) : null];
+    }));
+  }
+}
@@ -1,24 +1,154 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import bs58 from 'bs58';
 import { config } from '../config/index.js';
 import { Logger } from './logger.js';
+import { BorshReader } from '../utils/borshReader.js';
+import { getAccountKeys, getInstructions } from '../utils/transaction.js';
+
+// Instruction names treated as swaps when an IDL doesn't list its own `metadata.swapInstructions`
+const DEFAULT_SWAP_INSTRUCTIONS = [
+  'swap',
+  'swap_v2',
+  'two_hop_swap',
+  'route',
+  'route_with_token_ledger',
+  'shared_accounts_route',
+  'exact_out_route',
+  'shared_accounts_exact_out_route',
+  'swap_base_in',
+  'swap_base_out',
+  'swap_base_input',
+  'swap_base_output',
+  'buy',
+  'sell',
+  'new_order_v3',
+];
+
+// Anchor programs emit events as a CPI into themselves whose data starts with Anchor's
+// EVENT_IX_TAG (0x1d9acb512ea545e4, little-endian), then the event discriminator and its fields
+const EVENT_INSTRUCTION_TAG = [0xe4, 0x45, 0xa5, 0x2e, 0x51, 0xcb, 0x9a, 0x1d];
 
 export class InstructionDecoder {
-  constructor() {
+  constructor(idlDirectory = config.decoder.idlDirectory) {
     this.logger = new Logger(config.logging.level);
-    this.dexPrograms = config.dexPrograms;
+    this.programs = new Map();
+    this.loadIdlDirectory(idlDirectory);
+  }
+
+  loadIdlDirectory(directory) {
+    let files = [];
+    try {
+      files = fs.readdirSync(directory).filter(file => file.endsWith('.json'));
+    } catch (error) {
+      this.logger.error('Failed to read IDL directory', { directory, error: error.message });
+      return;
+    }
+
+    for (const file of files) {
+      try {
+        const idl = JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8'));
+        this.registerIdl(idl);
+      } catch (error) {
+        this.logger.error('Failed to load IDL', { file, error: error.message });
+      }
+    }
+
+    this.logger.info('Instruction decoder registry loaded', {
+      directory,
+      programs: Array.from(this.programs.values()).map(program => program.name),
+    });
+  }
+
+  // Registers a program from an Anchor IDL (legacy or 0.30 format). Instructions without an
+  // explicit discriminator get the Anchor one: sha256("global:<snake_case_name>")[0..8].
+  registerIdl(idl) {
+    const programId = idl.address || idl.metadata?.address;
+    if (!programId) {
+      throw new Error('IDL has no program address');
+    }
+
+    const name = idl.metadata?.displayName || idl.metadata?.name || idl.name || programId;
+    const swapInstructions = new Set(idl.metadata?.swapInstructions || DEFAULT_SWAP_INSTRUCTIONS);
+
+    const instructions = (idl.instructions || []).map(instruction => {
+      const instructionName = this.toSnakeCase(instruction.name);
+      return {
+        name: instructionName,
+        discriminator: this.resolveDiscriminator(instruction, instructionName),
+        accounts: this.flattenAccounts(instruction.accounts || []),
+        args: instruction.args || [],
+        isSwap: swapInstructions.has(instructionName),
+      };
+    });
+
+    // Match longer discriminators first so a 1-byte native tag never shadows an 8-byte one
+    instructions.sort((a, b) => b.discriminator.length - a.discriminator.length);
+
+    // Legacy IDLs list event fields inline, 0.30 IDLs in a type of the same name
+    const events = (idl.events || []).map(event => ({
+      name: this.toSnakeCase(event.name),
+      discriminator: event.discriminator || this.anchorDiscriminator('event', event.name),
+      fields: event.fields || idl.types?.find(type => type.name === event.name)?.type.fields || [],
+    }));
+
+    this.programs.set(programId, {
+      programId,
+      name,
+      instructions,
+      events,
+      // `metadata.pool` names the pool account of swaps and the account owning the pool's vaults
+      pool: idl.metadata?.pool || null,
+      types: idl.types || [],
+    });
+  }
+
+  resolveDiscriminator(instruction, instructionName) {
+    if (Array.isArray(instruction.discriminator)) {
+      return instruction.discriminator;
+    }
+    // Shank IDLs describe native programs with a single tag value
+    if (instruction.discriminant) {
+      return [instruction.discriminant.value];
+    }
+    return this.anchorDiscriminator('global', instructionName);
+  }
+
+  anchorDiscriminator(namespace, name) {
+    return Array.from(createHash('sha256').update(`${namespace}:${name}`).digest().subarray(0, 8));
+  }
+
+  // Anchor allows nested account groups; flatten them into the positional order used on-chain
+  flattenAccounts(accounts) {
+    return accounts.flatMap(account => account.accounts
+      ? this.flattenAccounts(account.accounts)
+      : [this.toSnakeCase(account.name)]);
+  }
+
+  toSnakeCase(name) {
+    return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+  }
+
+  getRegisteredPrograms() {
+    return Array.from(this.programs.values()).map(program => ({
+      programId: program.programId,
+      name: program.name,
+      instructions: program.instructions.map(instruction => instruction.name),
+      events: program.events.map(event => event.name),
+    }));
   }
 
   decodeTransaction(transaction) {
     const decodedInstructions = [];
-    
+
     // Process top-level instructions
-    if (transaction.transaction && transaction.transaction.message && transaction.transaction.message.instructions) {
-      transaction.transaction.message.instructions.forEach((instruction, index) => {
-        const decoded = this.decodeInstruction(instruction, transaction, index);
-        if (decoded) {
-          decodedInstructions.push(decoded);
-        }
-      });
-    }
+    getInstructions(transaction).forEach((instruction, index) => {
+      const decoded = this.decodeInstruction(instruction, transaction, index);
+      if (decoded) {
+        decodedInstructions.push(decoded);
+      }
+    });
 
     // Process inner instructions (CPI calls)
     if (transaction.meta && transaction.meta.innerInstructions) {
@@ -34,45 +164,42 @@ export class InstructionDecoder {
       });
     }
 
-
-
     return decodedInstructions;
   }
 
   decodeInstruction(instruction, transaction, index) {
     try {
-      // Get the program ID
-      const accounts = transaction.transaction.message.accountKeys || 
-                     transaction.transaction.message.staticAccountKeys || [];
-      
-      const programId = accounts[instruction.programIdIndex];
-      if (!programId) {
+      // Get the program ID, resolving lookup-table addresses for v0 transactions
+      const accounts = getAccountKeys(transaction);
+
+      const programIdString = accounts[instruction.programIdIndex];
+      if (!programIdString) {
         return null;
       }
 
-      const programIdString = programId.toString();
-      
-      // Check if this is a known DEX program
-      const dexInfo = this.findDexByProgramId(programIdString);
-      if (!dexInfo) {
+      // Check if this is a registered program
+      const program = this.programs.get(programIdString);
+      if (!program) {
         return null;
       }
 
       // Decode instruction data
-      const instructionData = this.decodeInstructionData(instruction.data, dexInfo);
-      
-      // More permissive: consider any instruction from a DEX program as potentially relevant
-      const isRelevant = this.isRelevantInstruction(instructionData, dexInfo);
-      
+      const instructionData = this.decodeInstructionData(instruction.data, program);
+      const instructionAccounts = instruction.accounts || [];
+      const namedAccounts = this.nameAccounts(instructionData.accountNames, instructionAccounts, accounts);
+
       return {
         index,
         programId: programIdString,
-        dex: dexInfo.name,
-        accounts: instruction.accounts || [],
+        dex: program.name,
+        accounts: instructionAccounts,
+        namedAccounts,
+        pool: this.namePool(program.pool, namedAccounts),
         data: instruction.data,
         decodedData: instructionData,
-        isSwapInstruction: this.isSwapInstruction(instructionData, dexInfo),
-        isRelevantInstruction: isRelevant,
+        isSwapInstruction: instructionData.isSwap === true,
+        // Any instruction from a registered program is potentially relevant
+        isRelevantInstruction: true,
       };
     } catch (error) {
       this.logger.debug('Error decoding instruction', { error: error.message, index });
@@ -80,115 +207,114 @@ export class InstructionDecoder {
     }
   }
 
-  findDexByProgramId(programId) {
-    for (const [key, dexInfo] of Object.entries(this.dexPrograms)) {
-      if (dexInfo.programId === programId) {
-        return dexInfo;
-      }
-    }
-    return null;
-  }
-
-  decodeInstructionData(data, dexInfo) {
-    if (!data || data.length < 8) {
+  decodeInstructionData(data, program) {
+    const dataBytes = this.toBytes(data);
+    if (!dataBytes || dataBytes.length === 0) {
       return { type: 'unknown', discriminator: null };
     }
 
-    // Convert base58 data to bytes
-    let dataBytes;
-    try {
-      // Assuming data is base58 encoded
-      dataBytes = this.base58ToBytes(data);
-    } catch (error) {
-      // If it fails, data might already be bytes
-      if (Array.isArray(data)) {
-        dataBytes = data;
-      } else {
-        return { type: 'unknown', discriminator: null };
-      }
+    if (program.events.length > 0 && this.arraysEqual(dataBytes.slice(0, EVENT_INSTRUCTION_TAG.length), EVENT_INSTRUCTION_TAG)) {
+      return this.decodeEventData(dataBytes.slice(EVENT_INSTRUCTION_TAG.length), program);
     }
 
-    if (dataBytes.length < 8) {
-      return { type: 'unknown', discriminator: null };
+    const instruction = program.instructions.find(candidate =>
+      dataBytes.length >= candidate.discriminator.length &&
+      this.arraysEqual(dataBytes.slice(0, candidate.discriminator.length), candidate.discriminator)
+    );
+
+    if (!instruction) {
+      return {
+        type: 'unknown',
+        discriminator: dataBytes.slice(0, 8),
+        rawData: dataBytes,
+      };
     }
 
-    // Extract the first 8 bytes (Anchor discriminator)
-    const discriminator = dataBytes.slice(0, 8);
-    
-    // Match against known discriminators
-    for (const [methodName, expectedDiscriminator] of Object.entries(dexInfo.discriminators)) {
-      if (this.arraysEqual(discriminator, expectedDiscriminator)) {
-        return {
-          type: methodName,
-          discriminator: discriminator,
-          rawData: dataBytes,
-        };
-      }
+    let args = null;
+    let argsError = null;
+    try {
+      const reader = new BorshReader(dataBytes.slice(instruction.discriminator.length), program.types);
+      args = reader.readFields(instruction.args);
+    } catch (error) {
+      // Keep the instruction match even when the arguments don't fit the IDL
+      argsError = error.message;
     }
 
     return {
-      type: 'unknown',
-      discriminator: discriminator,
+      type: instruction.name,
+      discriminator: instruction.discriminator,
+      args,
+      ...(argsError && { argsError }),
+      accountNames: instruction.accounts,
+      isSwap: instruction.isSwap,
       rawData: dataBytes,
     };
   }
 
-  isSwapInstruction(decodedData, dexInfo) {
-    if (!decodedData || !decodedData.type) {
-      return false;
+  // Events decode like instructions, as `{ type: 'event', event, args }`, and are never swaps
+  decodeEventData(eventBytes, program) {
+    const event = program.events.find(candidate =>
+      this.arraysEqual(eventBytes.slice(0, candidate.discriminator.length), candidate.discriminator)
+    );
+    if (!event) {
+      return { type: 'event', event: null, discriminator: eventBytes.slice(0, 8), isSwap: false, rawData: eventBytes };
     }
 
-    const swapMethods = ['swap', 'route', 'shared_route', 'new_order'];
-    return swapMethods.includes(decodedData.type.toLowerCase());
-  }
-
-  isRelevantInstruction(decodedData, dexInfo) {
-    if (!decodedData || !decodedData.type) {
-      return false;
+    let args = null;
+    let argsError = null;
+    try {
+      const reader = new BorshReader(eventBytes.slice(event.discriminator.length), program.types);
+      args = reader.readFields(event.fields);
+    } catch (error) {
+      argsError = error.message;
     }
 
-    // More permissive: consider any instruction from a DEX as potentially relevant
-    // This includes swap, route, new_order, and even unknown instructions from known DEXes
-    const relevantMethods = ['swap', 'route', 'shared_route', 'new_order', 'unknown'];
-    return relevantMethods.includes(decodedData.type.toLowerCase());
+    return {
+      type: 'event',
+      event: event.name,
+      discriminator: event.discriminator,
+      args,
+      ...(argsError && { argsError }),
+      isSwap: false,
+      rawData: eventBytes,
+    };
   }
 
-  base58ToBytes(base58String) {
-    // Simple base58 decoder - in production, use a proper library
-    // This is a simplified version for demonstration
-    const ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
-    const ALPHABET_MAP = {};
-    for (let i = 0; i < ALPHABET.length; i++) {
-      ALPHABET_MAP[ALPHABET[i]] = i;
+  nameAccounts(accountNames, instructionAccounts, accountKeys) {
+    if (!accountNames) {
+      return {};
     }
-
-    let result = [];
-    let carry = 0;
-    
-    for (let i = 0; i < base58String.length; i++) {
-      carry = ALPHABET_MAP[base58String[i]];
-      if (carry === undefined) {
-        throw new Error('Invalid base58 character');
+    const named = {};
+    accountNames.forEach((name, position) => {
+      const key = accountKeys[instructionAccounts[position]];
+      if (key) {
+        named[name] = key;
       }
-      
-      for (let j = 0; j < result.length; j++) {
-        carry += result[j] * 58;
-        result[j] = carry & 0xff;
-        carry >>= 8;
-      }
-      
-      while (carry > 0) {
-        result.push(carry & 0xff);
-        carry >>= 8;
-      }
-    }
+    });
+    return named;
+  }
 
-    // Add leading zeros
-    for (let i = 0; i < base58String.length && base58String[i] === '1'; i++) {
-      result.push(0);
+  // `{ address, vaultOwner }` of the pool an instruction works on, or null
+  namePool(pool, namedAccounts) {
+    if (!pool || !namedAccounts[pool.account]) {
+      return null;
     }
+    return { address: namedAccounts[pool.account], vaultOwner: namedAccounts[pool.vaultOwner] || null };
+  }
 
-    return result.reverse();
+  toBytes(data) {
+    if (!data) {
+      return null;
+    }
+    if (Array.isArray(data) || data instanceof Uint8Array) {
+      return Array.from(data);
+    }
+    try {
+      // Instruction data in JSON-encoded transactions is base58
+      return Array.from(bs58.decode(data));
+    } catch (error) {
+      return null;
+    }
   }
 
   arraysEqual(a, b) {
@@ -198,4 +324,4 @@ export class InstructionDecoder {
     }
     return true;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,142 @@
+import { Logger } from './logger.js';
+import { config } from '../config/index.js';
+import { SolanaRPCService, SIGNATURE_PAGE_LIMIT } from './rpcService.js';
+import { InstructionDecoder } from './instructionDecoder.js';
+import { TokenBuyTracker } from './tokenBuyTracker.js';
+import { findCurveCreation } from '../utils/pumpFun.js';
+
+/**
+ * Finds the slot a mint was created in and the slot liquidity was first deposited for it, so a
+ * session can start scanning at the launch instead of at a guessed block. The mint's signature
+ * index is paged back to its oldest transaction, which created the mint; its oldest transactions
+ * are then read in order until one classifies as a liquidity deposit or creates a pump.fun
+ * bonding curve for the mint. Histories longer than
+ * `config.discovery.maxSignaturePages` pages aren't walked, and the deposit is looked for in the
+ * first `config.discovery.poolScanTransactions` transactions only.
+ *
+ * Results are cached for the life of the process; failed discoveries are retried on the next call.
+ */
+export class LaunchDiscoveryService {
+  constructor(options = {}) {
+    this.logger = new Logger(config.logging.level);
+    this.rpcService = new SolanaRPCService({ endpointPool: options.endpointPool, transport: options.transport });
+    this.instructionDecoder = new InstructionDecoder();
+    this.maxSignaturePages = options.maxSignaturePages ?? config.discovery.maxSignaturePages;
+    this.poolScanTransactions = options.poolScanTransactions ?? config.discovery.poolScanTransactions;
+    this.cache = new Map();
+    this.inflight = new Map();
+  }
+
+  /**
+   * @param {string} mint - Mint address
+   * @returns {Promise<Object>} `{ mint, creationSlot, creationSignature, poolSlot, poolSignature,
+   *   startSlot, error }`. `startSlot` is the pool slot, or the creation slot when no deposit was
+   *   found; slots are null and `error` says why when the history couldn't be walked. Never rejects.
+   */
+  discover(mint) {
+    if (this.cache.has(mint)) {
+      return Promise.resolve(this.cache.get(mint));
+    }
+    if (this.inflight.has(mint)) {
+      return this.inflight.get(mint);
+    }
+
+    const request = this.findLaunch(mint)
+      .then(launch => {
+        if (launch.startSlot !== null) {
+          this.cache.set(mint, launch);
+        }
+        return launch;
+      })
+      .catch(error => {
+        this.logger.warn('Failed to discover launch slot', { mint, error: error.message });
+        return this.toLaunch(mint, null, null, error.message);
+      })
+      .finally(() => {
+        this.inflight.delete(mint);
+      });
+    this.inflight.set(mint, request);
+    return request;
+  }
+
+  // Launches of several mints keyed by mint
+  async discoverMany(mints) {
+    const launches = await Promise.all([...new Set(mints)].map(mint => this.discover(mint)));
+    return Object.fromEntries(launches.map(launch => [launch.mint, launch]));
+  }
+
+  async findLaunch(mint) {
+    const startTime = Date.now();
+    const oldest = await this.getOldestSignatures(mint);
+    if (!oldest) {
+      return this.toLaunch(mint, null, null, `History is longer than ${this.maxSignaturePages} signature pages`);
+    }
+    if (oldest.length === 0) {
+      return this.toLaunch(mint, null, null, 'Mint has no transactions');
+    }
+
+    const pool = await this.findPoolCreation(mint, oldest);
+    const launch = this.toLaunch(mint, oldest[0], pool, null);
+    this.logger.info('LAUNCH_DISCOVERED', { ...launch, durationMs: Date.now() - startTime });
+    return launch;
+  }
+
+  // Successful signatures of the mint, oldest first: the last page and the one before it, so at
+  // least a page's worth is returned whenever the history has that many. Null past the page limit.
+  async getOldestSignatures(mint) {
+    let newer = [];
+    let older = [];
+    let before;
+
+    for (let pages = 0; pages < this.maxSignaturePages; pages++) {
+      const page = await this.rpcService.fetchSignaturePage(mint, before);
+      if (page.length > 0) {
+        newer = older;
+        older = page;
+        before = page[page.length - 1].signature;
+      }
+      // A short page is the last one
+      if (page.length < SIGNATURE_PAGE_LIMIT) {
+        return [...newer, ...older].filter(info => !info.err).reverse();
+      }
+    }
+    return null;
+  }
+
+  // The first of the given transactions that deposits the mint into a pool or curve
+  async findPoolCreation(mint, signatures) {
+    const buyTracker = new TokenBuyTracker(this.rpcService, this.instructionDecoder);
+    buyTracker.setTargetToken(mint);
+
+    for (const info of signatures.slice(0, this.poolScanTransactions)) {
+      const transaction = await this.rpcService.fetchTransaction(info.signature);
+      if (!transaction) {
+        continue;
+      }
+      const balanceChanges = await this.rpcService.getTokenBalanceChanges(transaction);
+      if (!balanceChanges.some(change => change.mint === mint)) {
+        continue;
+      }
+      const decodedInstructions = this.instructionDecoder.decodeTransaction(transaction);
+      const classification = buyTracker.classifyTransaction(transaction, balanceChanges, decodedInstructions);
+      if (buyTracker.isLiquidityDeposit(classification) || findCurveCreation(decodedInstructions, mint)) {
+        return info;
+      }
+    }
+    return null;
+  }
+
+  toLaunch(mint, creation, pool, error) {
+    const creationSlot = creation?.slot ?? null;
+    const poolSlot = pool?.slot ?? null;
+    return {
+      mint,
+      creationSlot,
+      creationSignature: creation?.signature || null,
+      poolSlot,
+      poolSignature: pool?.signature || null,
+      startSlot: poolSlot ?? creationSlot,
+      error,
+    };
+  }
+}
@@ -0,0 +1,195 @@
+import { Logger } from './logger.js';
+import { config } from '../config/index.js';
+import { DECIMAL_SCALE, parseDecimal, toDecimalString } from '../utils/decimal.js';
+
+// Amounts, prices and PnL are kept as integers of 10^-DECIMAL_SCALE whole units
+const SCALE = 10n ** BigInt(DECIMAL_SCALE);
+const AMOUNT_FIELDS = ['totalBought', 'totalSold', 'balance', 'costBasis', 'averageEntryPrice', 'realizedPnl'];
+
+// a * b / c of non-negative amounts, rounded half up
+const mulDiv = (a, b, c) => (a * b * 2n + c) / (c * 2n);
+const fromUnits = units => toDecimalString(units, DECIMAL_SCALE);
+
+/**
+ * Keeps a running position for every wallet among the first N buyers of the target token:
+ * balance, average entry price (average-cost method), realized PnL and unrealized PnL at
+ * the latest observed trade price. Values are expressed in the quote token of the first
+ * recorded buy; trades in another quote token are valued at the latest price. Math is exact
+ * BigInt fixed point and values are reported as decimal strings.
+ */
+export class PositionLedger {
+  constructor() {
+    this.logger = new Logger(config.logging.level);
+    this.positions = new Map();
+    this.quoteToken = null;
+    this.lastPrice = null;
+    this.lastPriceSlot = null;
+  }
+
+  recordDetection(detection) {
+    if (detection.type !== 'buy' && detection.type !== 'sell') {
+      return;
+    }
+
+    const tokenAmount = this.toUnits(detection.amountBought, detection.decimalsTarget);
+    if (tokenAmount <= 0n) {
+      return;
+    }
+
+    if (!this.quoteToken && detection.type === 'buy' && detection.buyNumber) {
+      this.quoteToken = detection.quoteToken;
+    }
+
+    // Any trade of the token moves the mark price, whoever made it
+    const isReferenceQuote = detection.quoteToken === this.quoteToken;
+    if (isReferenceQuote) {
+      this.lastPrice = mulDiv(this.toUnits(detection.amountSold, detection.decimalsSold), SCALE, tokenAmount);
+      this.lastPriceSlot = detection.slot;
+    }
+
+    let position = this.positions.get(detection.buyer);
+    if (!position) {
+      // Only wallets that made one of the first N buys get a position
+      if (detection.type !== 'buy' || !detection.buyNumber) {
+        return;
+      }
+      position = this.createPosition(detection);
+      this.positions.set(detection.buyer, position);
+    }
+
+    const quoteValue = isReferenceQuote
+      ? this.toUnits(detection.amountSold, detection.decimalsSold)
+      : mulDiv(tokenAmount, this.lastPrice ?? 0n, SCALE);
+
+    if (detection.type === 'buy') {
+      this.applyBuy(position, tokenAmount, quoteValue);
+    } else {
+      this.applySell(position, tokenAmount, quoteValue);
+    }
+    position.lastTradeSlot = detection.slot;
+    position.lastTradeTime = detection.timestamp;
+  }
+
+  createPosition(detection) {
+    return {
+      wallet: detection.buyer,
+      firstBuyNumber: detection.buyNumber,
+      firstBuySlot: detection.slot,
+      firstBuyTime: detection.timestamp,
+      buys: 0,
+      sells: 0,
+      totalBought: 0n,
+      totalSold: 0n,
+      balance: 0n,
+      costBasis: 0n,
+      averageEntryPrice: 0n,
+      realizedPnl: 0n,
+      lastTradeSlot: detection.slot,
+      lastTradeTime: detection.timestamp,
+    };
+  }
+
+  applyBuy(position, tokenAmount, quoteValue) {
+    position.buys++;
+    position.totalBought += tokenAmount;
+    position.balance += tokenAmount;
+    position.costBasis += quoteValue;
+    position.averageEntryPrice = position.balance > 0n ? mulDiv(position.costBasis, SCALE, position.balance) : 0n;
+  }
+
+  applySell(position, tokenAmount, quoteValue) {
+    position.sells++;
+    position.totalSold += tokenAmount;
+
+    // Tokens received outside tracked buys (e.g. transfers in) have no cost basis
+    const matchedAmount = tokenAmount < position.balance ? tokenAmount : position.balance;
+    const matchedProceeds = mulDiv(quoteValue, matchedAmount, tokenAmount);
+    // Cost leaves in proportion to the balance sold, so selling everything clears it exactly
+    const matchedCost = position.balance > 0n ? mulDiv(position.costBasis, matchedAmount, position.balance) : 0n;
+    position.realizedPnl += matchedProceeds - matchedCost;
+    position.costBasis -= matchedCost;
+    position.balance -= matchedAmount;
+
+    if (position.balance === 0n) {
+      position.costBasis = 0n;
+    }
+  }
+
+  getPositionStatus(position) {
+    if (position.balance === 0n) {
+      return 'exited';
+    }
+    return position.sells > 0 ? 'partial' : 'holding';
+  }
+
+  getUnrealizedPnl(position) {
+    return this.lastPrice === null ? 0n : mulDiv(position.balance, this.lastPrice, SCALE) - position.costBasis;
+  }
+
+  getPositions() {
+    return Array.from(this.positions.values())
+      .sort((a, b) => a.firstBuyNumber - b.firstBuyNumber)
+      .map(position => ({
+        ...this.formatPosition(position),
+        status: this.getPositionStatus(position),
+        unrealizedPnl: fromUnits(this.getUnrealizedPnl(position)),
+      }));
+  }
+
+  getSummary() {
+    const positions = Array.from(this.positions.values());
+    const countByStatus = status => positions.filter(position => this.getPositionStatus(position) === status).length;
+    const sum = values => values.reduce((total, value) => total + value, 0n);
+
+    return {
+      wallets: positions.length,
+      holding: countByStatus('holding'),
+      partial: countByStatus('partial'),
+      exited: countByStatus('exited'),
+      totalRealizedPnl: fromUnits(sum(positions.map(position => position.realizedPnl))),
+      totalUnrealizedPnl: fromUnits(sum(positions.map(position => this.getUnrealizedPnl(position)))),
+      quoteToken: this.quoteToken,
+      lastPrice: this.lastPrice === null ? null : fromUnits(this.lastPrice),
+      lastPriceSlot: this.lastPriceSlot,
+    };
+  }
+
+  exportState() {
+    return {
+      positions: Array.from(this.positions.values(), position => this.formatPosition(position)),
+      quoteToken: this.quoteToken,
+      lastPrice: this.lastPrice === null ? null : fromUnits(this.lastPrice),
+      lastPriceSlot: this.lastPriceSlot,
+    };
+  }
+
+  // Checkpoints written before exact math hold numbers, which parse the same way
+  importState(state) {
+    this.positions = new Map(state.positions.map(position => [position.wallet, {
+      ...position,
+      ...Object.fromEntries(AMOUNT_FIELDS.map(field => [field, parseDecimal(position[field] ?? 0)])),
+    }]));
+    this.quoteToken = state.quoteToken;
+    this.lastPrice = state.lastPrice === null || state.lastPrice === undefined ? null : parseDecimal(state.lastPrice);
+    this.lastPriceSlot = state.lastPriceSlot;
+  }
+
+  formatPosition(position) {
+    return {
+      ...position,
+      ...Object.fromEntries(AMOUNT_FIELDS.map(field => [field, fromUnits(position[field])])),
+    };
+  }
+
+  // Base units to scaled units
+  toUnits(amount, decimals) {
+    return parseDecimal(toDecimalString(amount || 0, decimals || 0));
+  }
+
+  reset() {
+    this.positions.clear();
+    this.quoteToken = null;
+    this.lastPrice = null;
+    this.lastPriceSlot = null;
+  }
+}
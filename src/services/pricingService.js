@@ -0,0 +1,184 @@
+import { Logger } from './logger.js';
+import { config } from '../config/index.js';
+
+// Valued at exactly one dollar; every USD price is derived from swaps against these
+export const STABLECOIN_MINTS = [
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', // USDT
+];
+
+const NATIVE_MINT = 'So11111111111111111111111111111111111111112';
+
+// Samples listed in `priceSource`; a price may come from more
+const MAX_SOURCE_SIGNATURES = 5;
+// Samples per mint kept in checkpoints, enough to price the first blocks after a resume
+const MAX_EXPORTED_SAMPLES = 100;
+
+/**
+ * Prices quote tokens in USD from the blocks a session reads. Every swap between a stablecoin and
+ * a priced quote token (SOL and `config.pricing.quoteMints`) is a sample; a token's price at a slot
+ * is the volume-weighted median of the samples within `config.pricing.windowSlots` of it. No
+ * external price API is used: `priceSource` lists the slots and transactions behind each price.
+ */
+export class PricingService {
+  constructor(options = {}) {
+    this.logger = new Logger(config.logging.level);
+    this.windowSlots = options.windowSlots ?? config.pricing.windowSlots;
+    this.minSampleUsd = options.minSampleUsd ?? config.pricing.minSampleUsd;
+    this.stablecoins = new Set(STABLECOIN_MINTS);
+    this.quoteMints = new Set([NATIVE_MINT, ...(options.quoteMints ?? config.pricing.quoteMints)]);
+    // mint -> samples in slot order: { slot, priceUsd, volumeUsd, signature }
+    this.samples = new Map();
+  }
+
+  /**
+   * Records a stablecoin swap from a transaction's token balance changes, if it has one. The
+   * stablecoin and quote token must move in opposite directions for the same owner, which holds
+   * for the trader and for the pool vaults alike. Owners that moved any other token (multi-hop
+   * routes, shared pool authorities) are skipped, as their rate isn't a direct one.
+   * @param {Array} balanceChanges - Changes from SolanaRPCService.getTokenBalanceChanges
+   * @param {number} slot - Slot of the transaction
+   * @param {string} signature - Transaction signature, kept as the sample's source
+   */
+  observeTransaction(balanceChanges, slot, signature) {
+    const byOwner = new Map();
+    for (const change of balanceChanges) {
+      if (!change.owner) {
+        continue;
+      }
+      const changes = byOwner.get(change.owner) || [];
+      changes.push(change);
+      byOwner.set(change.owner, changes);
+    }
+
+    for (const changes of byOwner.values()) {
+      const stable = changes.filter(change => this.stablecoins.has(change.mint));
+      const quote = changes.filter(change => this.quoteMints.has(change.mint));
+      if (stable.length !== 1 || stable.length + quote.length !== changes.length ||
+        new Set(quote.map(change => change.mint)).size !== 1) {
+        continue;
+      }
+
+      const stableDelta = this.toUiAmount(stable[0].delta, stable[0].decimals);
+      const quoteDelta = quote.reduce((sum, change) => sum + this.toUiAmount(change.delta, change.decimals), 0);
+      if (stableDelta === 0 || quoteDelta === 0 || Math.sign(stableDelta) === Math.sign(quoteDelta)) {
+        continue;
+      }
+
+      const volumeUsd = Math.abs(stableDelta);
+      if (volumeUsd < this.minSampleUsd) {
+        continue;
+      }
+
+      this.addSample(quote[0].mint, {
+        slot,
+        priceUsd: volumeUsd / Math.abs(quoteDelta),
+        volumeUsd,
+        signature
+      });
+      return;
+    }
+  }
+
+  addSample(mint, sample) {
+    const samples = this.samples.get(mint) || [];
+    let index = samples.length;
+    while (index > 0 && samples[index - 1].slot > sample.slot) {
+      index--;
+    }
+    samples.splice(index, 0, sample);
+    this.samples.set(mint, samples);
+
+    this.logger.debug('PRICE_SAMPLE', { mint, ...sample });
+  }
+
+  /**
+   * @param {string} mint - Quote token mint
+   * @param {number} slot - Slot to price at
+   * @returns {{ priceUsd: number, source: Object }|null} The price and the samples it comes
+   *   from, or null when no sample is close enough
+   */
+  getPrice(mint, slot) {
+    if (this.stablecoins.has(mint)) {
+      return { priceUsd: 1, source: { method: 'stablecoin', mint } };
+    }
+
+    const nearby = (this.samples.get(mint) || [])
+      .filter(sample => Math.abs(sample.slot - slot) <= this.windowSlots);
+    if (nearby.length === 0) {
+      return null;
+    }
+
+    // Weighted median, so a single swap against a thin pool can't move the price
+    const sorted = nearby.slice().sort((a, b) => a.priceUsd - b.priceUsd);
+    const totalVolume = sorted.reduce((sum, sample) => sum + sample.volumeUsd, 0);
+    let cumulative = 0;
+    const median = sorted.find(sample => (cumulative += sample.volumeUsd) >= totalVolume / 2);
+
+    return {
+      priceUsd: median.priceUsd,
+      source: {
+        method: 'stablecoin-swaps',
+        mint,
+        samples: nearby.length,
+        fromSlot: nearby[0].slot,
+        toSlot: nearby[nearby.length - 1].slot,
+        signatures: nearby
+          .slice()
+          .sort((a, b) => b.volumeUsd - a.volumeUsd)
+          .slice(0, MAX_SOURCE_SIGNATURES)
+          .map(sample => sample.signature)
+      }
+    };
+  }
+
+  /**
+   * Adds `quoteValueUsd` (what was paid or received), `priceUsd` (per whole target token),
+   * `marketCapUsd`, `quotePriceUsd` and `priceSource` to a buy or sell. All are null when the
+   * quote token has no price near the detection's slot.
+   */
+  priceDetection(detection) {
+    const price = detection.quoteToken ? this.getPrice(detection.quoteToken, detection.slot) : null;
+    if (!price) {
+      return Object.assign(detection, { quoteValueUsd: null, priceUsd: null, marketCapUsd: null, quotePriceUsd: null, priceSource: null });
+    }
+
+    const quoteAmount = this.toUiAmount(detection.amountSold, detection.decimalsSold);
+    const quoteValueUsd = quoteAmount * price.priceUsd;
+
+    return Object.assign(detection, {
+      quoteValueUsd,
+      // The trade price, which already accounts for Token-2022 transfer fees and interest
+      priceUsd: detection.pricePerToken !== '0' ? Number(detection.pricePerToken) * price.priceUsd : null,
+      marketCapUsd: detection.marketCapAtEntry ? Number(detection.marketCapAtEntry) * price.priceUsd : null,
+      quotePriceUsd: price.priceUsd,
+      priceSource: price.source
+    });
+  }
+
+  // Samples older than the window can't price anything the stream reaches from `slot` on
+  prune(slot) {
+    for (const [mint, samples] of this.samples) {
+      const kept = samples.filter(sample => sample.slot >= slot - this.windowSlots);
+      if (kept.length > 0) {
+        this.samples.set(mint, kept);
+      } else {
+        this.samples.delete(mint);
+      }
+    }
+  }
+
+  toUiAmount(amount, decimals) {
+    return Number(amount) / Math.pow(10, decimals || 0);
+  }
+
+  exportState() {
+    return {
+      samples: Object.fromEntries(Array.from(this.samples, ([mint, samples]) => [mint, samples.slice(-MAX_EXPORTED_SAMPLES)]))
+    };
+  }
+
+  importState(state) {
+    this.samples = new Map(Object.entries(state?.samples || {}).map(([mint, samples]) => [mint, samples.slice()]));
+  }
+}
@@ -0,0 +1,312 @@
+import { config } from '../config/index.js';
+import { Logger } from './logger.js';
+import { createRpcTransport } from './rpcTransport.js';
+
+// JSON-RPC error the node returns when it is unhealthy or behind; any other JSON-RPC error
+// (e.g. a skipped slot) is a valid answer and says nothing about the endpoint's health
+const NODE_UNHEALTHY_ERROR_CODE = -32005;
+// A slot of lag costs as much as 400ms of latency, roughly one slot time
+const SLOT_LAG_PENALTY_MS = 400;
+const ERROR_RATE_PENALTY = 4;
+const LATENCY_SMOOTHING = 0.2;
+const ERROR_RATE_SMOOTHING = 0.1;
+
+/**
+ * RPC endpoints from config (SOLANA_RPC_ENDPOINTS / RPC_ENDPOINTS_FILE), each with its own
+ * request budget, weight and auth headers. Every request goes to the healthiest endpoint,
+ * scored by latency, error rate and slot lag behind the most advanced endpoint. Endpoints that
+ * keep failing are quarantined and re-probed with getSlot once their quarantine runs out;
+ * endpoints that sit idle are probed every `healthCheckInterval` so their scores stay current.
+ */
+export class RpcEndpointPool {
+  constructor(definitions = config.solana.endpoints, options = {}) {
+    this.logger = new Logger(config.logging.level);
+    this.healthCheckInterval = options.healthCheckInterval || config.rpcPool.healthCheckInterval;
+    this.failureThreshold = options.failureThreshold || config.rpcPool.failureThreshold;
+    this.quarantineDuration = options.quarantineDuration || config.rpcPool.quarantineDuration;
+    this.maxQuarantineDuration = options.maxQuarantineDuration || config.rpcPool.maxQuarantineDuration;
+
+    if (!definitions || definitions.length === 0) {
+      throw new Error('RPC endpoint pool needs at least one endpoint');
+    }
+    this.endpoints = definitions.map((definition, index) => this.createEndpoint(definition, index));
+    this.highestSlot = null;
+  }
+
+  createEndpoint(definition, index) {
+    const requestDelay = definition.requestDelay ?? config.solana.requestDelay;
+    return {
+      name: definition.name || `endpoint-${index + 1}`,
+      url: definition.url,
+      weight: definition.weight || 1,
+      maxRequestsPerSecond: definition.maxRequestsPerSecond || config.solana.maxRequestsPerSecond,
+      requestDelay,
+      transport: definition.transport || createRpcTransport(definition.url, { headers: definition.headers }),
+
+      // Request budget
+      throttleQueue: Promise.resolve(),
+      rateLimitDelay: requestDelay,
+      lastRequestTime: 0,
+      requestCount: 0,
+      requestWindowStart: Date.now(),
+
+      // Health
+      latencyMs: null,
+      errorRate: 0,
+      slot: null,
+      requests: 0,
+      failures: 0,
+      rateLimited: 0,
+      consecutiveFailures: 0,
+      lastError: null,
+      lastCheckedAt: 0,
+      quarantinedUntil: null,
+      quarantineCount: 0,
+      probing: false,
+    };
+  }
+
+  /**
+   * Calls a transport method on the healthiest endpoint, within that endpoint's request budget.
+   * @param {string} method - RpcTransport method, e.g. 'getBlock'
+   * @param {...any} args - Arguments for the method
+   * @returns {Promise<any>} The RPC result; errors are rethrown after being recorded
+   */
+  request(method, ...args) {
+    return this.execute(this.select(), method, args);
+  }
+
+  async execute(endpoint, method, args) {
+    await this.throttle(endpoint);
+    const startTime = Date.now();
+
+    try {
+      const result = await endpoint.transport[method](...args);
+      this.recordSuccess(endpoint, Date.now() - startTime);
+      if (method === 'getSlot') {
+        this.recordSlot(endpoint, result);
+      }
+      return result;
+    } catch (error) {
+      if (this.isEndpointFailure(error)) {
+        this.recordFailure(endpoint, error);
+      } else {
+        this.recordSuccess(endpoint, Date.now() - startTime);
+      }
+      throw error;
+    }
+  }
+
+  select() {
+    const now = Date.now();
+    for (const endpoint of this.endpoints) {
+      if (this.needsProbe(endpoint, now)) {
+        this.probe(endpoint);
+      }
+    }
+
+    // With every endpoint quarantined, the best of them still beats not sending the request
+    const available = this.endpoints.filter(endpoint => endpoint.quarantinedUntil === null);
+    const candidates = available.length > 0 ? available : this.endpoints;
+    return candidates.reduce((best, endpoint) => this.score(endpoint) < this.score(best) ? endpoint : best);
+  }
+
+  // Lower is better; endpoints without a latency sample yet score 0 so they get tried
+  score(endpoint) {
+    const latency = endpoint.latencyMs ?? 0;
+    const slotLag = this.getSlotLag(endpoint) ?? 0;
+    return (latency + slotLag * SLOT_LAG_PENALTY_MS) * (1 + ERROR_RATE_PENALTY * endpoint.errorRate) / endpoint.weight;
+  }
+
+  getSlotLag(endpoint) {
+    if (endpoint.slot === null || this.highestSlot === null) {
+      return null;
+    }
+    return this.highestSlot - endpoint.slot;
+  }
+
+  needsProbe(endpoint, now) {
+    // Replayed responses have no health to measure, and probing would consume recorded getSlot answers
+    if (endpoint.probing || endpoint.transport.mode === 'replay') {
+      return false;
+    }
+    if (endpoint.quarantinedUntil !== null) {
+      return now >= endpoint.quarantinedUntil;
+    }
+    return this.endpoints.length > 1 && now - endpoint.lastCheckedAt >= this.healthCheckInterval;
+  }
+
+  async probe(endpoint) {
+    endpoint.probing = true;
+    try {
+      await this.execute(endpoint, 'getSlot', []);
+      if (endpoint.quarantinedUntil !== null) {
+        this.release(endpoint);
+      }
+    } catch (error) {
+      // A quarantined endpoint that still fails stays out for longer
+      this.logger.debug('RPC endpoint probe failed', { endpoint: endpoint.name, error: error.message });
+      if (endpoint.quarantinedUntil !== null) {
+        this.quarantine(endpoint);
+      }
+    } finally {
+      endpoint.probing = false;
+    }
+  }
+
+  recordSuccess(endpoint, latencyMs) {
+    endpoint.requests++;
+    endpoint.lastCheckedAt = Date.now();
+    endpoint.consecutiveFailures = 0;
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : endpoint.latencyMs + LATENCY_SMOOTHING * (latencyMs - endpoint.latencyMs);
+    endpoint.errorRate *= 1 - ERROR_RATE_SMOOTHING;
+    // Ease back to the configured delay after a rate limit
+    endpoint.rateLimitDelay = Math.max(endpoint.requestDelay, endpoint.rateLimitDelay * 0.9);
+  }
+
+  recordFailure(endpoint, error) {
+    endpoint.requests++;
+    endpoint.failures++;
+    endpoint.lastCheckedAt = Date.now();
+    endpoint.consecutiveFailures++;
+    endpoint.errorRate += ERROR_RATE_SMOOTHING * (1 - endpoint.errorRate);
+    endpoint.lastError = error.message;
+
+    if (this.isRateLimitError(error)) {
+      endpoint.rateLimited++;
+      endpoint.rateLimitDelay = Math.min(
+        Math.max(endpoint.rateLimitDelay, 1) * config.solana.rateLimitBackoffMultiplier,
+        config.solana.maxRateLimitDelay
+      );
+    }
+
+    if (endpoint.quarantinedUntil === null && endpoint.consecutiveFailures >= this.failureThreshold) {
+      this.quarantine(endpoint);
+    }
+  }
+
+  recordSlot(endpoint, slot) {
+    endpoint.slot = slot;
+    if (this.highestSlot === null || slot > this.highestSlot) {
+      this.highestSlot = slot;
+    }
+  }
+
+  quarantine(endpoint) {
+    endpoint.quarantineCount++;
+    const duration = Math.min(
+      this.quarantineDuration * Math.pow(2, endpoint.quarantineCount - 1),
+      this.maxQuarantineDuration
+    );
+    endpoint.quarantinedUntil = Date.now() + duration;
+
+    this.logger.warn('RPC endpoint quarantined', {
+      endpoint: endpoint.name,
+      duration,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      lastError: endpoint.lastError
+    });
+  }
+
+  release(endpoint) {
+    endpoint.quarantinedUntil = null;
+    endpoint.quarantineCount = 0;
+    endpoint.rateLimitDelay = endpoint.requestDelay;
+    this.logger.info('RPC endpoint back in rotation', { endpoint: endpoint.name, latencyMs: endpoint.latencyMs });
+  }
+
+  isEndpointFailure(error) {
+    return typeof error.code !== 'number' || error.code === NODE_UNHEALTHY_ERROR_CODE;
+  }
+
+  isRateLimitError(error) {
+    return Boolean(error.message && (error.message.includes('429') || error.message.includes('Too Many Requests')));
+  }
+
+  // Concurrent callers are queued so each one sees the budget left by the previous request
+  throttle(endpoint) {
+    if (!endpoint.transport.isRateLimited) {
+      return Promise.resolve();
+    }
+    const turn = endpoint.throttleQueue.then(() => this.waitForRequestSlot(endpoint));
+    endpoint.throttleQueue = turn.catch(() => {});
+    return turn;
+  }
+
+  async waitForRequestSlot(endpoint) {
+    const now = Date.now();
+
+    // Reset request count if window has passed
+    if (now - endpoint.requestWindowStart >= 1000) {
+      endpoint.requestCount = 0;
+      endpoint.requestWindowStart = now;
+    }
+
+    // Check if we're within the endpoint's rate limit
+    if (endpoint.requestCount >= endpoint.maxRequestsPerSecond) {
+      const waitTime = 1000 - (now - endpoint.requestWindowStart);
+      if (waitTime > 0) {
+        this.logger.debug('Rate limit reached, waiting', { endpoint: endpoint.name, waitTime, requestCount: endpoint.requestCount });
+        await this.sleep(waitTime);
+        return this.waitForRequestSlot(endpoint);
+      }
+    }
+
+    // Ensure minimum delay between requests
+    const timeSinceLastRequest = now - endpoint.lastRequestTime;
+    if (timeSinceLastRequest < endpoint.rateLimitDelay) {
+      await this.sleep(endpoint.rateLimitDelay - timeSinceLastRequest);
+    }
+
+    endpoint.lastRequestTime = Date.now();
+    endpoint.requestCount++;
+  }
+
+  // Pool state for diagnostics; URLs are cut to their origin since providers put API keys in the path or query
+  getState() {
+    const now = Date.now();
+    const selected = this.endpoints.filter(endpoint => endpoint.quarantinedUntil === null)
+      .reduce((best, endpoint) => !best || this.score(endpoint) < this.score(best) ? endpoint : best, null);
+
+    return {
+      highestSlot: this.highestSlot,
+      selected: selected ? selected.name : null,
+      endpoints: this.endpoints.map(endpoint => ({
+        name: endpoint.name,
+        url: this.redactUrl(endpoint.url),
+        transport: endpoint.transport.mode,
+        status: endpoint.quarantinedUntil === null ? 'healthy' : endpoint.probing ? 'probing' : 'quarantined',
+        quarantinedForMs: endpoint.quarantinedUntil === null ? null : Math.max(endpoint.quarantinedUntil - now, 0),
+        score: Math.round(this.score(endpoint)),
+        weight: endpoint.weight,
+        maxRequestsPerSecond: endpoint.maxRequestsPerSecond,
+        rateLimitDelay: Math.round(endpoint.rateLimitDelay),
+        latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+        errorRate: Number(endpoint.errorRate.toFixed(3)),
+        slot: endpoint.slot,
+        slotLag: this.getSlotLag(endpoint),
+        requests: endpoint.requests,
+        failures: endpoint.failures,
+        rateLimited: endpoint.rateLimited,
+        consecutiveFailures: endpoint.consecutiveFailures,
+        lastError: endpoint.lastError,
+        lastCheckedAt: endpoint.lastCheckedAt || null,
+      })),
+    };
+  }
+
+  redactUrl(url) {
+    try {
+      const parsed = new URL(url);
+      return parsed.pathname !== '/' || parsed.search ? `${parsed.origin}/…` : parsed.origin;
+    } catch (error) {
+      return url;
+    }
+  }
+
+  sleep(ms) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -1,68 +1,47 @@
-import { Connection, PublicKey } from '@solana/web3.js';
 import { config } from '../config/index.js';
 import { Logger } from './logger.js';
+import { OrderedFetchPipeline, FetchError } from './fetchPipeline.js';
+import { RpcEndpointPool } from './rpcEndpointPool.js';
+
+// getBlock errors for slots that were skipped by the leader or pruned from long-term storage
+const SKIPPED_SLOT_ERROR_CODES = [-32007, -32009];
+export const SIGNATURE_PAGE_LIMIT = 1000;
+
+// How historical slots are covered: every full block, or only transactions listed by the
+// address signature index for the mint and its pools
+export const BACKFILL_STRATEGIES = ['block-scan', 'signature-index'];
 
 export class SolanaRPCService {
-  constructor() {
+  // `options.endpointPool` shares endpoints and their request budgets between services;
+  // `options.transport` runs against a single given transport, e.g. a replay transport in tests;
+  // `options.blockSource` (a BlockIngestionService) supplies blocks shared with other sessions
+  constructor(options = {}) {
     this.logger = new Logger(config.logging.level);
     this.currentSlot = null;
     this.isRunning = false;
     this.retryCount = 0;
-    this.rateLimitDelay = config.solana.requestDelay;
-    this.lastRequestTime = 0;
-    this.requestCount = 0;
-    this.requestWindowStart = Date.now();
     this.consecutiveRateLimitErrors = 0;
-    
-    // Fallback RPC endpoints
-    this.rpcEndpoints = [
-      config.solana.rpcUrl,
-      'https://solana-api.projectserum.com',
-      'https://rpc.ankr.com/solana',
-      'https://mainnet.rpcpool.com',
-    ];
-    this.currentRpcIndex = 0;
-    
-    this.connection = new Connection(this.rpcEndpoints[this.currentRpcIndex], {
-      commitment: config.solana.commitment,
-      confirmTransactionInitialTimeout: 60000,
-    });
-  }
+    this.onSlotProcessed = null;
+    this.fetchPipeline = new OrderedFetchPipeline();
+    this.blockSource = options.blockSource || null;
+    this.addedBackfillAddresses = null;
 
-  switchRpcEndpoint() {
-    this.currentRpcIndex = (this.currentRpcIndex + 1) % this.rpcEndpoints.length;
-    const newEndpoint = this.rpcEndpoints[this.currentRpcIndex];
-    
-    this.logger.warn('Switching RPC endpoint due to rate limiting', {
-      newEndpoint,
-      endpointIndex: this.currentRpcIndex,
-      totalEndpoints: this.rpcEndpoints.length
-    });
-    
-    this.connection = new Connection(newEndpoint, {
-      commitment: config.solana.commitment,
-      confirmTransactionInitialTimeout: 60000,
-    });
-    
-    // Reset rate limiting state for new endpoint
-    this.rateLimitDelay = config.solana.requestDelay;
-    this.consecutiveRateLimitErrors = 0;
-    this.requestCount = 0;
-    this.requestWindowStart = Date.now();
+    this.endpointPool = options.endpointPool || new RpcEndpointPool(
+      options.transport ? [{ name: 'transport', url: options.transport.endpoint, transport: options.transport }] : undefined
+    );
   }
 
   async initialize() {
     try {
-      await this.throttleRequest();
-      this.currentSlot = await this.connection.getSlot();
+      this.currentSlot = this.blockSource
+        ? await this.blockSource.getLatestSlot()
+        : await this.endpointPool.request('getSlot');
       this.logger.info('RPC Service initialized', { 
         currentSlot: this.currentSlot,
-        rpcUrl: this.rpcEndpoints[this.currentRpcIndex],
-        rateLimitSettings: {
-          maxRequestsPerSecond: config.solana.maxRequestsPerSecond,
-          requestDelay: config.solana.requestDelay,
-          slotPollInterval: config.solana.slotPollInterval
-        }
+        endpoints: this.endpointPool.getState().endpoints.map(({ name, url, transport, maxRequestsPerSecond }) => ({
+          name, url, transport, maxRequestsPerSecond
+        })),
+        slotPollInterval: config.solana.slotPollInterval
       });
       return true;
     } catch (error) {
@@ -71,58 +50,50 @@ export class SolanaRPCService {
     }
   }
 
-  async throttleRequest() {
-    const now = Date.now();
-    
-    // Reset request count if window has passed
-    if (now - this.requestWindowStart >= 1000) {
-      this.requestCount = 0;
-      this.requestWindowStart = now;
-    }
-    
-    // Check if we're within rate limits
-    if (this.requestCount >= config.solana.maxRequestsPerSecond) {
-      const waitTime = 1000 - (now - this.requestWindowStart);
-      if (waitTime > 0) {
-        this.logger.debug('Rate limit reached, waiting', { waitTime, requestCount: this.requestCount });
-        await this.sleep(waitTime);
-        return this.throttleRequest(); // Recursive call after waiting
+  // `onSlotProcessed(slot)` is called once a slot has been fully handled (or was empty),
+  // so callers can record how far the scan got. `backfill` picks how slots before the
+  // current one are covered; see BACKFILL_STRATEGIES.
+  async startSlotPolling(onNewBlock, startingBlock = null, onSlotProcessed = null, backfill = { strategy: 'block-scan', addresses: [] }) {
+    this.isRunning = true;
+    this.onSlotProcessed = onSlotProcessed;
+    this.logger.info('Starting slot polling with historical backfill', { startingBlock, backfillStrategy: backfill.strategy });
+
+    // A shared block source covers the block scan and live slots; only a signature-index
+    // backfill is specific to this session
+    if (this.blockSource) {
+      let fromSlot = this.currentSlot + 1;
+      if (startingBlock && startingBlock <= this.currentSlot) {
+        if (backfill.strategy === 'signature-index') {
+          await this.backfillBySignatures(backfill.addresses, startingBlock, this.currentSlot, onNewBlock);
+        } else {
+          fromSlot = startingBlock;
+        }
       }
+      await this.followBlockSource(fromSlot, onNewBlock);
+      return;
     }
-    
-    // Ensure minimum delay between requests
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    if (timeSinceLastRequest < this.rateLimitDelay) {
-      const waitTime = this.rateLimitDelay - timeSinceLastRequest;
-      await this.sleep(waitTime);
-    }
-    
-    this.lastRequestTime = Date.now();
-    this.requestCount++;
-  }
-
-  async startSlotPolling(onNewBlock, startingBlock = null) {
-    this.isRunning = true;
-    this.logger.info('Starting slot polling with historical block scanning', { startingBlock });
 
     // If starting block is specified, start from there instead of current slot
-    if (startingBlock && startingBlock < this.currentSlot) {
+    if (startingBlock && startingBlock <= this.currentSlot) {
       this.logger.info('Starting historical block scan', { 
         startingBlock, 
         currentSlot: this.currentSlot,
         blocksToScan: this.currentSlot - startingBlock 
       });
       
-      // Scan historical blocks first
-      await this.scanHistoricalBlocks(startingBlock, this.currentSlot, onNewBlock);
+      // Backfill history first, up to and including the slot polling continues from
+      if (backfill.strategy === 'signature-index') {
+        await this.backfillBySignatures(backfill.addresses, startingBlock, this.currentSlot, onNewBlock);
+      } else {
+        await this.scanHistoricalBlocks(startingBlock, this.currentSlot + 1, onNewBlock);
+      }
     }
 
     // Continue with normal slot polling for new blocks
     while (this.isRunning) {
       try {
         const startTime = Date.now();
-        await this.throttleRequest();
-        const latestSlot = await this.connection.getSlot();
+        const latestSlot = await this.endpointPool.request('getSlot');
         
         if (latestSlot > this.currentSlot) {
           // Process slots with very conservative limits
@@ -138,15 +109,8 @@ export class SolanaRPCService {
             totalSlotsAvailable: latestSlot - this.currentSlot
           });
           
-          for (let i = 0; i < slotsToProcess; i++) {
-            const slot = this.currentSlot + 1 + i;
-            await this.processSlot(slot, onNewBlock);
-            
-            // Add longer delay between slot processing
-            if (i < slotsToProcess - 1) {
-              await this.sleep(config.solana.slotProcessingDelay);
-            }
-          }
+          const slots = Array.from({ length: slotsToProcess }, (_, i) => this.currentSlot + 1 + i);
+          await this.processSlots(slots, onNewBlock);
           this.currentSlot = this.currentSlot + slotsToProcess;
         }
 
@@ -161,51 +125,88 @@ export class SolanaRPCService {
         await this.sleep(config.solana.slotPollInterval);
 
       } catch (error) {
+        // Retrying the batch would deliver its earlier slots again; a slot that can't be read ends the scan
+        if (error instanceof FetchError) {
+          throw error;
+        }
+        await this.handleRetry(error);
+      }
+    }
+  }
+
+  // Reads the shared block stream from `fromSlot` on, a batch at a time, catching up with
+  // history first and then following new slots as they appear
+  async followBlockSource(fromSlot, onNewBlock) {
+    let nextSlot = fromSlot;
+
+    while (this.isRunning) {
+      try {
+        const latestSlot = await this.blockSource.getLatestSlot();
+
+        if (latestSlot >= nextSlot) {
+          const endSlot = Math.min(latestSlot, nextSlot + config.ingestion.batchSlots - 1);
+          const slotsBehind = latestSlot - endSlot;
+          this.logger[slotsBehind > 0 ? 'info' : 'debug']('Processing shared blocks', {
+            fromSlot: nextSlot,
+            toSlot: endSlot,
+            slotsBehind
+          });
+
+          await this.blockSource.streamSlots(
+            nextSlot,
+            endSlot,
+            (block, slot) => this.deliverBlock(block, slot, onNewBlock),
+            () => this.isRunning
+          );
+          this.currentSlot = endSlot;
+          nextSlot = endSlot + 1;
+
+          this.retryCount = 0;
+          this.consecutiveRateLimitErrors = 0;
+          // Catching up: go straight on with the next batch
+          if (slotsBehind > 0) {
+            continue;
+          }
+        }
+
+        await this.sleep(config.solana.slotPollInterval);
+
+      } catch (error) {
+        // Retrying the batch would deliver its earlier slots again; a slot that can't be read ends the scan
+        if (error instanceof FetchError) {
+          throw error;
+        }
         await this.handleRetry(error);
       }
     }
   }
 
   async scanHistoricalBlocks(startBlock, endBlock, onNewBlock) {
+    const totalBlocks = endBlock - startBlock;
     this.logger.info('Starting historical block scan', { 
       startBlock, 
       endBlock, 
-      totalBlocks: endBlock - startBlock,
-      estimatedTimeMinutes: Math.ceil((endBlock - startBlock) * config.solana.historicalBatchDelay / 60000)
+      totalBlocks,
+      concurrency: this.fetchPipeline.concurrency,
+      estimatedTimeMinutes: Math.ceil(totalBlocks / config.solana.maxRequestsPerSecond / 60)
     });
     
-    const totalBlocks = endBlock - startBlock;
     let processedBlocks = 0;
-    const batchSize = config.solana.historicalBatchSize; // Use configurable batch size
+    const batchSize = config.solana.historicalBatchSize; // Log progress every batch of blocks
     const startTime = Date.now();
-    
-    for (let currentBlock = startBlock; currentBlock < endBlock && this.isRunning; currentBlock += batchSize) {
-      const batchEnd = Math.min(currentBlock + batchSize, endBlock);
-      
-      this.logger.info('Processing historical block batch', {
-        batchStart: currentBlock,
-        batchEnd,
-        batchSize: batchEnd - currentBlock,
-        progress: `${processedBlocks}/${totalBlocks} (${((processedBlocks / totalBlocks) * 100).toFixed(1)}%)`,
-        elapsedMinutes: ((Date.now() - startTime) / 60000).toFixed(1)
-      });
-      
-      // Process blocks in this batch
-      for (let block = currentBlock; block < batchEnd && this.isRunning; block++) {
-        await this.processSlot(block, onNewBlock);
-        processedBlocks++;
-        
-        // Add delay between blocks to respect rate limits
-        if (block < batchEnd - 1) {
-          await this.sleep(config.solana.slotProcessingDelay);
-        }
-      }
-      
-      // Add longer delay between batches to be extra conservative
-      if (batchEnd < endBlock) {
-        await this.sleep(config.solana.historicalBatchDelay);
+    const slots = Array.from({ length: totalBlocks }, (_, i) => startBlock + i);
+
+    await this.processSlots(slots, onNewBlock, () => {
+      processedBlocks++;
+      if (processedBlocks % batchSize === 0) {
+        this.logger.info('Processing historical blocks', {
+          processedBlocks,
+          progress: `${processedBlocks}/${totalBlocks} (${((processedBlocks / totalBlocks) * 100).toFixed(1)}%)`,
+          elapsedMinutes: ((Date.now() - startTime) / 60000).toFixed(1),
+          fetch: this.fetchPipeline.getStats()
+        });
       }
-    }
+    });
     
     const totalTimeMinutes = ((Date.now() - startTime) / 60000).toFixed(1);
     this.logger.info('Historical block scan completed', { 
@@ -213,18 +214,224 @@ export class SolanaRPCService {
       totalBlocks,
       totalTimeMinutes,
       currentSlot: this.currentSlot,
+      fetch: this.fetchPipeline.getStats(),
       averageTimePerBlock: (totalTimeMinutes / processedBlocks).toFixed(3) + ' minutes'
     });
   }
 
-  async processSlot(slot, onNewBlock) {
+  // Fetches the slots concurrently but hands blocks to `onNewBlock` one at a time in slot order,
+  // which keeps buy numbering identical to a sequential scan
+  async processSlots(slots, onNewBlock, onDelivered = null) {
+    await this.fetchPipeline.run(
+      slots,
+      slot => this.fetchBlock(slot),
+      async (block, slot) => {
+        await this.deliverBlock(block, slot, onNewBlock);
+        if (onDelivered) {
+          onDelivered(slot);
+        }
+      },
+      () => this.isRunning
+    );
+  }
+
+  /**
+   * Backfills [startSlot, endSlot] from the address signature index instead of full blocks.
+   * Transactions are fetched concurrently and regrouped per slot, so `onNewBlock` sees the
+   * same oldest-to-newest sequence a block scan would produce, minus unrelated transactions.
+   * Addresses passed to `addBackfillAddress` while it runs, such as the pool a bonding curve
+   * migrated to, are indexed from the next slot on and merged into the slots still to come.
+   * @param {string[]} addresses - The mint and, optionally, pool addresses to index
+   * @param {number} startSlot - First slot to include
+   * @param {number} endSlot - Last slot to include
+   * @param {Function} onNewBlock - Receives a `{ blockTime, transactions }` pseudo-block per slot
+   */
+  async backfillBySignatures(addresses, startSlot, endSlot, onNewBlock) {
+    const startTime = Date.now();
+    this.logger.info('Starting signature-index backfill', { addresses, startSlot, endSlot });
+
+    const indexedAddresses = new Set(addresses);
+    this.addedBackfillAddresses = [];
+    let signatures = await this.collectSignatures(addresses, startSlot, endSlot);
+    let signatureCount = signatures.length;
+    this.logger.info('Signatures collected for backfill', {
+      signatures: signatures.length,
+      slots: new Set(signatures.map(entry => entry.slot)).size
+    });
+
+    let pendingBlock = null;
+    let deliveredSlot = startSlot - 1;
+    const flush = async () => {
+      if (pendingBlock) {
+        const { slot, ...block } = pendingBlock;
+        pendingBlock = null;
+        deliveredSlot = slot;
+        await this.deliverBlock(block, slot, onNewBlock);
+      }
+    };
+
+    try {
+      while (signatures.length > 0 && this.isRunning) {
+        // The first signature not yet taken when an address was added during the last slot
+        let resumeAt = null;
+
+        await this.fetchPipeline.run(
+          signatures,
+          entry => this.fetchTransaction(entry.signature),
+          async (transaction, entry) => {
+            if (pendingBlock && pendingBlock.slot !== entry.slot) {
+              await flush();
+              if (this.addedBackfillAddresses.length > 0) {
+                resumeAt = entry;
+                return;
+              }
+            }
+            if (!pendingBlock) {
+              pendingBlock = { slot: entry.slot, blockTime: entry.blockTime, transactions: [] };
+            }
+            if (transaction) {
+              pendingBlock.transactions.push(transaction);
+            }
+          },
+          () => this.isRunning && resumeAt === null
+        );
+
+        // A slot cut short by stop() is left out so checkpoints only cover complete slots
+        if (resumeAt === null && this.isRunning) {
+          await flush();
+        }
+        if (!this.isRunning || this.addedBackfillAddresses.length === 0) {
+          break;
+        }
+
+        // Slots up to the one just delivered are done; the new addresses join from the next one
+        const added = this.addedBackfillAddresses.filter(address => !indexedAddresses.has(address));
+        this.addedBackfillAddresses = [];
+        added.forEach(address => indexedAddresses.add(address));
+        const remaining = resumeAt ? signatures.slice(signatures.indexOf(resumeAt)) : [];
+        const fromSlot = deliveredSlot + 1;
+        const addedSignatures = added.length > 0 ? await this.collectSignatures(added, fromSlot, endSlot) : [];
+        signatures = this.mergeSignatures([remaining, addedSignatures]);
+        signatureCount += signatures.length - remaining.length;
+
+        this.logger.info('Addresses added to signature-index backfill', {
+          addresses: added,
+          fromSlot,
+          signatures: signatures.length - remaining.length
+        });
+      }
+    } finally {
+      this.addedBackfillAddresses = null;
+    }
+
+    this.logger.info('Signature-index backfill completed', {
+      signatures: signatureCount,
+      totalTimeMinutes: ((Date.now() - startTime) / 60000).toFixed(1),
+      fetch: this.fetchPipeline.getStats()
+    });
+  }
+
+  // getSignaturesForAddress pages from newest to oldest, so walk back until startSlot and
+  // return the merged list oldest first
+  async collectSignatures(addresses, startSlot, endSlot) {
+    const lists = [];
+
+    for (const address of addresses) {
+      const entries = [];
+      let before;
+
+      while (this.isRunning) {
+        const { result: page, error } = await this.fetchPipeline.fetchWithRetry(address, () =>
+          this.fetchSignaturePage(address, before)
+        );
+        if (error) {
+          throw error;
+        }
+
+        let reachedStart = false;
+        for (const info of page) {
+          if (info.slot < startSlot) {
+            reachedStart = true;
+            break;
+          }
+          if (info.slot <= endSlot && !info.err) {
+            entries.push({ signature: info.signature, slot: info.slot, blockTime: info.blockTime });
+          }
+        }
+
+        this.logger.debug('Signature page fetched', { address, pageSize: page.length, collected: entries.length });
+
+        if (reachedStart || page.length < SIGNATURE_PAGE_LIMIT) {
+          break;
+        }
+        before = page[page.length - 1].signature;
+      }
+
+      this.logger.info('Signatures collected for address', { address, signatures: entries.length });
+      lists.push(entries.reverse());
+    }
+
+    return this.mergeSignatures(lists);
+  }
+
+  // Pools and the mint often list the same transaction; keep one, ordered by slot
+  mergeSignatures(lists) {
+    const seen = new Set();
+    return lists.flat()
+      .filter(entry => !seen.has(entry.signature) && seen.add(entry.signature))
+      .sort((a, b) => a.slot - b.slot);
+  }
+
+  // Only a signature-index backfill that is running takes new addresses; later slots are
+  // covered by block polling, which sees every transaction anyway
+  addBackfillAddress(address) {
+    if (this.addedBackfillAddresses) {
+      this.addedBackfillAddresses.push(address);
+    }
+  }
+
+  async fetchSignaturePage(address, before) {
+    return this.endpointPool.request('getSignaturesForAddress', address, {
+      before,
+      limit: SIGNATURE_PAGE_LIMIT,
+    });
+  }
+
+  async fetchTransaction(signature) {
+    return this.endpointPool.request('getTransaction', signature, {
+      maxSupportedTransactionVersion: 0,
+    });
+  }
+
+  // Current supply of a mint in base units, or null when it can't be fetched
+  async getTokenSupply(mint) {
     try {
-      const startTime = Date.now();
-      await this.throttleRequest();
-      const block = await this.connection.getBlock(slot, {
+      const { value } = await this.endpointPool.request('getTokenSupply', mint);
+      return { amount: value.amount, decimals: value.decimals };
+    } catch (error) {
+      this.logger.warn('Failed to fetch token supply', { mint, error: error.message });
+      return null;
+    }
+  }
+
+  // Returns null for slots without a block; throws on RPC errors so the pipeline can retry
+  async fetchBlock(slot) {
+    try {
+      return await this.endpointPool.request('getBlock', slot, {
         maxSupportedTransactionVersion: 0,
         transactionDetails: 'full',
       });
+    } catch (error) {
+      if (SKIPPED_SLOT_ERROR_CODES.includes(error.code)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async deliverBlock(block, slot, onNewBlock) {
+    try {
+      const startTime = Date.now();
 
       if (block && block.transactions) {
         await onNewBlock(block, slot);
@@ -237,6 +444,10 @@ export class SolanaRPCService {
           });
         }
       }
+
+      if (this.onSlotProcessed) {
+        this.onSlotProcessed(slot);
+      }
     } catch (error) {
       this.logger.error('Error processing slot', { slot, error: error.message });
       // Don't throw here to avoid stopping the entire polling loop
@@ -250,27 +461,12 @@ export class SolanaRPCService {
     if (error.message && error.message.includes('429')) {
       this.consecutiveRateLimitErrors++;
       
+      // The endpoint pool slows down or quarantines the endpoint itself; this only paces the poll loop
       this.logger.warn('Rate limit hit, implementing aggressive backoff', { 
         attempt: this.retryCount,
-        consecutiveRateLimitErrors: this.consecutiveRateLimitErrors,
-        currentDelay: this.rateLimitDelay 
+        consecutiveRateLimitErrors: this.consecutiveRateLimitErrors
       });
       
-      // Switch RPC endpoint if we've hit rate limits too many times
-      if (this.consecutiveRateLimitErrors >= 3) {
-        this.switchRpcEndpoint();
-        this.consecutiveRateLimitErrors = 0;
-        this.retryCount = 0;
-        await this.sleep(5000); // Wait 5 seconds after switching
-        return;
-      }
-      
-      // More aggressive rate limit delay increase
-      this.rateLimitDelay = Math.min(
-        this.rateLimitDelay * config.solana.rateLimitBackoffMultiplier,
-        config.solana.maxRateLimitDelay
-      );
-      
       // Calculate delay with consecutive error multiplier
       const baseDelay = config.solana.retryDelay * Math.pow(2, this.retryCount - 1);
       const consecutiveMultiplier = Math.pow(2, this.consecutiveRateLimitErrors - 1);
@@ -328,21 +524,28 @@ export class SolanaRPCService {
       postBalanceMap.set(key, balance);
     });
 
-    // Find changes
-    for (const [key, postBalance] of postBalanceMap) {
-      const preBalance = preBalanceMap.get(key) || { uiTokenAmount: { amount: '0' } };
-      const preAmount = BigInt(preBalance.uiTokenAmount.amount);
-      const postAmount = BigInt(postBalance.uiTokenAmount.amount);
+    // Find changes. Accounts closed in the transaction only appear in the pre balances,
+    // so walk the union of both maps and treat a missing side as zero.
+    const keys = new Set([...preBalanceMap.keys(), ...postBalanceMap.keys()]);
+    for (const key of keys) {
+      const preBalance = preBalanceMap.get(key);
+      const postBalance = postBalanceMap.get(key);
+      const balance = postBalance || preBalance;
+      const preAmount = BigInt(preBalance ? preBalance.uiTokenAmount.amount : '0');
+      const postAmount = BigInt(postBalance ? postBalance.uiTokenAmount.amount : '0');
       const delta = postAmount - preAmount;
 
       if (delta !== 0n) {
         changes.push({
-          mint: postBalance.mint,
-          accountIndex: postBalance.accountIndex,
+          mint: balance.mint,
+          accountIndex: balance.accountIndex,
+          owner: balance.owner || null,
+          // Token or Token-2022; older RPC nodes leave it out
+          tokenProgram: balance.programId || null,
           preAmount: preAmount.toString(),
           postAmount: postAmount.toString(),
           delta: delta.toString(),
-          decimals: postBalance.uiTokenAmount.decimals,
+          decimals: balance.uiTokenAmount.decimals,
         });
       }
     }
@@ -0,0 +1,175 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/index.js';
+
+// 'live' talks to the RPC endpoint, 'record' also saves every response as a fixture and
+// 'replay' answers from saved fixtures without touching the network
+export const RPC_TRANSPORT_MODES = ['live', 'record', 'replay'];
+
+/**
+ * The RPC calls SolanaRPCService makes, served through a web3.js Connection. Recording and
+ * replay happen underneath the Connection at the JSON-RPC level, so a replayed block is parsed
+ * by web3.js exactly like the live one was.
+ */
+export class RpcTransport {
+  // `headers` are sent with every request, e.g. an Authorization header for a paid endpoint
+  constructor(endpoint, { mode = 'live', fetch = undefined, headers = undefined } = {}) {
+    this.endpoint = endpoint;
+    this.mode = mode;
+    this.connection = new Connection(endpoint, {
+      commitment: config.solana.commitment,
+      confirmTransactionInitialTimeout: 60000,
+      // Surface 429s instead of retrying inside web3.js, so our own backoff can react
+      disableRetryOnRateLimit: true,
+      fetch,
+      httpHeaders: headers,
+    });
+  }
+
+  // Replayed responses don't count against any endpoint's rate limit
+  get isRateLimited() {
+    return this.mode !== 'replay';
+  }
+
+  getSlot() {
+    return this.connection.getSlot();
+  }
+
+  getBlock(slot, options) {
+    return this.connection.getBlock(slot, options);
+  }
+
+  getTransaction(signature, options) {
+    return this.connection.getTransaction(signature, options);
+  }
+
+  getSignaturesForAddress(address, options) {
+    return this.connection.getSignaturesForAddress(new PublicKey(address), options);
+  }
+
+  getTokenSupply(mint) {
+    return this.connection.getTokenSupply(new PublicKey(mint));
+  }
+
+  getMultipleAccounts(addresses) {
+    return this.connection.getMultipleAccountsInfo(addresses.map(address => new PublicKey(address)));
+  }
+}
+
+/**
+ * JSON-RPC responses on disk, one JSON Lines file per method and parameter set. A file keeps
+ * every response in the order it was recorded; replay hands them out in the same order and
+ * repeats the last one, so repeated calls like getSlot advance the way they did live. Each
+ * response is appended as it is recorded, so a long recording holds nothing in memory and
+ * survives the process being killed.
+ */
+export class RpcFixtureStore {
+  constructor(directory) {
+    this.directory = directory;
+    this.recordedFiles = new Set();
+    this.replayed = new Map();
+    this.cursors = new Map();
+  }
+
+  fileFor(method, params) {
+    const hash = createHash('sha256').update(JSON.stringify(params ?? [])).digest('hex').slice(0, 16);
+    return path.join(this.directory, method, `${hash}.jsonl`);
+  }
+
+  // The first response recorded for a key in this run replaces any older fixture for it
+  record(method, params, response) {
+    const file = this.fileFor(method, params);
+    const line = `${JSON.stringify({ method, params, response })}\n`;
+
+    if (this.recordedFiles.has(file)) {
+      fs.appendFileSync(file, line);
+      return;
+    }
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, line);
+    this.recordedFiles.add(file);
+  }
+
+  next(method, params) {
+    const file = this.fileFor(method, params);
+    if (!this.replayed.has(file)) {
+      if (!fs.existsSync(file)) {
+        return null;
+      }
+      const lines = fs.readFileSync(file, 'utf8').split('\n').filter(Boolean);
+      this.replayed.set(file, lines.map(line => JSON.parse(line).response));
+    }
+
+    const responses = this.replayed.get(file);
+    const cursor = this.cursors.get(file) || 0;
+    this.cursors.set(file, cursor + 1);
+    return responses[Math.min(cursor, responses.length - 1)];
+  }
+}
+
+// Endpoints recording to or replaying from the same directory share one store, so the
+// order of repeated calls is kept across the whole endpoint pool
+const fixtureStores = new Map();
+
+function getFixtureStore(directory) {
+  if (!fixtureStores.has(directory)) {
+    fixtureStores.set(directory, new RpcFixtureStore(directory));
+  }
+  return fixtureStores.get(directory);
+}
+
+// fetch for web3.js that passes requests through and saves each successful JSON-RPC response
+function createRecordingFetch(store) {
+  return async (url, options) => {
+    const response = await fetch(url, options);
+    const text = await response.text();
+
+    if (response.ok) {
+      const { method, params } = JSON.parse(options.body);
+      const { jsonrpc, id, ...body } = JSON.parse(text);
+      store.record(method, params, body);
+    }
+
+    return new Response(text, { status: response.status, statusText: response.statusText });
+  };
+}
+
+// fetch for web3.js that answers from recorded responses; unrecorded calls fail like a network error
+function createReplayFetch(store) {
+  return async (url, options) => {
+    const { id, method, params } = JSON.parse(options.body);
+    const body = store.next(method, params);
+
+    if (!body) {
+      throw new Error(`No recorded RPC response for ${method} ${JSON.stringify(params)}`);
+    }
+
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id, ...body }), { status: 200 });
+  };
+}
+
+/**
+ * Creates the transport selected by config (RPC_TRANSPORT and RPC_FIXTURE_DIR).
+ * @param {string} endpoint - RPC endpoint URL; only contacted in live and record mode
+ * @param {Object} options - `mode` and `fixtureDirectory`, defaulting to config.rpcTransport,
+ *   and `headers` for the endpoint
+ * @returns {RpcTransport}
+ */
+export function createRpcTransport(endpoint, options = {}) {
+  const mode = options.mode || config.rpcTransport.mode;
+  const fixtureDirectory = options.fixtureDirectory || config.rpcTransport.fixtureDirectory;
+  const { headers } = options;
+
+  switch (mode) {
+    case 'live':
+      return new RpcTransport(endpoint, { headers });
+    case 'record':
+      return new RpcTransport(endpoint, { mode, headers, fetch: createRecordingFetch(getFixtureStore(fixtureDirectory)) });
+    case 'replay':
+      return new RpcTransport(endpoint, { mode, fetch: createReplayFetch(getFixtureStore(fixtureDirectory)) });
+    default:
+      throw new Error(`Unknown RPC transport mode: ${mode}. Expected one of ${RPC_TRANSPORT_MODES.join(', ')}`);
+  }
+}
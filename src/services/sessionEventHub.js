@@ -0,0 +1,97 @@
+import { Logger } from './logger.js';
+import { config } from '../config/index.js';
+
+/**
+ * Per-session event channels for pushing status changes, detections, progress and errors to
+ * clients. Every event gets a sequence number that increases within its channel, and the
+ * most recent events are kept so a reconnecting client can catch up from the last one it saw.
+ * Event ids are `<epoch>-<seq>`: the epoch changes whenever a channel is recreated (server
+ * restart, session resumed), so stale ids from an earlier channel fall back to a snapshot.
+ */
+export class SessionEventHub {
+  constructor(bufferSize = config.events.bufferSize) {
+    this.logger = new Logger(config.logging.level);
+    this.bufferSize = bufferSize;
+    this.channels = new Map();
+  }
+
+  getChannel(sessionId) {
+    let channel = this.channels.get(sessionId);
+    if (!channel) {
+      channel = { epoch: Date.now().toString(36), seq: 0, buffer: [], subscribers: new Set() };
+      this.channels.set(sessionId, channel);
+    }
+    return channel;
+  }
+
+  publish(sessionId, type, data) {
+    const channel = this.getChannel(sessionId);
+    const seq = ++channel.seq;
+    const event = { id: `${channel.epoch}-${seq}`, seq, type, data, timestamp: Date.now() };
+
+    channel.buffer.push(event);
+    if (channel.buffer.length > this.bufferSize) {
+      channel.buffer.shift();
+    }
+
+    for (const subscriber of channel.subscribers) {
+      try {
+        subscriber.listener(event);
+      } catch (error) {
+        this.logger.error('Session event listener failed', { sessionId, type, error: error.message });
+      }
+    }
+    return event;
+  }
+
+  /**
+   * Subscribes to a session's events.
+   * @param {string} sessionId - The session id
+   * @param {string|null} lastEventId - Last event id the client saw, if reconnecting
+   * @param {Function} listener - Called with every new event
+   * @param {Function} onClose - Called when the channel is closed
+   * @returns {Object} `missed` holds the buffered events after `lastEventId`, or null when the
+   *   client has to start from a fresh snapshot; `lastEventId` is the channel's latest id
+   */
+  subscribe(sessionId, lastEventId, listener, onClose = null) {
+    const channel = this.getChannel(sessionId);
+    const subscriber = { listener, onClose };
+    channel.subscribers.add(subscriber);
+
+    return {
+      missed: this.getMissedEvents(channel, lastEventId),
+      lastEventId: `${channel.epoch}-${channel.seq}`,
+      unsubscribe: () => channel.subscribers.delete(subscriber),
+    };
+  }
+
+  getMissedEvents(channel, lastEventId) {
+    const [epoch, seqText] = String(lastEventId ?? '').split('-');
+    const lastSeq = parseInt(seqText);
+
+    // Ids from another channel, or older than the buffer, can't be caught up with
+    if (epoch !== channel.epoch || Number.isNaN(lastSeq) || lastSeq > channel.seq) {
+      return null;
+    }
+    const oldestBuffered = channel.buffer.length > 0 ? channel.buffer[0].seq : channel.seq + 1;
+    if (lastSeq < oldestBuffered - 1) {
+      return null;
+    }
+    return channel.buffer.filter(event => event.seq > lastSeq);
+  }
+
+  // Ends a finished session's channel; clients that reconnect get a snapshot instead
+  closeSession(sessionId) {
+    const channel = this.channels.get(sessionId);
+    if (!channel) {
+      return;
+    }
+
+    this.channels.delete(sessionId);
+    for (const subscriber of channel.subscribers) {
+      if (subscriber.onClose) {
+        subscriber.onClose();
+      }
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { config } from '../config/index.js';
+
+// Labels a buy can get, in the order they are listed on it
+export const SNIPER_LABELS = ['launchWindow', 'sameSlot', 'jitoTip', 'sharedLayout'];
+
+// Jito's tip payment accounts; a lamport transfer to one of them buys bundle inclusion
+export const JITO_TIP_ACCOUNTS = [
+  '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5',
+  'HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe',
+  'Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY',
+  'ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49',
+  'DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh',
+  'ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt',
+  'DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL',
+  '3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT',
+];
+
+const emptyLabelCounts = () => Object.fromEntries(SNIPER_LABELS.map(label => [label, 0]));
+
+/**
+ * Flags the buys of a mint that look like sniping or bundling rather than organic buying:
+ * - `launchWindow`: placed within `config.snipers.launchWindowSlots` slots of the launch
+ * - `sameSlot`: one of at least `config.snipers.sameSlotMinWallets` wallets buying in one slot
+ * - `jitoTip`: the transaction tipped Jito for bundle inclusion
+ * - `sharedLayout`: the transaction's instruction layout is shared by at least
+ *   `config.snipers.layoutMinWallets` wallets buying within `config.snipers.layoutWindowSlots`
+ *   slots of each other, as with one script driving many wallets
+ * The analysis runs over all of a mint's buys every time, as later buys can flag earlier ones.
+ */
+export class SniperAnalyzer {
+  constructor(options = {}) {
+    this.launchWindowSlots = options.launchWindowSlots ?? config.snipers.launchWindowSlots;
+    this.sameSlotMinWallets = options.sameSlotMinWallets ?? config.snipers.sameSlotMinWallets;
+    this.layoutMinWallets = options.layoutMinWallets ?? config.snipers.layoutMinWallets;
+    this.layoutWindowSlots = options.layoutWindowSlots ?? config.snipers.layoutWindowSlots;
+  }
+
+  /**
+   * @param {Array} buys - A mint's buys in buy order
+   * @param {number|null} launchSlot - Slot the mint launched in; the first buy's when unknown
+   * @returns {{ buys: Array, summary: Object }} Copies of the buys with `sniperLabels`, and
+   *   counts of flagged buys, wallets and labels
+   */
+  analyze(buys, launchSlot = null) {
+    const slots = buys.map(buy => buy.slot).filter(slot => slot !== null && slot !== undefined);
+    const launch = launchSlot ?? (slots.length > 0 ? Math.min(...slots) : null);
+
+    const labels = new Map(buys.map(buy => [buy, new Set()]));
+    const flag = (group, label) => group.forEach(buy => labels.get(buy).add(label));
+
+    for (const buy of buys) {
+      if (launch !== null && buy.slot >= launch && buy.slot <= launch + this.launchWindowSlots) {
+        labels.get(buy).add('launchWindow');
+      }
+      if (BigInt(buy.jitoTip || '0') > 0n) {
+        labels.get(buy).add('jitoTip');
+      }
+    }
+
+    for (const group of this.groupBy(buys, buy => buy.slot).values()) {
+      if (this.countWallets(group) >= this.sameSlotMinWallets) {
+        flag(group, 'sameSlot');
+      }
+    }
+
+    for (const group of this.groupBy(buys.filter(buy => buy.instructionLayout), buy => buy.instructionLayout).values()) {
+      for (const cluster of this.clusterBySlot(group)) {
+        if (this.countWallets(cluster) >= this.layoutMinWallets) {
+          flag(cluster, 'sharedLayout');
+        }
+      }
+    }
+
+    const labeled = buys.map(buy => ({
+      ...buy,
+      sniperLabels: SNIPER_LABELS.filter(label => labels.get(buy).has(label)),
+    }));
+    return { buys: labeled, summary: this.summarize(labeled, launch) };
+  }
+
+  summarize(labeledBuys, launchSlot) {
+    const flagged = labeledBuys.filter(buy => buy.sniperLabels.length > 0);
+    const labelCounts = emptyLabelCounts();
+    flagged.forEach(buy => buy.sniperLabels.forEach(label => labelCounts[label]++));
+
+    return {
+      launchSlot,
+      buys: labeledBuys.length,
+      flaggedBuys: flagged.length,
+      wallets: this.countWallets(labeledBuys),
+      flaggedWallets: this.countWallets(flagged),
+      labels: labelCounts,
+      jitoTips: flagged.reduce((sum, buy) => sum + BigInt(buy.jitoTip || '0'), 0n).toString(),
+    };
+  }
+
+  // Totals over the labeled buys of several mints, for the session as a whole
+  combine(mintResults) {
+    const { launchSlot, ...totals } = this.summarize(mintResults.flatMap(result => result.buyers), null);
+    return totals;
+  }
+
+  groupBy(buys, key) {
+    const groups = new Map();
+    for (const buy of buys) {
+      const group = groups.get(key(buy)) || [];
+      group.push(buy);
+      groups.set(key(buy), group);
+    }
+    return groups;
+  }
+
+  // Splits buys into runs whose consecutive slots are at most layoutWindowSlots apart
+  clusterBySlot(buys) {
+    const sorted = buys.slice().sort((a, b) => a.slot - b.slot);
+    const clusters = [];
+    for (const buy of sorted) {
+      const current = clusters[clusters.length - 1];
+      if (current && buy.slot - current[current.length - 1].slot <= this.layoutWindowSlots) {
+        current.push(buy);
+      } else {
+        clusters.push([buy]);
+      }
+    }
+    return clusters;
+  }
+
+  countWallets(buys) {
+    return new Set(buys.map(buy => buy.buyer)).size;
+  }
+}
@@ -0,0 +1,134 @@
+import { parseDecimal } from '../utils/decimal.js';
+
+// Conditions a session can stop on. Amounts are met once they reach their target; `endSlot` and
+// `endTime` (unix seconds) once the stream moves past them; `durationSeconds` is wall-clock
+// tracking time. `quoteVolume` counts buys paid in the quote token of a mint's first buy.
+export const STOP_CONDITION_TYPES = ['buys', 'uniqueBuyers', 'endSlot', 'endTime', 'quoteVolume', 'durationSeconds'];
+// 'any' stops as soon as one condition is met (OR), 'all' once every condition is (AND)
+export const STOP_CONDITION_MODES = ['any', 'all'];
+export const DEFAULT_MAX_BUYS = 1000;
+
+const INTEGER_CONDITIONS = ['buys', 'uniqueBuyers', 'endSlot'];
+
+function parseEndTime(value) {
+  if (typeof value === 'number' || /^\d+$/.test(String(value))) {
+    return Number(value);
+  }
+  return Math.floor(Date.parse(value) / 1000);
+}
+
+/**
+ * Validates and normalizes stop conditions from the API, the CLI or a checkpoint. Without any
+ * condition a mint stops after DEFAULT_MAX_BUYS buys.
+ * @param {Object} spec - `mode` plus any of STOP_CONDITION_TYPES; `endTime` may be unix seconds
+ *   or a date string, numbers may be given as strings
+ * @returns {Object} `mode` and the conditions that were set, as numbers
+ * @throws {Error} When the mode or a condition is invalid
+ */
+export function normalizeStopConditions(spec = {}) {
+  if (spec === null || typeof spec !== 'object' || Array.isArray(spec)) {
+    throw new Error('stopConditions must be an object');
+  }
+
+  const mode = spec.mode || 'any';
+  if (!STOP_CONDITION_MODES.includes(mode)) {
+    throw new Error(`stopConditions.mode must be one of: ${STOP_CONDITION_MODES.join(', ')}`);
+  }
+
+  const unknown = Object.keys(spec).filter(key => key !== 'mode' && !STOP_CONDITION_TYPES.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown stop conditions: ${unknown.join(', ')}. Expected any of: ${STOP_CONDITION_TYPES.join(', ')}`);
+  }
+
+  const normalized = { mode };
+  for (const type of STOP_CONDITION_TYPES) {
+    if (spec[type] === undefined || spec[type] === null || spec[type] === '') {
+      continue;
+    }
+
+    const value = type === 'endTime' ? parseEndTime(spec[type]) : Number(spec[type]);
+    if (!Number.isFinite(value) || value <= 0 || (INTEGER_CONDITIONS.includes(type) && !Number.isInteger(value))) {
+      throw new Error(`stopConditions.${type} must be a positive ${INTEGER_CONDITIONS.includes(type) ? 'integer' : 'number'}`);
+    }
+    normalized[type] = value;
+  }
+
+  if (Object.keys(normalized).length === 1) {
+    normalized.buys = DEFAULT_MAX_BUYS;
+  }
+  return normalized;
+}
+
+/**
+ * Decides when a tracked mint is done. Every condition reports how far along it is; the leading
+ * condition is the one closest to being met in `any` mode, and the one furthest from it in `all`
+ * mode, since that one decides when tracking stops. Progress reports the leading condition.
+ */
+export class StopConditions {
+  constructor(spec = {}) {
+    this.spec = normalizeStopConditions(spec);
+    this.mode = this.spec.mode;
+    this.types = STOP_CONDITION_TYPES.filter(type => this.spec[type] !== undefined);
+  }
+
+  // Buys past the target aren't numbered, unless other conditions still have to be met as well
+  getBuyCap() {
+    if (this.spec.buys === undefined) {
+      return null;
+    }
+    return this.mode === 'any' || this.types.length === 1 ? this.spec.buys : null;
+  }
+
+  /**
+   * @param {Object} state - `buys`, `uniqueBuyers` and `quoteVolume` found so far, the `slot` and
+   *   `blockTime` the stream has reached, the `startSlot` and `startTime` it started from, and
+   *   `elapsedMs` of tracking time
+   * @returns {{ isMet: boolean, leading: Object, conditions: Object[] }}
+   */
+  evaluate(state) {
+    const conditions = this.types.map(type => this.evaluateCondition(type, state));
+    const metCount = conditions.filter(condition => condition.met).length;
+    const isMet = this.mode === 'any' ? metCount > 0 : metCount === conditions.length;
+
+    const leading = conditions.reduce((best, condition) => {
+      const closer = this.mode === 'any' ? condition.fraction > best.fraction : condition.fraction < best.fraction;
+      return closer ? condition : best;
+    });
+
+    return { isMet, leading, conditions };
+  }
+
+  evaluateCondition(type, state) {
+    const target = this.spec[type];
+    switch (type) {
+      case 'endSlot':
+        return this.evaluateSpan(type, state.slot, state.startSlot, target);
+      case 'endTime':
+        return this.evaluateSpan(type, state.blockTime, state.startTime, target);
+      case 'durationSeconds':
+        return this.evaluateAmount(type, Math.floor(state.elapsedMs / 1000), target);
+      default:
+        return this.evaluateAmount(type, state[type], target);
+    }
+  }
+
+  evaluateAmount(type, current, target) {
+    // Decimal amounts such as quoteVolume are compared exactly
+    if (typeof current === 'string') {
+      const met = parseDecimal(current) >= parseDecimal(target);
+      return { type, current, target, fraction: met ? 1 : Math.min(Number(current) / target, 1), met };
+    }
+    return { type, current, target, fraction: Math.min(current / target, 1), met: current >= target };
+  }
+
+  // Slot and time conditions include the end itself and are met once the stream is past it
+  evaluateSpan(type, current, start, end) {
+    if (current === null || current === undefined) {
+      return { type, current: null, target: end, fraction: 0, met: false };
+    }
+
+    const from = start ?? current;
+    const fraction = end > from ? (current - from) / (end - from) : 1;
+    return { type, current, target: end, fraction: Math.min(Math.max(fraction, 0), 1), met: current > end };
+  }
+}
@@ -0,0 +1,256 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Logger } from './logger.js';
+import { config } from '../config/index.js';
+
+/**
+ * SQLite-backed storage for tracking sessions and the transactions they detect, so scans
+ * survive restarts and finished sessions stay queryable.
+ */
+export class StorageService {
+  constructor(databasePath = config.storage.databasePath) {
+    this.logger = new Logger(config.logging.level);
+
+    if (databasePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(databasePath)), { recursive: true });
+    }
+
+    this.db = new Database(databasePath);
+    this.db.pragma('journal_mode = WAL');
+    this.migrate();
+    this.prepareStatements();
+
+    this.logger.info('Storage initialized', { databasePath });
+  }
+
+  migrate() {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        session_id TEXT PRIMARY KEY,
+        token_address TEXT NOT NULL,
+        block_number INTEGER,
+        status TEXT NOT NULL,
+        params TEXT NOT NULL DEFAULT '{}',
+        progress TEXT,
+        stats TEXT,
+        error TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        stopped_at INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS detections (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL REFERENCES sessions(session_id) ON DELETE CASCADE,
+        target_token TEXT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        type TEXT NOT NULL,
+        slot INTEGER,
+        buy_number INTEGER,
+        buyer TEXT,
+        data TEXT NOT NULL,
+        UNIQUE (session_id, target_token, tx_hash, type)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_detections_session_type ON detections (session_id, type);
+
+      CREATE TABLE IF NOT EXISTS checkpoints (
+        session_id TEXT PRIMARY KEY REFERENCES sessions(session_id) ON DELETE CASCADE,
+        slot INTEGER NOT NULL,
+        state TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+    `);
+  }
+
+  prepareStatements() {
+    this.statements = {
+      insertSession: this.db.prepare(`
+        INSERT INTO sessions (session_id, token_address, block_number, status, params, created_at, updated_at)
+        VALUES (@sessionId, @tokenAddress, @blockNumber, @status, @params, @now, @now)
+      `),
+      getSession: this.db.prepare('SELECT * FROM sessions WHERE session_id = ?'),
+      listSessions: this.db.prepare('SELECT * FROM sessions ORDER BY created_at DESC LIMIT ?'),
+      markInterrupted: this.db.prepare(`
+        UPDATE sessions SET status = 'interrupted', updated_at = ?, stopped_at = ?
+        WHERE status IN ('starting', 'running')
+      `),
+      upsertDetection: this.db.prepare(`
+        INSERT INTO detections (session_id, target_token, tx_hash, type, slot, buy_number, buyer, data)
+        VALUES (@sessionId, @targetToken, @txHash, @type, @slot, @buyNumber, @buyer, @data)
+        ON CONFLICT (session_id, target_token, tx_hash, type) DO UPDATE SET
+          slot = excluded.slot,
+          buy_number = excluded.buy_number,
+          buyer = excluded.buyer,
+          data = excluded.data
+      `),
+      upsertCheckpoint: this.db.prepare(`
+        INSERT INTO checkpoints (session_id, slot, state, created_at)
+        VALUES (@sessionId, @slot, @state, @createdAt)
+        ON CONFLICT (session_id) DO UPDATE SET
+          slot = excluded.slot,
+          state = excluded.state,
+          created_at = excluded.created_at
+      `),
+      getCheckpoint: this.db.prepare('SELECT state FROM checkpoints WHERE session_id = ?'),
+      deleteDetectionsAfterSlot: this.db.prepare('DELETE FROM detections WHERE session_id = ? AND slot > ?'),
+    };
+  }
+
+  createSession({ sessionId, tokenAddress, blockNumber = null, status = 'starting', params = {} }) {
+    this.statements.insertSession.run({
+      sessionId,
+      tokenAddress,
+      blockNumber,
+      status,
+      params: JSON.stringify(params),
+      now: Date.now(),
+    });
+  }
+
+  updateSession(sessionId, { status, error, progress, stats, stoppedAt, blockNumber, params } = {}) {
+    const fields = { updated_at: Date.now() };
+    if (blockNumber !== undefined) fields.block_number = blockNumber;
+    if (params !== undefined) fields.params = JSON.stringify(params);
+    if (status !== undefined) fields.status = status;
+    if (error !== undefined) fields.error = error;
+    if (progress !== undefined) fields.progress = JSON.stringify(progress);
+    if (stats !== undefined) fields.stats = JSON.stringify(stats);
+    if (stoppedAt !== undefined) fields.stopped_at = stoppedAt;
+
+    const assignments = Object.keys(fields).map(column => `${column} = @${column}`).join(', ');
+    this.db.prepare(`UPDATE sessions SET ${assignments} WHERE session_id = @sessionId`)
+      .run({ ...fields, sessionId });
+  }
+
+  getSession(sessionId) {
+    const row = this.statements.getSession.get(sessionId);
+    return row ? this.toSession(row) : null;
+  }
+
+  listSessions(limit = 100) {
+    return this.statements.listSessions.all(limit).map(row => this.toSession(row));
+  }
+
+  // Sessions that were running when the process died can't still be running
+  markInterruptedSessions() {
+    const now = Date.now();
+    const result = this.statements.markInterrupted.run(now, now);
+    if (result.changes > 0) {
+      this.logger.warn('Marked sessions interrupted by a restart', { count: result.changes });
+    }
+    return result.changes;
+  }
+
+  saveDetection(sessionId, detection) {
+    this.statements.upsertDetection.run({
+      sessionId,
+      targetToken: detection.targetToken,
+      txHash: detection.txHash,
+      type: detection.type,
+      slot: detection.slot ?? null,
+      buyNumber: detection.buyNumber ?? null,
+      buyer: detection.buyer ?? null,
+      data: JSON.stringify(detection),
+    });
+  }
+
+  /**
+   * Returns a session's detections in the order they were detected.
+   * @param {string} sessionId - The session id
+   * @param {Object} options - `types` limits the detection types, `buyersOnly` keeps numbered buys
+   */
+  getDetections(sessionId, { types = null, buyersOnly = false } = {}) {
+    const conditions = ['session_id = ?'];
+    const params = [sessionId];
+
+    if (types && types.length > 0) {
+      conditions.push(`type IN (${types.map(() => '?').join(', ')})`);
+      params.push(...types);
+    }
+    if (buyersOnly) {
+      conditions.push('buy_number IS NOT NULL');
+    }
+
+    const orderBy = buyersOnly ? 'buy_number' : 'id';
+    return this.db.prepare(`SELECT data FROM detections WHERE ${conditions.join(' AND ')} ORDER BY ${orderBy}`)
+      .all(...params)
+      .map(row => JSON.parse(row.data));
+  }
+
+  saveCheckpoint(sessionId, checkpoint) {
+    this.statements.upsertCheckpoint.run({
+      sessionId,
+      slot: checkpoint.slot,
+      state: JSON.stringify(checkpoint),
+      createdAt: checkpoint.createdAt || Date.now(),
+    });
+  }
+
+  getCheckpoint(sessionId) {
+    const row = this.statements.getCheckpoint.get(sessionId);
+    return row ? JSON.parse(row.state) : null;
+  }
+
+  /**
+   * Loads a session's checkpoint for resuming and drops the detections stored after it,
+   * since the resumed scan will detect (and number) them again.
+   * @param {string} sessionId - The session id
+   * @returns {Object} The checkpoint to pass to TokenTrackingService.resume
+   */
+  prepareResume(sessionId) {
+    if (!this.getSession(sessionId)) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const checkpoint = this.getCheckpoint(sessionId);
+    if (!checkpoint) {
+      throw new Error(`Session ${sessionId} has no checkpoint to resume from`);
+    }
+
+    const result = this.statements.deleteDetectionsAfterSlot.run(sessionId, checkpoint.slot);
+    this.updateSession(sessionId, { status: 'starting', error: null, stoppedAt: null });
+    this.logger.info('Prepared session for resume', {
+      sessionId,
+      checkpointSlot: checkpoint.slot,
+      discardedDetections: result.changes
+    });
+
+    return checkpoint;
+  }
+
+  // Callbacks for TokenTrackingService that write a session's detections and checkpoints here
+  createSessionHooks(sessionId) {
+    return {
+      onDetection: detection => {
+        try {
+          this.saveDetection(sessionId, detection);
+        } catch (error) {
+          this.logger.error('Failed to persist detection', { sessionId, txHash: detection.txHash, error: error.message });
+        }
+      },
+      onCheckpoint: checkpoint => this.saveCheckpoint(sessionId, checkpoint),
+    };
+  }
+
+  toSession(row) {
+    return {
+      sessionId: row.session_id,
+      tokenAddress: row.token_address,
+      blockNumber: row.block_number,
+      status: row.status,
+      params: JSON.parse(row.params || '{}'),
+      progress: row.progress ? JSON.parse(row.progress) : null,
+      stats: row.stats ? JSON.parse(row.stats) : null,
+      error: row.error,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      stoppedAt: row.stopped_at,
+    };
+  }
+
+  close() {
+    this.db.close();
+  }
+}
@@ -1,5 +1,26 @@
+import { createHash } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
 import { Logger } from './logger.js';
 import { config } from '../config/index.js';
+import { getAccountKeys, getInstructions, getSigners } from '../utils/transaction.js';
+import { DEFAULT_MAX_BUYS } from './stopConditions.js';
+import { DetectionFilters } from './detectionFilters.js';
+import { divideDecimal } from '../utils/decimal.js';
+import { TOKEN_2022_PROGRAM_ID } from '../utils/mintAccount.js';
+import { calculateInverseTransferFee, calculateTransferFee, getInterestMultiplier } from '../utils/tokenExtensions.js';
+import { JITO_TIP_ACCOUNTS } from './sniperAnalyzer.js';
+import { findMigration, findTradeEvents, getCurveState } from '../utils/pumpFun.js';
+
+const NATIVE_MINT = 'So11111111111111111111111111111111111111112';
+
+// Token-2022 instructions are tagged by extension, then by the extension's own instruction
+const TRANSFER_FEE_EXTENSION = 26;
+const WITHDRAW_WITHHELD_INSTRUCTIONS = [2, 3]; // from the mint, from accounts
+const CONFIDENTIAL_TRANSFER_EXTENSION = 27;
+const CONFIDENTIAL_BALANCE_INSTRUCTIONS = [5, 6]; // deposit, withdraw
+
+// Fixed-point scale of interest multipliers, so prices stay integer math
+const MULTIPLIER_SCALE = 10n ** 12n;
 
 export class TokenBuyTracker {
   constructor(rpcService, instructionDecoder) {
@@ -9,14 +30,32 @@ export class TokenBuyTracker {
     this.targetToken = null;
     this.startingBlock = null;
     this.detectedBuys = []; // Still using this name for backward compatibility
-    this.maxBuys = 1000; // Still using this name for backward compatibility
+    this.maxBuys = DEFAULT_MAX_BUYS; // Cap on numbered buys, null for none
+    this.classificationCounts = {};
+    this.filters = new DetectionFilters();
+    this.filteredCounts = {}; // Dropped detections by filter reason
+    this.pricingService = null; // Adds USD values to detections when set
+    this.supply = null; // { amount, decimals } of the target mint, for market caps
+    this.tokenMetadata = null; // Token-2022 extensions of traded mints, when set
+    this.launchSlot = null; // First slot liquidity was added or tokens minted, as seen by the session
+    this.bondingCurve = null; // Pump.fun curve state after the latest curve trade
+    this.migration = null; // Where the curve moved once it filled
+    this.poolStats = {}; // Trades and buyers by pool address
     this.isComplete = false;
   }
 
-  setTargetToken(tokenMint, startingBlock = null) {
+  // `maxBuys` caps the numbered buys for this mint; null numbers buys until tracking completes
+  setTargetToken(tokenMint, startingBlock = null, maxBuys = DEFAULT_MAX_BUYS) {
     this.targetToken = tokenMint;
     this.startingBlock = startingBlock;
+    this.maxBuys = maxBuys;
     this.detectedBuys = [];
+    this.classificationCounts = {};
+    this.filteredCounts = {};
+    this.launchSlot = null;
+    this.bondingCurve = null;
+    this.migration = null;
+    this.poolStats = {};
     this.isComplete = false;
     this.logger.info('Target token set', { 
       tokenMint, 
@@ -25,7 +64,24 @@ export class TokenBuyTracker {
     });
   }
 
-  async detectBuysInTransaction(transaction, signature) {
+  setFilters(filters) {
+    this.filters = filters;
+  }
+
+  setPricingService(pricingService) {
+    this.pricingService = pricingService;
+  }
+
+  setSupply(supply) {
+    this.supply = supply;
+  }
+
+  setTokenMetadata(tokenMetadata) {
+    this.tokenMetadata = tokenMetadata;
+  }
+
+  // `balanceChanges` can be passed in when the caller already computed them for the transaction
+  async detectBuysInTransaction(transaction, signature, balanceChanges = null) {
     if (!this.targetToken) {
       return [];
     }
@@ -35,14 +91,14 @@ export class TokenBuyTracker {
       return [];
     }
 
-    // If we've reached max buys, still process transactions but don't add new buys
-    const skipAddingBuys = this.detectedBuys.length >= this.maxBuys;
+    // Once complete or at max buys, still classify transactions but don't add new buys
+    const skipAddingBuys = this.isComplete || this.hasReachedMaxBuys();
 
     try {
       const startTime = Date.now();
       
       // Get token balance changes
-      const balanceChanges = await this.rpcService.getTokenBalanceChanges(transaction);
+      balanceChanges = balanceChanges || await this.rpcService.getTokenBalanceChanges(transaction);
       
       // Check if this transaction involves our target token
       const targetTokenChanges = balanceChanges.filter(change => 
@@ -54,50 +110,41 @@ export class TokenBuyTracker {
         return [];
       }
 
-      // Simplified approach: Any transaction with target token is considered a buyer address
-      // Extract buyer from transaction
-      const buyer = this.extractBuyer(transaction);
-      
-      // Calculate block time from transaction
-      const blockTime = transaction.blockTime || Math.floor(Date.now() / 1000);
-
-      // Create a simplified buy record for any transaction involving the target token
-      const buyData = {
-        txHash: signature,
-        dex: 'Any Transaction', // Indicates this is any transaction type, not just DEX
-        targetToken: this.targetToken,
-        tokenSold: 'unknown', // We don't analyze what was sold
-        amountBought: '0', // We don't analyze specific amounts
-        amountSold: '0', // We don't analyze specific amounts
-        decimalsTarget: 0, // Default value
-        decimalsSold: 0, // Default value
-        timestamp: blockTime,
-        instructionType: 'any_transaction', // Indicates this is any transaction type
-        programId: 'unknown',
-        slot: transaction.slot,
-        buyNumber: this.detectedBuys.length + 1,
-        buyer: buyer,
-        pricePerToken: '0', // We don't calculate price
-        confidence: 'low', // Indicates this is any transaction, not a confirmed buy
-      };
+      const decodedInstructions = this.instructionDecoder.decodeTransaction(transaction);
+      const classification = this.readCurveTrade(
+        this.classifyTransaction(transaction, balanceChanges, decodedInstructions),
+        decodedInstructions
+      );
+      const pool = this.resolvePool(transaction, balanceChanges, decodedInstructions);
+      const extensions = await this.resolveExtensions(classification);
+      const detection = this.buildDetection({ ...classification, pool }, transaction, signature, extensions);
+      this.observeLaunch(classification, detection.slot);
+      this.observeCurve(detection);
+
+      // Filtered detections are counted but not recorded, so they don't take a buy number. They
+      // are still returned, marked with `filterReason`, since positions follow every trade.
+      const filterReason = this.filters.getFilterReason(detection);
+      if (filterReason) {
+        this.recordFiltered(detection, filterReason);
+        return [{ ...detection, filterReason }];
+      }
 
-      // Store the transaction (only if we haven't reached the limit)
-      if (!skipAddingBuys) {
-        this.detectedBuys.push(buyData);
-        
-        // Log the detected transaction
-        this.logger.info('TRANSACTION_WITH_TARGET_TOKEN_DETECTED', buyData);
-        
-        // Check if we've reached our target, but don't stop scanning historical blocks
-        if (this.detectedBuys.length >= this.maxBuys) {
-          this.logger.info(`Reached max transactions limit (${this.maxBuys}) for token ${this.targetToken}. Continuing scan but not adding more transactions.`);
-          // Don't set isComplete to true here - let the historical scan finish
-        }
+      if (this.pricingService) {
+        this.pricingService.priceDetection(detection);
+      }
+
+      this.classificationCounts[detection.type] = (this.classificationCounts[detection.type] || 0) + 1;
+      this.recordPoolTrade(detection);
+
+      if (detection.type === 'buy') {
+        this.recordBuy(detection, skipAddingBuys);
+      } else if (detection.type === 'sell') {
+        this.logger.info('SELL_DETECTED', detection);
       } else {
-        // Log that we found a transaction but skipped adding it due to limit
-        this.logger.debug('TRANSACTION_SKIPPED_DUE_TO_LIMIT', {
-          ...buyData,
-          reason: 'Max transactions limit reached'
+        this.logger.debug('TRANSACTION_CLASSIFIED', {
+          txHash: detection.txHash,
+          type: detection.type,
+          slot: detection.slot,
         });
       }
 
@@ -105,12 +152,12 @@ export class TokenBuyTracker {
         const duration = Date.now() - startTime;
         this.logger.logPerformance('DETECT_TRANSACTIONS', duration, {
           signature,
-          transactionCount: 1,
+          type: detection.type,
           balanceChangeCount: balanceChanges.length
         });
       }
 
-      return [buyData];
+      return [detection];
     } catch (error) {
       this.logger.error('Error detecting transactions in transaction', { 
         signature, 
@@ -120,306 +167,471 @@ export class TokenBuyTracker {
     }
   }
 
-  analyzePotentialBuy(allBalanceChanges, targetTokenChanges, transaction, signature, skipAddingBuys) {
-    try {
-      this.logger.debug('Starting potential buy analysis', {
-        signature: signature.substring(0, 8) + '...',
-        targetTokenChangesCount: targetTokenChanges.length,
-        allBalanceChangesCount: allBalanceChanges.length
-      });
+  // Classifies a transaction touching the target token from the trader's point of view.
+  // Returns the type (buy, sell, transfer, mint, burn, liquidity) together with the
+  // balance changes that back it up.
+  classifyTransaction(transaction, balanceChanges, decodedInstructions) {
+    const targetChanges = balanceChanges.filter(change => change.mint === this.targetToken);
+    const increases = targetChanges.filter(change => BigInt(change.delta) > 0n);
+    const decreases = targetChanges.filter(change => BigInt(change.delta) < 0n);
+    const netTargetDelta = targetChanges.reduce((sum, change) => sum + BigInt(change.delta), 0n);
+
+    const swapInstruction = decodedInstructions.find(instruction => instruction.isSwapInstruction) ||
+      decodedInstructions[0] || null;
+    const trader = this.resolveTrader(transaction, targetChanges);
+
+    // A filled pump.fun curve hands its tokens and SOL to an AMM pool
+    const migration = findMigration(decodedInstructions, this.targetToken);
+    if (migration) {
+      return { type: 'migration', trader, swapInstruction, targetChange: this.largestChange(decreases) || this.largestChange(increases), migration };
+    }
 
-      // Find target token increases (buys)
-      const targetTokenIncreases = targetTokenChanges.filter(change => {
-        try {
-          return BigInt(change.delta) > 0;
-        } catch (error) {
-          this.logger.error('Error converting delta to BigInt', { 
-            delta: change.delta, 
-            error: error.message 
-          });
-          return false;
-        }
-      });
-      
-      if (targetTokenIncreases.length === 0) {
-        this.logger.debug('No target token increases found', {
-          signature: signature.substring(0, 8) + '...',
-          targetTokenChanges: targetTokenChanges.map(change => ({
-            delta: change.delta,
-            accountIndex: change.accountIndex
-          }))
-        });
-        return null; // No buy of target token
-      }
+    // Supply changes: tokens appear or disappear without a counterpart account
+    if (decreases.length === 0 && netTargetDelta > 0n) {
+      return { type: this.classifySupplyChange(transaction, 'mint'), trader, swapInstruction, targetChange: this.largestChange(increases) };
+    }
+    if (increases.length === 0 && netTargetDelta < 0n) {
+      return { type: this.classifySupplyChange(transaction, 'burn'), trader, swapInstruction, targetChange: this.largestChange(decreases) };
+    }
 
-      // Find what was sold to buy the target token
-      const decreases = allBalanceChanges.filter(change => {
-        try {
-          return BigInt(change.delta) < 0 && change.mint !== this.targetToken;
-        } catch (error) {
-          this.logger.error('Error converting delta to BigInt in decreases filter', { 
-            delta: change.delta, 
-            mint: change.mint,
-            error: error.message 
-          });
-          return false;
-        }
-      });
+    const traderChanges = balanceChanges.filter(change => change.owner === trader);
+    const traderTargetChanges = traderChanges.filter(change => change.mint === this.targetToken);
+    const traderTargetDelta = traderTargetChanges.reduce((sum, change) => sum + BigInt(change.delta), 0n);
 
-      if (decreases.length === 0) {
-        this.logger.debug('No token decreases found', {
-          signature: signature.substring(0, 8) + '...',
-          allBalanceChanges: allBalanceChanges.map(change => ({
-            mint: change.mint,
-            delta: change.delta,
-            accountIndex: change.accountIndex
-          }))
-        });
-        return null; // No token was sold
+    if (traderTargetDelta === 0n) {
+      return { type: 'transfer', trader, swapInstruction, targetChange: this.largestChange(increases) };
+    }
+
+    const targetChange = {
+      ...this.largestChange(traderTargetChanges),
+      delta: traderTargetDelta.toString(),
+    };
+    const otherChanges = traderChanges.filter(change => change.mint !== this.targetToken);
+    const otherIncreases = otherChanges.filter(change => BigInt(change.delta) > 0n);
+    const otherDecreases = otherChanges.filter(change => BigInt(change.delta) < 0n);
+
+    if (traderTargetDelta > 0n) {
+      // Receiving the target together with another token means liquidity was withdrawn
+      if (otherIncreases.length > 0) {
+        return { type: 'liquidity', trader, swapInstruction, targetChange, quoteChange: this.largestChange(otherIncreases) };
       }
+      const quoteChange = this.largestChange(otherDecreases) ||
+        this.getNativeBalanceChange(transaction, trader, -1n);
+      if (quoteChange) {
+        return { type: 'buy', trader, swapInstruction, targetChange, quoteChange };
+      }
+      return { type: 'transfer', trader, swapInstruction, targetChange };
+    }
 
-      // Take the largest target token increase as the buy amount
-      const targetTokenBuy = targetTokenIncreases.reduce((max, current) => {
-        try {
-          return BigInt(current.delta) > BigInt(max.delta) ? current : max;
-        } catch (error) {
-          this.logger.error('Error in targetTokenBuy reduce', { 
-            currentDelta: current.delta, 
-            maxDelta: max.delta,
-            error: error.message 
-          });
-          return max; // Return the existing max if there's an error
-        }
-      });
+    // Sending the target together with another token means liquidity was deposited
+    if (otherDecreases.length > 0) {
+      return { type: 'liquidity', trader, swapInstruction, targetChange, quoteChange: this.largestChange(otherDecreases) };
+    }
+    const quoteChange = this.largestChange(otherIncreases) ||
+      this.getNativeBalanceChange(transaction, trader, 1n);
+    if (quoteChange) {
+      return { type: 'sell', trader, swapInstruction, targetChange, quoteChange };
+    }
+    return { type: 'transfer', trader, swapInstruction, targetChange };
+  }
 
-      // Take the largest decrease as what was sold
-      const tokenSold = decreases.reduce((max, current) => {
-        try {
-          return Math.abs(BigInt(current.delta)) > Math.abs(BigInt(max.delta)) ? current : max;
-        } catch (error) {
-          this.logger.error('Error in tokenSold reduce', { 
-            currentDelta: current.delta, 
-            maxDelta: max.delta,
-            error: error.message 
-          });
-          return max; // Return the existing max if there's an error
-        }
-      });
+  // Token-2022 moves tokens between token balances and amounts that balances don't show:
+  // withheld transfer fees and encrypted confidential balances. Without looking at the
+  // instructions those moves read as supply changes.
+  classifySupplyChange(transaction, type) {
+    const accountKeys = getAccountKeys(transaction);
+    const instructions = [
+      ...getInstructions(transaction),
+      ...(transaction.meta?.innerInstructions || []).flatMap(group => group.instructions),
+    ];
+
+    for (const instruction of instructions) {
+      if (accountKeys[instruction.programIdIndex] !== TOKEN_2022_PROGRAM_ID) {
+        continue;
+      }
+      const [extension, operation] = this.instructionDecoder.toBytes(instruction.data) || [];
+      if (type === 'mint' && extension === TRANSFER_FEE_EXTENSION && WITHDRAW_WITHHELD_INSTRUCTIONS.includes(operation)) {
+        return 'feeWithdrawal';
+      }
+      if (extension === CONFIDENTIAL_TRANSFER_EXTENSION && CONFIDENTIAL_BALANCE_INSTRUCTIONS.includes(operation)) {
+        return 'confidential';
+      }
+    }
+    return type;
+  }
 
-      // Calculate block time from transaction
-      const blockTime = transaction.blockTime || Math.floor(Date.now() / 1000);
+  // Pump.fun trades report the SOL and tokens the curve exchanged in a trade event. The trader's
+  // balances also moved protocol fees and account rent, so for the trade the event's amounts
+  // are used instead, and the event's reserves give the curve's state after the trade.
+  readCurveTrade(classification, decodedInstructions) {
+    const { type, trader, targetChange, quoteChange } = classification;
+    if (type !== 'buy' && type !== 'sell') {
+      return classification;
+    }
+    const events = findTradeEvents(decodedInstructions, this.targetToken, trader)
+      .filter(event => event.is_buy === (type === 'buy'));
+    if (events.length === 0) {
+      return classification;
+    }
 
-      this.logger.debug('Creating buy data', {
-        signature: signature.substring(0, 8) + '...',
-        targetTokenBuyDelta: targetTokenBuy.delta,
-        tokenSoldDelta: tokenSold.delta,
-        targetTokenBuyDecimals: targetTokenBuy.decimals,
-        tokenSoldDecimals: tokenSold.decimals
-      });
+    const sign = type === 'buy' ? 1n : -1n;
+    const total = field => events.reduce((sum, event) => sum + BigInt(event[field]), 0n);
+    return {
+      ...classification,
+      targetChange: { ...targetChange, delta: (sign * total('token_amount')).toString() },
+      quoteChange: { mint: NATIVE_MINT, accountIndex: quoteChange?.accountIndex ?? null, owner: trader, delta: (-sign * total('sol_amount')).toString(), decimals: 9 },
+      bondingCurve: getCurveState(events[events.length - 1]),
+    };
+  }
 
-      const buyData = {
-        txHash: signature,
-        dex: 'Unknown', // Couldn't identify specific DEX
-        targetToken: this.targetToken,
-        tokenSold: tokenSold.mint,
-        amountBought: targetTokenBuy.delta,
-        amountSold: (() => {
-          try {
-            return Math.abs(BigInt(tokenSold.delta)).toString();
-          } catch (error) {
-            this.logger.error('Error converting amountSold to string', { 
-              delta: tokenSold.delta, 
-              error: error.message 
-            });
-            return '0';
-          }
-        })(),
-        decimalsTarget: targetTokenBuy.decimals,
-        decimalsSold: tokenSold.decimals,
-        timestamp: blockTime,
-        instructionType: 'potential_buy',
-        programId: 'unknown',
-        slot: transaction.slot,
-        buyNumber: this.detectedBuys.length + 1,
-        buyer: this.extractBuyer(transaction),
-        pricePerToken: this.calculatePrice(tokenSold, targetTokenBuy),
-        confidence: 'medium', // Indicate this is a potential buy, not confirmed DEX buy
+  // The pool the target was swapped through: the first decoded swap whose pool vaults moved the
+  // target. Vaults are the swap's token accounts owned by the pool's vault owner; the pool took
+  // in the mint whose vault grew and paid out the one whose vault shrank. Null for swaps of
+  // programs whose IDL names no pool.
+  resolvePool(transaction, balanceChanges, decodedInstructions) {
+    const accountKeys = getAccountKeys(transaction);
+    for (const instruction of decodedInstructions) {
+      if (!instruction.isSwapInstruction || !instruction.pool) {
+        continue;
+      }
+      const swapAccounts = new Set(instruction.accounts.map(index => accountKeys[index]));
+      const vaults = balanceChanges.filter(change =>
+        change.owner === instruction.pool.vaultOwner && swapAccounts.has(accountKeys[change.accountIndex])
+      );
+      if (!vaults.some(change => change.mint === this.targetToken)) {
+        continue;
+      }
+      return {
+        address: instruction.pool.address,
+        dex: instruction.dex,
+        inputMint: vaults.find(change => BigInt(change.delta) > 0n)?.mint || null,
+        outputMint: vaults.find(change => BigInt(change.delta) < 0n)?.mint || null,
       };
+    }
+    return null;
+  }
+
+  // Adds a trade to its pool's totals. Quote amounts only count trades paid or received in the
+  // pool's own quote token, as routed trades can settle in another; USD volume counts them all.
+  recordPoolTrade(detection) {
+    if (!detection.poolAddress) {
+      return;
+    }
+    const isBuy = detection.type === 'buy';
+    const quoteToken = isBuy ? detection.poolInputMint : detection.poolOutputMint;
+    const pool = this.poolStats[detection.poolAddress] || {
+      address: detection.poolAddress,
+      dex: detection.poolDex,
+      quoteToken,
+      decimalsTarget: detection.decimalsTarget,
+      decimalsQuote: null,
+      buys: 0,
+      sells: 0,
+      buyers: [],
+      tokensBought: '0',
+      tokensSold: '0',
+      buyVolume: '0',
+      sellVolume: '0',
+      volumeUsd: null,
+      firstSlot: detection.slot,
+      lastSlot: detection.slot,
+    };
+    const add = (total, amount) => (BigInt(total) + BigInt(amount)).toString();
 
-      // Store the buy (only if we haven't reached the limit)
-      if (!skipAddingBuys) {
-        this.detectedBuys.push(buyData);
-        
-        // Log the detected buy
-        this.logger.info('POTENTIAL_BUY_DETECTED', buyData);
-        
-        // Check if we've reached our target, but don't stop scanning historical blocks
-        if (this.detectedBuys.length >= this.maxBuys) {
-          this.logger.info(`Reached max buys limit (${this.maxBuys}) for token ${this.targetToken}. Continuing scan but not adding more buys.`);
-          // Don't set isComplete to true here - let the historical scan finish
-        }
+    if (isBuy) {
+      pool.buys++;
+      pool.tokensBought = add(pool.tokensBought, detection.amountBought);
+      if (!pool.buyers.includes(detection.buyer)) {
+        pool.buyers.push(detection.buyer);
+      }
+    } else {
+      pool.sells++;
+      pool.tokensSold = add(pool.tokensSold, detection.amountBought);
+    }
+    if (detection.quoteToken && detection.quoteToken === pool.quoteToken) {
+      pool.decimalsQuote = detection.decimalsSold;
+      if (isBuy) {
+        pool.buyVolume = add(pool.buyVolume, detection.amountSold);
       } else {
-        // Log that we found a potential buy but skipped adding it due to limit
-        this.logger.debug('POTENTIAL_BUY_SKIPPED_DUE_TO_LIMIT', {
-          ...buyData,
-          reason: 'Max buys limit reached'
-        });
+        pool.sellVolume = add(pool.sellVolume, detection.amountSold);
       }
-      
-      return buyData;
-    } catch (error) {
-      this.logger.error('Error analyzing potential buy', { 
-        signature, 
-        error: error.message,
-        stack: error.stack
-      });
+    }
+    if (typeof detection.quoteValueUsd === 'number') {
+      pool.volumeUsd = (pool.volumeUsd ?? 0) + detection.quoteValueUsd;
+    }
+    pool.firstSlot = Math.min(pool.firstSlot, detection.slot);
+    pool.lastSlot = Math.max(pool.lastSlot, detection.slot);
+    this.poolStats[detection.poolAddress] = pool;
+  }
+
+  // Pools the target traded through with buyer counts, busiest first
+  getPools() {
+    return Object.values(this.poolStats)
+      .map(({ buyers, ...pool }) => ({ ...pool, mint: this.targetToken, buyers: buyers.length }))
+      .sort((a, b) => b.buys - a.buys || a.firstSlot - b.firstSlot);
+  }
+
+  observeCurve(detection) {
+    if (detection.bondingCurve) {
+      this.bondingCurve = { ...detection.bondingCurve, slot: detection.slot };
+    }
+    if (detection.migration && !this.migration) {
+      this.migration = { ...detection.migration, slot: detection.slot, txHash: detection.txHash };
+      this.logger.info('MIGRATION_DETECTED', { targetToken: this.targetToken, ...this.migration });
+    }
+  }
+
+  // Launches show up as the first liquidity deposit or mint of the target
+  observeLaunch(classification, slot) {
+    const isLaunch = classification.type === 'mint' || this.isLiquidityDeposit(classification);
+    if (isLaunch && (this.launchSlot === null || slot < this.launchSlot)) {
+      this.launchSlot = slot;
+    }
+  }
+
+  isLiquidityDeposit({ type, targetChange }) {
+    return type === 'liquidity' && BigInt(targetChange.delta) < 0n;
+  }
+
+  // Lamports the transaction paid to Jito tip accounts, as a string
+  getJitoTip(transaction) {
+    const { preBalances, postBalances } = transaction.meta || {};
+    if (!preBalances || !postBalances) {
+      return '0';
+    }
+    return getAccountKeys(transaction).reduce((tip, key, index) => {
+      const delta = BigInt(postBalances[index] ?? 0) - BigInt(preBalances[index] ?? 0);
+      return JITO_TIP_ACCOUNTS.includes(key) && delta > 0n ? tip + delta : tip;
+    }, 0n).toString();
+  }
+
+  // Fingerprint of the top-level instructions: program, account count, data length and leading
+  // bytes of each, in order. Wallets driven by one script share it even when amounts differ.
+  getInstructionLayout(transaction) {
+    const accountKeys = getAccountKeys(transaction);
+    const layout = getInstructions(transaction).map(instruction => {
+      const data = this.instructionDecoder.toBytes(instruction.data) || [];
+      const prefix = Buffer.from(data.slice(0, 8)).toString('hex');
+      return `${accountKeys[instruction.programIdIndex]}:${(instruction.accounts || []).length}:${data.length}:${prefix}`;
+    });
+    if (layout.length === 0) {
       return null;
     }
+    return createHash('sha256').update(layout.join('|')).digest('hex').slice(0, 16);
   }
 
-  analyzeBuy(swapInstruction, allBalanceChanges, targetTokenChanges, transaction, signature, skipAddingBuys) {
-    try {
-      // Find target token increases (buys)
-      const targetTokenIncreases = targetTokenChanges.filter(change => {
-        try {
-          return BigInt(change.delta) > 0;
-        } catch (error) {
-          this.logger.error('Error converting delta to BigInt in analyzeBuy', { 
-            delta: change.delta, 
-            error: error.message 
-          });
-          return false;
-        }
-      });
-      
-      if (targetTokenIncreases.length === 0) {
-        return null; // No buy of target token
+  // Token-2022 extensions of the target and quote mints; null for other token programs
+  async resolveExtensions({ targetChange, quoteChange }) {
+    const resolve = async change => {
+      if (!this.tokenMetadata || change?.tokenProgram !== TOKEN_2022_PROGRAM_ID) {
+        return null;
       }
+      return (await this.tokenMetadata.resolve(change.mint)).extensions;
+    };
+    const [target, quote] = await Promise.all([resolve(targetChange), resolve(quoteChange)]);
+    return { target, quote };
+  }
 
-      // Find what was sold to buy the target token
-      const decreases = allBalanceChanges.filter(change => {
-        try {
-          return BigInt(change.delta) < 0 && change.mint !== this.targetToken;
-        } catch (error) {
-          this.logger.error('Error converting delta to BigInt in decreases filter (analyzeBuy)', { 
-            delta: change.delta, 
-            mint: change.mint,
-            error: error.message 
-          });
-          return false;
-        }
-      });
+  buildDetection(classification, transaction, signature, extensions = {}) {
+    const { type, trader, swapInstruction, targetChange, quoteChange, bondingCurve, migration } = classification;
+    const isTrade = type === 'buy' || type === 'sell';
+    const pool = isTrade ? classification.pool : null;
 
-      if (decreases.length === 0) {
-        return null; // No token was sold
-      }
+    // Calculate block time from transaction
+    const blockTime = transaction.blockTime || Math.floor(Date.now() / 1000);
 
-      // Take the largest target token increase as the buy amount
-      const targetTokenBuy = targetTokenIncreases.reduce((max, current) => {
-        try {
-          return BigInt(current.delta) > BigInt(max.delta) ? current : max;
-        } catch (error) {
-          this.logger.error('Error in targetTokenBuy reduce (analyzeBuy)', { 
-            currentDelta: current.delta, 
-            maxDelta: max.delta,
-            error: error.message 
-          });
-          return max; // Return the existing max if there's an error
-        }
+    const fees = isTrade ? this.calculateTransferFees(classification, extensions, transaction.slot) : { target: 0n, quote: 0n };
+    const trade = isTrade ? this.getPoolChanges(classification, fees) : null;
+    const multipliers = {
+      target: this.getAmountMultiplier(extensions.target, blockTime),
+      quote: this.getAmountMultiplier(extensions.quote, blockTime),
+    };
+
+    let confidence = 'low';
+    if (isTrade) {
+      confidence = swapInstruction?.isSwapInstruction ? 'high' : 'medium';
+    }
+
+    // Amounts are absolute values; `type` tells the direction. For buys the target token
+    // was received and `tokenSold` was paid, for sells the target was paid and the quote received.
+    // They are what the trader's balances moved; the price is the pool's, before transfer fees.
+    return {
+      txHash: signature,
+      type,
+      dex: swapInstruction?.dex || 'Unknown',
+      targetToken: this.targetToken,
+      tokenSold: quoteChange?.mint || null,
+      quoteToken: quoteChange?.mint || null,
+      amountBought: targetChange ? this.absoluteAmount(targetChange.delta) : '0',
+      amountSold: quoteChange ? this.absoluteAmount(quoteChange.delta) : '0',
+      decimalsTarget: targetChange?.decimals ?? 0,
+      decimalsSold: quoteChange?.decimals ?? 0,
+      tokenProgram: targetChange?.tokenProgram || null,
+      targetTransferFee: fees.target.toString(),
+      quoteTransferFee: fees.quote.toString(),
+      riskFlags: extensions.target?.riskFlags || [],
+      jitoTip: this.getJitoTip(transaction),
+      instructionLayout: this.getInstructionLayout(transaction),
+      timestamp: blockTime,
+      instructionType: swapInstruction?.decodedData?.type || type,
+      programId: swapInstruction?.programId || 'unknown',
+      slot: transaction.slot,
+      buyNumber: null,
+      buyer: trader,
+      feePayer: this.extractFeePayer(transaction),
+      pricePerToken: trade ? this.calculatePrice(trade.quoteChange, trade.targetChange, multipliers) : '0',
+      marketCapAtEntry: trade ? this.calculateMarketCap(trade.quoteChange, trade.targetChange, multipliers.quote) : null,
+      supplyPercentage: this.calculateSupplyPercentage(targetChange),
+      poolAddress: pool?.address || null,
+      poolDex: pool?.dex || null,
+      poolInputMint: pool?.inputMint || null,
+      poolOutputMint: pool?.outputMint || null,
+      bondingCurve: bondingCurve || null,
+      migration: migration || null,
+      confidence,
+    };
+  }
+
+  recordBuy(buyData, skipAddingBuys) {
+    // Store the buy (only if we haven't reached the limit)
+    if (!skipAddingBuys) {
+      buyData.buyNumber = this.detectedBuys.length + 1;
+      this.detectedBuys.push(buyData);
+      
+      // Log the detected buy
+      this.logger.info('BUY_DETECTED', buyData);
+      
+      // Check if we've reached our target, but don't stop scanning historical blocks
+      if (this.hasReachedMaxBuys()) {
+        this.logger.info(`Reached max buys limit (${this.maxBuys}) for token ${this.targetToken}. Continuing scan but not adding more buys.`);
+        // Don't set isComplete to true here - let the historical scan finish
+      }
+    } else {
+      // Log that we found a buy but skipped adding it due to limit
+      this.logger.debug('BUY_SKIPPED_DUE_TO_LIMIT', {
+        ...buyData,
+        reason: this.isComplete ? 'Tracking complete' : 'Max buys limit reached'
       });
+    }
+  }
 
-      // Take the largest decrease as what was sold
-      const tokenSold = decreases.reduce((max, current) => {
-        try {
-          return Math.abs(BigInt(current.delta)) > Math.abs(BigInt(max.delta)) ? current : max;
-        } catch (error) {
-          this.logger.error('Error in tokenSold reduce (analyzeBuy)', { 
-            currentDelta: current.delta, 
-            maxDelta: max.delta,
-            error: error.message 
-          });
-          return max; // Return the existing max if there's an error
-        }
+  recordFiltered(detection, reason) {
+    this.filteredCounts[reason] = (this.filteredCounts[reason] || 0) + 1;
+    if (this.filters.logFiltered) {
+      this.logger.info('DETECTION_FILTERED', {
+        txHash: detection.txHash,
+        type: detection.type,
+        slot: detection.slot,
+        buyer: detection.buyer,
+        dex: detection.dex,
+        amountSold: detection.amountSold,
+        reason
       });
+    }
+  }
 
-      // Calculate block time from transaction
-      const blockTime = transaction.blockTime || Math.floor(Date.now() / 1000);
-
-      const buyData = {
-        txHash: signature,
-        dex: swapInstruction.dex,
-        targetToken: this.targetToken,
-        tokenSold: tokenSold.mint,
-        amountBought: targetTokenBuy.delta,
-        amountSold: (() => {
-          try {
-            return Math.abs(BigInt(tokenSold.delta)).toString();
-          } catch (error) {
-            this.logger.error('Error converting amountSold to string (analyzeBuy)', { 
-              delta: tokenSold.delta, 
-              error: error.message 
-            });
-            return '0';
-          }
-        })(),
-        decimalsTarget: targetTokenBuy.decimals,
-        decimalsSold: tokenSold.decimals,
-        timestamp: blockTime,
-        instructionType: swapInstruction.decodedData?.type || 'unknown',
-        programId: swapInstruction.programId,
-        slot: transaction.slot,
-        buyNumber: this.detectedBuys.length + 1,
-        buyer: this.extractBuyer(transaction),
-        pricePerToken: this.calculatePrice(tokenSold, targetTokenBuy),
-        confidence: 'high', // Confirmed DEX buy
-      };
+  // Native SOL paid or received by the trader, used when no wrapped SOL or SPL quote moved.
+  // `direction` is -1n for outflows (buys) and 1n for inflows (sells).
+  getNativeBalanceChange(transaction, owner, direction) {
+    const accountIndex = getAccountKeys(transaction).indexOf(owner);
+    const { preBalances, postBalances, fee } = transaction.meta || {};
 
-      // Store the buy (only if we haven't reached the limit)
-      if (!skipAddingBuys) {
-        this.detectedBuys.push(buyData);
-        
-        // Log the detected buy
-        this.logger.info('BUY_DETECTED', buyData);
-        
-        // Check if we've reached our target, but don't stop scanning historical blocks
-        if (this.detectedBuys.length >= this.maxBuys) {
-          this.logger.info(`Reached max buys limit (${this.maxBuys}) for token ${this.targetToken}. Continuing scan but not adding more buys.`);
-          // Don't set isComplete to true here - let the historical scan finish
-        }
-      } else {
-        // Log that we found a buy but skipped adding it due to limit
-        this.logger.debug('BUY_SKIPPED_DUE_TO_LIMIT', {
-          ...buyData,
-          reason: 'Max buys limit reached'
-        });
+    if (accountIndex < 0 || !preBalances || !postBalances) {
+      return null;
+    }
+
+    let delta = BigInt(postBalances[accountIndex]) - BigInt(preBalances[accountIndex]);
+    // The fee payer also paid the transaction fee, which is not part of the trade
+    if (accountIndex === 0 && fee) {
+      delta += BigInt(fee);
+    }
+
+    if (delta === 0n || (delta > 0n) !== (direction > 0n)) {
+      return null;
+    }
+
+    return {
+      mint: NATIVE_MINT,
+      accountIndex,
+      owner,
+      delta: delta.toString(),
+      decimals: 9,
+    };
+  }
+
+  largestChange(changes) {
+    if (!changes || changes.length === 0) {
+      return null;
+    }
+    return changes.reduce((max, current) => {
+      const currentAbs = BigInt(this.absoluteAmount(current.delta));
+      const maxAbs = BigInt(this.absoluteAmount(max.delta));
+      return currentAbs > maxAbs ? current : max;
+    });
+  }
+
+  absoluteAmount(delta) {
+    const value = BigInt(delta);
+    return (value < 0n ? -value : value).toString();
+  }
+
+  // Picks the wallet the transaction is attributed to: the owner of the target-token accounts
+  // that moved, preferring signers, then regular (on-curve) wallets over program-derived pool
+  // authorities. Falls back to the fee payer when balances carry no owner information.
+  resolveTrader(transaction, targetChanges) {
+    const netByOwner = new Map();
+    for (const change of targetChanges) {
+      if (!change.owner) continue;
+      netByOwner.set(change.owner, (netByOwner.get(change.owner) || 0n) + BigInt(change.delta));
+    }
+
+    const owners = Array.from(netByOwner.entries()).filter(([, delta]) => delta !== 0n);
+    if (owners.length === 0) {
+      return this.extractFeePayer(transaction);
+    }
+
+    const signers = new Set(getSigners(transaction));
+    const rank = ([owner, delta]) => [
+      signers.has(owner) ? 1 : 0,
+      this.isWalletAddress(owner) ? 1 : 0,
+      // The wallet whose balance increased wins ties, matching the buy side of a trade
+      delta > 0n ? 1 : 0,
+    ];
+
+    owners.sort((a, b) => {
+      const rankA = rank(a);
+      const rankB = rank(b);
+      for (let i = 0; i < rankA.length; i++) {
+        if (rankA[i] !== rankB[i]) return rankB[i] - rankA[i];
       }
-      
-      return buyData;
+      const absA = a[1] < 0n ? -a[1] : a[1];
+      const absB = b[1] < 0n ? -b[1] : b[1];
+      return absA === absB ? 0 : (absB > absA ? 1 : -1);
+    });
+
+    return owners[0][0];
+  }
+
+  isWalletAddress(address) {
+    try {
+      return PublicKey.isOnCurve(new PublicKey(address).toBytes());
     } catch (error) {
-      this.logger.error('Error analyzing buy', { 
-        signature, 
-        dex: swapInstruction.dex,
-        error: error.message,
-        stack: error.stack
-      });
-      return null;
+      return false;
     }
   }
 
-  extractBuyer(transaction, targetAccountIndex) {
+  extractFeePayer(transaction) {
     try {
-      // Get the transaction signer (fee payer) - this is the actual buyer
-      // The first account in accountKeys is always the fee payer/signer
-      const accounts = transaction.transaction.message.accountKeys || 
-                     transaction.transaction.message.staticAccountKeys || [];
+      // The first account key is always the fee payer
+      const accounts = getAccountKeys(transaction);
       
       if (accounts.length > 0) {
-        return accounts[0].toString();
+        return accounts[0];
       }
       
       return 'unknown';
     } catch (error) {
-      this.logger.error('Error extracting buyer from transaction', { 
+      this.logger.error('Error extracting fee payer from transaction', { 
         error: error.message,
         signature: transaction.transaction?.signatures?.[0] || 'unknown'
       });
@@ -427,24 +639,57 @@ export class TokenBuyTracker {
     }
   }
 
-  calculatePrice(tokenSold, targetTokenBuy) {
+  // Transfer fees withheld on each leg of a trade. The trader's side of each leg is known: on a
+  // buy the target arrived net of its fee and the quote left before its fee, on a sell the reverse.
+  calculateTransferFees({ type, targetChange, quoteChange }, extensions, slot) {
+    const fee = (transferFee, change, received) => {
+      if (!transferFee || !change) {
+        return 0n;
+      }
+      const amount = BigInt(this.absoluteAmount(change.delta));
+      return received
+        ? calculateInverseTransferFee(transferFee, slot, amount)
+        : calculateTransferFee(transferFee, slot, amount);
+    };
+    return {
+      target: fee(extensions.target?.transferFee, targetChange, type === 'buy'),
+      quote: fee(extensions.quote?.transferFee, quoteChange, type === 'sell'),
+    };
+  }
+
+  // What the pool sent and received, which sets the price; it differs from the trader's
+  // amounts by the transfer fees
+  getPoolChanges({ type, targetChange, quoteChange }, fees) {
+    const target = BigInt(this.absoluteAmount(targetChange.delta));
+    const quote = BigInt(this.absoluteAmount(quoteChange.delta));
+    const withAmount = (change, amount) => ({ ...change, delta: amount.toString() });
+
+    return type === 'buy'
+      ? { targetChange: withAmount(targetChange, target + fees.target), quoteChange: withAmount(quoteChange, quote - fees.quote) }
+      : { targetChange: withAmount(targetChange, target - fees.target), quoteChange: withAmount(quoteChange, quote + fees.quote) };
+  }
+
+  // Interest-bearing mints display raw amounts grown by accrued interest, scaled by MULTIPLIER_SCALE
+  getAmountMultiplier(extensions, timestamp) {
+    if (!extensions?.interestBearing) {
+      return MULTIPLIER_SCALE;
+    }
+    return BigInt(Math.round(getInterestMultiplier(extensions.interestBearing, timestamp) * Number(MULTIPLIER_SCALE)));
+  }
+
+  // Quote tokens paid per whole (displayed) target token, as an exact decimal string
+  calculatePrice(tokenSold, targetTokenBuy, multipliers = { quote: MULTIPLIER_SCALE, target: MULTIPLIER_SCALE }) {
     try {
-      const amountSold = Math.abs(BigInt(tokenSold.delta));
-      const amountBought = BigInt(targetTokenBuy.delta);
+      const amountSold = BigInt(this.absoluteAmount(tokenSold.delta));
+      const amountBought = BigInt(this.absoluteAmount(targetTokenBuy.delta));
       
       if (amountBought === 0n) return '0';
       
-      // Calculate price as: amount_sold / amount_bought
-      // Adjust for decimals
-      const decimalAdjustment = Math.pow(10, targetTokenBuy.decimals - tokenSold.decimals);
-      
-      // Convert BigInt to string, then to number for calculation
-      const amountSoldNum = Number(amountSold.toString());
-      const amountBoughtNum = Number(amountBought.toString());
-      
-      const price = amountSoldNum / amountBoughtNum * decimalAdjustment;
-      
-      return price.toFixed(8);
+      // (sold / 10^decimalsSold) / (bought / 10^decimalsTarget), kept in integers until the division
+      return divideDecimal(
+        amountSold * multipliers.quote * 10n ** BigInt(targetTokenBuy.decimals),
+        amountBought * multipliers.target * 10n ** BigInt(tokenSold.decimals)
+      );
     } catch (error) {
       this.logger.error('Error calculating price', { 
         tokenSold: tokenSold.delta, 
@@ -455,6 +700,32 @@ export class TokenBuyTracker {
     }
   }
 
+  // Market cap implied by the trade price, in the quote token. Needs the supply fetched for the
+  // session; the target's interest multiplier scales price and supply alike, so it cancels out.
+  calculateMarketCap(quoteChange, targetChange, quoteMultiplier = MULTIPLIER_SCALE) {
+    const supply = this.supply ? BigInt(this.supply.amount) : 0n;
+    const targetAmount = BigInt(this.absoluteAmount(targetChange.delta));
+    if (supply === 0n || targetAmount === 0n) {
+      return null;
+    }
+
+    // price * supply = (sold / 10^decimalsSold) / bought * supply, in base units of the target
+    return divideDecimal(
+      BigInt(this.absoluteAmount(quoteChange.delta)) * quoteMultiplier * supply,
+      targetAmount * 10n ** BigInt(quoteChange.decimals) * MULTIPLIER_SCALE
+    );
+  }
+
+  // Share of the supply the trader's balance moved
+  calculateSupplyPercentage(targetChange) {
+    const supply = this.supply ? BigInt(this.supply.amount) : 0n;
+    const targetAmount = targetChange ? BigInt(this.absoluteAmount(targetChange.delta)) : 0n;
+    if (supply === 0n || targetAmount === 0n) {
+      return null;
+    }
+    return divideDecimal(targetAmount * 100n, supply, 8);
+  }
+
   getDetectedBuys() {
     return this.detectedBuys;
   }
@@ -463,6 +734,10 @@ export class TokenBuyTracker {
     return this.detectedBuys.length;
   }
 
+  hasReachedMaxBuys() {
+    return this.maxBuys !== null && this.detectedBuys.length >= this.maxBuys;
+  }
+
   isTrackingComplete() {
     // Only return true if explicitly set to complete, not just because we reached max buys
     // This allows historical scanning to continue even after finding max buys
@@ -473,17 +748,59 @@ export class TokenBuyTracker {
     return {
       current: this.detectedBuys.length,
       target: this.maxBuys,
-      percentage: (this.detectedBuys.length / this.maxBuys * 100).toFixed(1),
-      isComplete: this.isComplete
+      percentage: this.maxBuys ? (this.detectedBuys.length / this.maxBuys * 100).toFixed(1) : '0.0',
+      isComplete: this.isComplete,
+      classifications: { ...this.classificationCounts },
+      filtered: { ...this.filteredCounts },
+      bondingCurve: this.bondingCurve,
+      migration: this.migration,
+      pools: this.getPools()
     };
   }
 
   reset() {
     this.detectedBuys = [];
+    this.classificationCounts = {};
+    this.filteredCounts = {};
+    this.launchSlot = null;
+    this.bondingCurve = null;
+    this.migration = null;
+    this.poolStats = {};
     this.isComplete = false;
     this.targetToken = null;
   }
 
+  // Snapshot of everything needed to continue numbering buys after a restart
+  exportState() {
+    return {
+      detectedBuys: this.detectedBuys.slice(),
+      classificationCounts: { ...this.classificationCounts },
+      filteredCounts: { ...this.filteredCounts },
+      launchSlot: this.launchSlot,
+      bondingCurve: this.bondingCurve,
+      migration: this.migration,
+      pools: Object.values(this.poolStats).map(pool => ({ ...pool, buyers: pool.buyers.slice() })),
+      isComplete: this.isComplete,
+    };
+  }
+
+  importState(state) {
+    this.detectedBuys = state.detectedBuys.slice();
+    this.classificationCounts = { ...state.classificationCounts };
+    // Checkpoints written before filters existed dropped nothing
+    this.filteredCounts = { ...state.filteredCounts };
+    this.launchSlot = state.launchSlot ?? null;
+    this.bondingCurve = state.bondingCurve ?? null;
+    this.migration = state.migration ?? null;
+    this.poolStats = Object.fromEntries((state.pools || []).map(pool => [pool.address, { ...pool, buyers: pool.buyers.slice() }]));
+    this.isComplete = state.isComplete;
+    this.logger.info('Tracker state restored', {
+      targetToken: this.targetToken,
+      totalBuys: this.detectedBuys.length,
+      isComplete: this.isComplete
+    });
+  }
+
   markComplete() {
     this.isComplete = true;
     this.logger.info('Tracking marked as complete', { 
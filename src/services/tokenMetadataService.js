@@ -0,0 +1,124 @@
+import { Logger } from './logger.js';
+import { config } from '../config/index.js';
+import { SolanaRPCService } from './rpcService.js';
+import {
+  decodeMintAccount,
+  decodeMetaplexMetadata,
+  decodeTokenMetadataExtension,
+  getMetaplexMetadataAddress,
+  TOKEN_2022_PROGRAM_ID,
+} from '../utils/mintAccount.js';
+import { summarizeMintExtensions } from '../utils/tokenExtensions.js';
+
+// Tokens whose metadata isn't on-chain in either standard
+const KNOWN_TOKENS = {
+  So11111111111111111111111111111111111111112: { name: 'Wrapped SOL', symbol: 'SOL', decimals: 9 },
+};
+
+/**
+ * Resolves the name, symbol, decimals and URI of mints from chain data: the Token-2022 token
+ * metadata extension when the mint has one, otherwise its Metaplex metadata account. The mint and
+ * its metadata account are fetched in one request; results are cached for the life of the process
+ * and failed lookups are retried after `config.metadata.retryInterval`.
+ */
+export class TokenMetadataService {
+  constructor(options = {}) {
+    this.logger = new Logger(config.logging.level);
+    this.rpcService = new SolanaRPCService({ endpointPool: options.endpointPool, transport: options.transport });
+    this.retryInterval = options.retryInterval ?? config.metadata.retryInterval;
+    this.cache = new Map();
+    this.inflight = new Map();
+  }
+
+  /**
+   * @param {string} mint - Mint address
+   * @returns {Promise<Object>} `{ mint, name, symbol, decimals, uri, tokenProgram, extensions, source }`;
+   *   fields are null when they couldn't be resolved, `extensions` for all but Token-2022 mints.
+   *   Never rejects.
+   */
+  resolve(mint) {
+    const cached = this.cache.get(mint);
+    if (cached && (cached.source !== null || Date.now() - cached.resolvedAt < this.retryInterval)) {
+      return Promise.resolve(cached);
+    }
+    if (this.inflight.has(mint)) {
+      return this.inflight.get(mint);
+    }
+
+    const request = this.fetchMetadata(mint)
+      .catch(error => {
+        this.logger.warn('Failed to resolve token metadata', { mint, error: error.message });
+        return this.toMetadata(mint, {}, null);
+      })
+      .then(metadata => {
+        this.cache.set(mint, metadata);
+        return metadata;
+      })
+      .finally(() => {
+        this.inflight.delete(mint);
+      });
+    this.inflight.set(mint, request);
+    return request;
+  }
+
+  // Metadata of several mints keyed by mint
+  async resolveMany(mints) {
+    const unique = [...new Set(mints.filter(Boolean))];
+    const resolved = await Promise.all(unique.map(mint => this.resolve(mint)));
+    return Object.fromEntries(resolved.map(metadata => [metadata.mint, metadata]));
+  }
+
+  // Only what is already resolved, for responses that can't wait on the RPC
+  getCached(mints) {
+    return Object.fromEntries(
+      [...new Set(mints)].filter(mint => this.cache.has(mint)).map(mint => [mint, this.cache.get(mint)])
+    );
+  }
+
+  async fetchMetadata(mint) {
+    const metadataAddress = getMetaplexMetadataAddress(mint);
+    const [mintAccount, metadataAccount] = await this.rpcService.endpointPool.request('getMultipleAccounts', [mint, metadataAddress]);
+    const known = KNOWN_TOKENS[mint];
+
+    if (!mintAccount) {
+      return known ? this.toMetadata(mint, known, 'known') : this.toMetadata(mint, {}, null);
+    }
+
+    const decoded = decodeMintAccount(mintAccount.data);
+    const tokenProgram = mintAccount.owner.toBase58();
+    const base = {
+      decimals: decoded.decimals,
+      tokenProgram,
+      extensions: tokenProgram === TOKEN_2022_PROGRAM_ID ? summarizeMintExtensions(decoded) : null,
+    };
+
+    const extension = decoded.extensions.find(({ name }) => name === 'tokenMetadata');
+    if (extension) {
+      const { name, symbol, uri } = decodeTokenMetadataExtension(extension.data);
+      return this.toMetadata(mint, { ...base, name, symbol, uri }, 'token-2022');
+    }
+    if (metadataAccount) {
+      const { name, symbol, uri } = decodeMetaplexMetadata(metadataAccount.data);
+      return this.toMetadata(mint, { ...base, name, symbol, uri }, 'metaplex');
+    }
+    if (known) {
+      return this.toMetadata(mint, { ...known, ...base }, 'known');
+    }
+    // Decimals alone are still worth keeping
+    return this.toMetadata(mint, base, 'mint');
+  }
+
+  toMetadata(mint, fields, source) {
+    return {
+      mint,
+      name: fields.name || null,
+      symbol: fields.symbol || null,
+      decimals: fields.decimals ?? null,
+      uri: fields.uri || null,
+      tokenProgram: fields.tokenProgram || null,
+      extensions: fields.extensions || null,
+      source,
+      resolvedAt: Date.now(),
+    };
+  }
+}
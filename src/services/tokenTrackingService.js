@@ -1,17 +1,54 @@
-import { SolanaRPCService } from './rpcService.js';
+import { SolanaRPCService, BACKFILL_STRATEGIES } from './rpcService.js';
 import { InstructionDecoder } from './instructionDecoder.js';
 import { TokenBuyTracker } from './tokenBuyTracker.js';
+import { PositionLedger } from './positionLedger.js';
+import { StopConditions, normalizeStopConditions } from './stopConditions.js';
+import { DetectionFilters } from './detectionFilters.js';
+import { PricingService } from './pricingService.js';
+import { TokenMetadataService } from './tokenMetadataService.js';
+import { RISK_FLAGS } from '../utils/tokenExtensions.js';
+import { SniperAnalyzer } from './sniperAnalyzer.js';
 import { Logger } from './logger.js';
 import { config } from '../config/index.js';
-import { isValidTokenMint } from '../utils/validation.js';
+import { normalizeTrackedMints } from '../utils/validation.js';
+import { toDecimalString } from '../utils/decimal.js';
 import { setupGracefulShutdown } from '../utils/shutdown.js';
 
 export class TokenTrackingService {
-  constructor() {
+  constructor(options = {}) {
     this.logger = new Logger(config.logging.level);
-    this.rpcService = new SolanaRPCService();
+    // `options.endpointPool` shares RPC endpoints between services, `options.blockSource` shares
+    // fetched blocks; `options.transport` lets a run use recorded RPC responses instead of the network
+    this.rpcService = new SolanaRPCService({
+      endpointPool: options.endpointPool,
+      blockSource: options.blockSource,
+      transport: options.transport
+    });
     this.instructionDecoder = new InstructionDecoder();
-    this.buyTracker = new TokenBuyTracker(this.rpcService, this.instructionDecoder);
+    // USD prices from the stablecoin swaps in the blocks this session reads
+    this.pricingService = new PricingService();
+    // `options.tokenMetadata` shares resolved token names and symbols between sessions
+    this.tokenMetadata = options.tokenMetadata || new TokenMetadataService({ endpointPool: this.rpcService.endpointPool });
+    this.quoteTokens = new Set();
+    this.sniperAnalyzer = new SniperAnalyzer();
+    // Every tracked mint has its own buy tracker and position ledger, so progress, caps and
+    // results are kept per mint
+    this.mints = new Map();
+    this.startingBlock = null;
+    this.stopConditions = normalizeStopConditions();
+    this.filters = new DetectionFilters();
+    // How far the stream has got, for slot, time and duration stop conditions
+    this.streamState = { startSlot: null, startTime: null, slot: null, blockTime: null, elapsedMs: 0 };
+    this.runStartedAt = null;
+    this.progressInterval = null;
+
+    // Called with every classified transaction, e.g. to persist it
+    this.onDetection = options.onDetection || null;
+    // Called with a resumable snapshot every `config.storage.checkpointInterval` slots and on stop
+    this.onCheckpoint = options.onCheckpoint || null;
+    this.latestCheckpoint = null;
+    this.slotsSinceCheckpoint = 0;
+    this.backfill = { strategy: config.backfill.defaultStrategy, addresses: [] };
     
     this.stats = {
       totalBlocks: 0,
@@ -23,18 +60,120 @@ export class TokenTrackingService {
     this.isRunning = false;
   }
 
-  async start(targetToken, startingBlock = null) {
-    this.logger.info('Starting Token Buy Tracking Service', { targetToken, startingBlock });
+  // `targets` is a mint address, or a list of addresses or `{ mint, maxBuys }` entries, where
+  // `maxBuys` replaces the `buys` stop condition for that mint.
+  // `options.backfillStrategy` is one of BACKFILL_STRATEGIES; `options.poolAddresses` are
+  // indexed alongside the mints by the signature-index strategy; `options.stopConditions` decide
+  // when each mint is complete (see stopConditions.js); `options.filters` decide which detections
+  // are dropped (see detectionFilters.js)
+  async start(targets, startingBlock = null, options = {}) {
+    const backfillStrategy = options.backfillStrategy || config.backfill.defaultStrategy;
+    this.logger.info('Starting Token Buy Tracking Service', {
+      targets,
+      startingBlock,
+      backfillStrategy,
+      stopConditions: options.stopConditions,
+      filters: options.filters
+    });
     
-    // Validate token mint address
-    if (!isValidTokenMint(targetToken)) {
-      this.logger.error('Invalid token mint address', { targetToken });
+    // Validate token mint addresses
+    const mints = normalizeTrackedMints(targets);
+    if (!mints) {
+      this.logger.error('Invalid token mint addresses', { targets });
       return false;
     }
 
-    // Set target token
-    this.buyTracker.setTargetToken(targetToken, startingBlock);
-    
+    if (!BACKFILL_STRATEGIES.includes(backfillStrategy)) {
+      this.logger.error('Unknown backfill strategy', { backfillStrategy, supported: BACKFILL_STRATEGIES });
+      return false;
+    }
+
+    try {
+      this.stopConditions = normalizeStopConditions(options.stopConditions);
+    } catch (error) {
+      this.logger.error('Invalid stop conditions', { stopConditions: options.stopConditions, error: error.message });
+      return false;
+    }
+
+    try {
+      this.filters = new DetectionFilters(options.filters);
+    } catch (error) {
+      this.logger.error('Invalid detection filters', { error: error.message });
+      return false;
+    }
+
+    this.startingBlock = startingBlock;
+    mints.forEach(({ mint, maxBuys }) => this.addMint(mint, maxBuys));
+    this.backfill = {
+      strategy: backfillStrategy,
+      addresses: [...mints.map(({ mint }) => mint), ...(options.poolAddresses || [])],
+    };
+
+    return this.run(startingBlock);
+  }
+
+  // Continues a scan from a checkpoint produced by `createCheckpoint`. Buys numbered before the
+  // checkpoint are restored, so scanning resumes at the next slot without renumbering.
+  async resume(checkpoint) {
+    // Checkpoints written before multi-mint sessions tracked a single mint
+    const mintStates = checkpoint.mints || [{
+      mint: checkpoint.targetToken,
+      maxBuys: null,
+      tracker: checkpoint.tracker,
+      positions: checkpoint.positions
+    }];
+
+    this.logger.info('Resuming Token Buy Tracking Service from checkpoint', {
+      targetTokens: mintStates.map(({ mint }) => mint),
+      startingBlock: checkpoint.startingBlock,
+      checkpointSlot: checkpoint.slot,
+      buysFound: mintStates.reduce((sum, { tracker }) => sum + tracker.detectedBuys.length, 0)
+    });
+
+    if (!normalizeTrackedMints(mintStates.map(({ mint, maxBuys }) => ({ mint, maxBuys })))) {
+      this.logger.error('Invalid token mint addresses in checkpoint', { targetTokens: mintStates.map(({ mint }) => mint) });
+      return false;
+    }
+
+    this.startingBlock = checkpoint.startingBlock;
+    // Checkpoints written before stop conditions existed stopped at the default buy count
+    this.stopConditions = normalizeStopConditions(checkpoint.stopConditions);
+    this.streamState = { ...this.streamState, ...checkpoint.streamState };
+    this.filters = new DetectionFilters(checkpoint.filters);
+    this.pricingService.importState(checkpoint.pricing);
+    for (const { mint, maxBuys, supply, tracker, positions } of mintStates) {
+      const entry = this.addMint(mint, maxBuys);
+      entry.buyTracker.importState(tracker);
+      entry.positionLedger.importState(positions);
+      // Checkpoints written before market caps existed have no supply; it's fetched again
+      if (supply) {
+        entry.supply = supply;
+        entry.buyTracker.setSupply(supply);
+      }
+      tracker.detectedBuys.forEach(buy => this.observeQuoteToken(buy.quoteToken));
+    }
+    this.stats.totalBlocks = checkpoint.stats.totalBlocks;
+    this.stats.totalTransactions = checkpoint.stats.totalTransactions;
+    this.latestCheckpoint = checkpoint;
+    // Checkpoints written before backfill strategies existed were block scans
+    this.backfill = checkpoint.backfill || { strategy: 'block-scan', addresses: mintStates.map(({ mint }) => mint) };
+
+    return this.run(checkpoint.slot + 1);
+  }
+
+  addMint(mint, maxBuys = null) {
+    const stopConditions = new StopConditions(maxBuys ? { ...this.stopConditions, buys: maxBuys } : this.stopConditions);
+    const buyTracker = new TokenBuyTracker(this.rpcService, this.instructionDecoder);
+    buyTracker.setTargetToken(mint, this.startingBlock, stopConditions.getBuyCap());
+    buyTracker.setFilters(this.filters);
+    buyTracker.setPricingService(this.pricingService);
+    buyTracker.setTokenMetadata(this.tokenMetadata);
+    const entry = { mint, maxBuys, stopConditions, buyTracker, positionLedger: new PositionLedger(), supply: null };
+    this.mints.set(mint, entry);
+    return entry;
+  }
+
+  async run(fromSlot) {
     // Initialize RPC service
     const initialized = await this.rpcService.initialize();
     if (!initialized) {
@@ -42,34 +181,128 @@ export class TokenTrackingService {
       return false;
     }
 
+    await this.loadSupplies();
+    const metadata = await this.tokenMetadata.resolveMany(this.getTargetTokens());
+    for (const { mint, extensions } of Object.values(metadata)) {
+      if (extensions?.riskFlags.length) {
+        this.logger.warn('MINT_RISK_FLAGS', {
+          mint,
+          flags: Object.fromEntries(extensions.riskFlags.map(flag => [flag, RISK_FLAGS[flag]]))
+        });
+      }
+    }
+
     this.isRunning = true;
     this.stats.startTime = Date.now();
+    this.runStartedAt = Date.now();
 
     // Start periodic progress logging
     this.startProgressLogging();
 
-    // Start processing blocks
-    await this.rpcService.startSlotPolling(this.onNewBlock.bind(this), startingBlock);
+    // Start processing blocks. A scan that fails keeps its checkpoint at the last slot it read.
+    try {
+      await this.rpcService.startSlotPolling(this.onNewBlock.bind(this), fromSlot, this.onSlotProcessed.bind(this), this.backfill);
+    } catch (error) {
+      this.logger.error('Scan failed', { error: error.message, key: error.key });
+      this.stop();
+      throw error;
+    }
     
     return true;
   }
 
+  // Supplies are fetched once per session and kept in checkpoints. Buys still get a price without
+  // one, only market cap and share of supply stay null.
+  async loadSupplies() {
+    for (const entry of this.mints.values()) {
+      if (entry.supply) {
+        continue;
+      }
+      entry.supply = await this.rpcService.getTokenSupply(entry.mint);
+      entry.buyTracker.setSupply(entry.supply);
+      this.logger.info('Token supply loaded', { mint: entry.mint, supply: entry.supply });
+    }
+  }
 
+  // Slots are handled one at a time, so state taken between slots is consistent: every buy in
+  // it comes from a slot at or before `slot`
+  onSlotProcessed(slot) {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.latestCheckpoint = this.createCheckpoint(slot);
+    this.slotsSinceCheckpoint++;
+
+    if (this.slotsSinceCheckpoint >= config.storage.checkpointInterval) {
+      this.saveCheckpoint();
+    }
+  }
+
+  createCheckpoint(slot) {
+    return {
+      slot,
+      targetTokens: this.getTargetTokens(),
+      startingBlock: this.startingBlock,
+      backfill: this.backfill,
+      stopConditions: this.stopConditions,
+      filters: this.filters.spec,
+      pricing: this.pricingService.exportState(),
+      streamState: { ...this.streamState, elapsedMs: this.getElapsedMs() },
+      mints: Array.from(this.mints.values(), ({ mint, maxBuys, supply, buyTracker, positionLedger }) => ({
+        mint,
+        maxBuys,
+        supply,
+        tracker: buyTracker.exportState(),
+        positions: positionLedger.exportState(),
+      })),
+      stats: {
+        totalBlocks: this.stats.totalBlocks,
+        totalTransactions: this.stats.totalTransactions,
+      },
+      createdAt: Date.now(),
+    };
+  }
+
+  saveCheckpoint() {
+    if (!this.latestCheckpoint || !this.onCheckpoint || this.slotsSinceCheckpoint === 0) {
+      return;
+    }
+
+    try {
+      this.onCheckpoint(this.latestCheckpoint);
+      this.slotsSinceCheckpoint = 0;
+      this.logger.debug('CHECKPOINT_SAVED', {
+        slot: this.latestCheckpoint.slot,
+        buys_found: this.latestCheckpoint.mints.reduce((sum, { tracker }) => sum + tracker.detectedBuys.length, 0)
+      });
+    } catch (error) {
+      this.logger.error('Failed to save checkpoint', { slot: this.latestCheckpoint.slot, error: error.message });
+    }
+  }
 
   async onNewBlock(block, slot) {
     // Skip blocks before our starting block if specified
-    if (this.buyTracker.startingBlock && slot < this.buyTracker.startingBlock) {
+    if (this.startingBlock && slot < this.startingBlock) {
       return;
     }
 
-    // If we have a starting block and we're now processing blocks newer than our starting block,
-    // and we've found enough buys, mark tracking as complete
-    if (this.buyTracker.startingBlock && slot > this.buyTracker.startingBlock && this.buyTracker.getBuyCount() >= this.buyTracker.maxBuys) {
-      this.logger.info('Historical scan complete and max buys reached, marking tracking as complete');
-      this.buyTracker.markComplete();
+    // Stop conditions are checked before each block, so a block past an end slot or end time is
+    // never attributed to a mint that has stopped
+    this.observeBlock(slot, block.blockTime);
+    for (const entry of this.mints.values()) {
+      if (entry.buyTracker.isTrackingComplete()) {
+        continue;
+      }
+      const { isMet, leading } = entry.stopConditions.evaluate(this.getMintState(entry));
+      if (isMet) {
+        this.logger.info('Stop conditions met, marking mint as complete', { mint: entry.mint, condition: leading.type, slot });
+        entry.buyTracker.markComplete();
+      }
     }
 
-    if (this.buyTracker.isTrackingComplete()) {
+    // Once every buyer list is complete, keep following blocks only to update early buyers' positions
+    if (this.isTrackingComplete() && !config.positions.followAfterComplete) {
       this.logger.info('Tracking complete, stopping service');
       this.stop();
       return;
@@ -84,24 +317,51 @@ export class TokenTrackingService {
       let buyCount = 0;
       let transactionsWithTargetToken = 0;
 
-      // Process each transaction in the block
+      // Stablecoin swaps anywhere in the block price the detections in it, so the block is
+      // sampled before any transaction is attributed
+      this.pricingService.prune(slot);
+      const transactions = [];
       for (const transaction of block.transactions) {
+        // Only process successful transactions
         if (transaction.meta && !transaction.meta.err) {
-          // Only process successful transactions
           const signature = transaction.transaction.signatures[0];
-          
-          // Check if transaction involves target token before processing
+          // Block transactions don't carry their own slot and time, unlike getTransaction results
+          transaction.slot = slot;
+          transaction.blockTime = transaction.blockTime ?? block.blockTime;
+
           const balanceChanges = await this.rpcService.getTokenBalanceChanges(transaction);
-          const targetTokenChanges = balanceChanges.filter(change => 
-            change.mint === this.buyTracker.targetToken
-          );
-          
-          if (targetTokenChanges.length > 0) {
-            transactionsWithTargetToken++;
+          this.pricingService.observeTransaction(balanceChanges, slot, signature);
+          transactions.push({ transaction, signature, balanceChanges });
+        }
+      }
+
+      for (const { transaction, signature, balanceChanges } of transactions) {
+        // A transaction touching several tracked mints is attributed to each of them
+        const changedMints = new Set(balanceChanges.map(change => change.mint));
+        const touchedMints = Array.from(this.mints.values()).filter(({ mint }) => changedMints.has(mint));
+
+        if (touchedMints.length > 0) {
+          transactionsWithTargetToken++;
+        }
+
+        for (const { buyTracker, positionLedger } of touchedMints) {
+          const detections = await buyTracker.detectBuysInTransaction(transaction, signature, balanceChanges);
+          for (const detection of detections) {
+            // Filters decide what is reported; the ledger sees every trade, or a filtered sell
+            // would leave its wallet's position overstated
+            positionLedger.recordDetection(detection);
+            if (detection.filterReason) {
+              continue;
+            }
+            this.observeQuoteToken(detection.quoteToken);
+            if (this.onDetection) {
+              this.onDetection(detection);
+            }
+          }
+          buyCount += detections.filter(detection => detection.type === 'buy' && detection.buyNumber).length;
+          if (buyTracker.migration) {
+            this.followMigration(buyTracker.migration);
           }
-          
-          const buys = await this.buyTracker.detectBuysInTransaction(transaction, signature);
-          buyCount += buys.length;
         }
       }
 
@@ -111,8 +371,8 @@ export class TokenTrackingService {
           slot,
           totalTransactions: block.transactions.length,
           transactionsWithTargetToken,
-          transactionsFound: buyCount,
-          progress: this.buyTracker.getProgress()
+          buysFound: buyCount,
+          progress: this.getProgress()
         });
       }
 
@@ -121,14 +381,14 @@ export class TokenTrackingService {
         this.logger.logPerformance('PROCESS_BLOCK', blockDuration, {
           slot,
           transactionCount: block.transactions.length,
-          transactionCount: buyCount,
-          progress: this.buyTracker.getProgress()
+          buyCount,
+          progress: this.getProgress()
         });
       }
 
       if (buyCount > 0) {
-        const progress = this.buyTracker.getProgress();
-        this.logger.info(`Block ${slot}: Found ${buyCount} transactions with target token. Progress: ${progress.current}/${progress.target} (${progress.percentage}%)`);
+        const progress = this.getProgress();
+        this.logger.info(`Block ${slot}: Found ${buyCount} buys of tracked tokens. Progress (${progress.condition}): ${progress.current}/${progress.target} (${progress.percentage}%)`);
       }
 
     } catch (error) {
@@ -136,21 +396,183 @@ export class TokenTrackingService {
     }
   }
 
+  // The pool a curve migrated to joins the indexed addresses: a signature-index backfill that is
+  // running pages it from the next slot on, and a session resumed later pages its whole history
+  followMigration({ pool }) {
+    if (pool && !this.backfill.addresses.includes(pool)) {
+      this.backfill = { ...this.backfill, addresses: [...this.backfill.addresses, pool] };
+      this.rpcService.addBackfillAddress(pool);
+    }
+  }
+
+  getTargetTokens() {
+    return Array.from(this.mints.keys());
+  }
+
+  // Quote tokens are resolved in the background the first time they're seen
+  observeQuoteToken(mint) {
+    if (mint && !this.quoteTokens.has(mint)) {
+      this.quoteTokens.add(mint);
+      this.tokenMetadata.resolve(mint);
+    }
+  }
+
+  // Metadata of the tracked mints and the quote tokens seen so far, keyed by mint; tokens still
+  // being resolved are left out
+  getTokens() {
+    return this.tokenMetadata.getCached([...this.getTargetTokens(), ...this.quoteTokens]);
+  }
+
+  // Complete once every tracked mint is
+  isTrackingComplete() {
+    return this.mints.size > 0 && Array.from(this.mints.values()).every(({ buyTracker }) => buyTracker.isTrackingComplete());
+  }
+
+  getBuyCount() {
+    return Array.from(this.mints.values()).reduce((sum, { buyTracker }) => sum + buyTracker.getBuyCount(), 0);
+  }
+
+  // Buys of every tracked mint in slot order; buy numbers count per mint
+  getDetectedBuys() {
+    return Array.from(this.mints.values())
+      .flatMap(({ buyTracker }) => buyTracker.getDetectedBuys())
+      .sort((a, b) => (a.slot ?? 0) - (b.slot ?? 0));
+  }
+
+  observeBlock(slot, blockTime) {
+    const state = this.streamState;
+    state.startSlot = state.startSlot ?? this.startingBlock ?? slot;
+    state.slot = Math.max(slot, state.slot ?? slot);
+    if (blockTime) {
+      state.startTime = state.startTime ?? blockTime;
+      state.blockTime = Math.max(blockTime, state.blockTime ?? blockTime);
+    }
+  }
+
+  // Tracking time across runs of a resumed session
+  getElapsedMs() {
+    return this.streamState.elapsedMs + (this.isRunning && this.runStartedAt ? Date.now() - this.runStartedAt : 0);
+  }
+
+  // What a mint's stop conditions are evaluated against
+  getMintState({ buyTracker }) {
+    const buys = buyTracker.getDetectedBuys();
+    // Volume in the quote token of the first buy; buys paid in anything else aren't comparable
+    const quoteToken = buys[0]?.quoteToken;
+    const quoteVolume = toDecimalString(buys
+      .filter(buy => buy.quoteToken === quoteToken)
+      .reduce((sum, buy) => sum + BigInt(buy.amountSold || 0), 0n), buys[0]?.decimalsSold || 0);
+
+    return {
+      ...this.streamState,
+      elapsedMs: this.getElapsedMs(),
+      buys: buys.length,
+      uniqueBuyers: new Set(buys.map(buy => buy.buyer)).size,
+      quoteVolume,
+    };
+  }
+
+  // Progress of one mint: `current`, `target` and `percentage` follow its leading stop condition,
+  // named in `condition`; `conditions` lists every condition
+  getMintProgress(entry) {
+    const { leading, conditions } = entry.stopConditions.evaluate(this.getMintState(entry));
+    const trackerProgress = entry.buyTracker.getProgress();
+    const toPercentage = fraction => (fraction * 100).toFixed(1);
+
+    return {
+      current: leading.current,
+      target: leading.target,
+      percentage: toPercentage(leading.fraction),
+      condition: leading.type,
+      isComplete: trackerProgress.isComplete,
+      buys: trackerProgress.current,
+      classifications: trackerProgress.classifications,
+      filtered: trackerProgress.filtered,
+      bondingCurve: trackerProgress.bondingCurve,
+      migration: trackerProgress.migration,
+      pools: trackerProgress.pools,
+      conditions: conditions.map(({ fraction, ...condition }) => ({ ...condition, percentage: toPercentage(fraction) }))
+    };
+  }
+
+  // Totals across the tracked mints, with each mint's own progress under `mints`. The session
+  // finishes with its last mint, so the least advanced unfinished mint leads the overall progress.
+  getProgress() {
+    const mints = {};
+    const classifications = {};
+    const filtered = {};
+    let buys = 0;
+
+    for (const entry of this.mints.values()) {
+      const progress = this.getMintProgress(entry);
+      mints[entry.mint] = progress;
+      buys += progress.buys;
+      for (const [type, count] of Object.entries(progress.classifications)) {
+        classifications[type] = (classifications[type] || 0) + count;
+      }
+      for (const [reason, count] of Object.entries(progress.filtered)) {
+        filtered[reason] = (filtered[reason] || 0) + count;
+      }
+    }
+
+    const candidates = Object.values(mints).filter(progress => !progress.isComplete);
+    const leading = (candidates.length > 0 ? candidates : Object.values(mints))
+      .reduce((best, progress) => !best || Number(progress.percentage) < Number(best.percentage) ? progress : best, null);
+
+    return {
+      current: leading ? leading.current : 0,
+      target: leading ? leading.target : 0,
+      percentage: leading ? leading.percentage : '0.0',
+      condition: leading ? leading.condition : null,
+      isComplete: this.isTrackingComplete(),
+      buys,
+      classifications,
+      filtered,
+      // Pools of every mint, busiest first
+      pools: Object.values(mints).flatMap(progress => progress.pools).sort((a, b) => b.buys - a.buys || a.firstSlot - b.firstSlot),
+      mints
+    };
+  }
+
+  // Progress and buyers of each tracked mint, in the order the mints were given
+  // Buyers carry `sniperLabels`; each mint gets a `snipers` summary
+  getMintResults() {
+    return Array.from(this.mints.values(), entry => {
+      const { buys, summary } = this.sniperAnalyzer.analyze(entry.buyTracker.getDetectedBuys(), entry.buyTracker.launchSlot);
+      return {
+        mint: entry.mint,
+        supply: entry.supply,
+        progress: this.getMintProgress(entry),
+        buyers: buys,
+        snipers: summary
+      };
+    });
+  }
+
+  getPositionLedger(mint) {
+    return this.mints.get(mint)?.positionLedger || null;
+  }
+
   startProgressLogging() {
-    const progressInterval = setInterval(() => {
+    this.progressInterval = setInterval(() => {
       if (!this.isRunning) {
-        clearInterval(progressInterval);
+        clearInterval(this.progressInterval);
         return;
       }
 
-      const progress = this.buyTracker.getProgress();
+      const progress = this.getProgress();
       const runtime = Date.now() - this.stats.startTime;
       const runtimeMinutes = runtime / (1000 * 60);
       
       this.logger.info('TRACKING_PROGRESS', {
-        target_token: this.buyTracker.targetToken,
-        transactions_found: progress.current,
-        target_transactions: progress.target,
+        target_tokens: this.getTargetTokens(),
+        buys_found: progress.buys,
+        buys_by_mint: Object.fromEntries(Object.entries(progress.mints).map(([mint, mintProgress]) => [mint, mintProgress.buys])),
+        classifications: progress.classifications,
+        filtered: progress.filtered,
+        stop_condition: progress.condition,
+        progress_current: progress.current,
+        progress_target: progress.target,
         progress_percentage: progress.percentage,
         runtime_minutes: runtimeMinutes.toFixed(2),
         blocks_processed: this.stats.totalBlocks,
@@ -159,22 +581,30 @@ export class TokenTrackingService {
       });
 
       if (progress.isComplete) {
-        clearInterval(progressInterval);
+        clearInterval(this.progressInterval);
         this.displayResults();
       }
     }, 30000); // Log progress every 30 seconds
   }
 
   displayResults() {
-    const buys = this.buyTracker.getDetectedBuys();
-    
+    for (const { mint, buyTracker } of this.mints.values()) {
+      this.displayMintResults(mint, buyTracker.getDetectedBuys());
+    }
+  }
+
+  displayMintResults(mint, buys) {
+    const token = this.tokenMetadata.getCached([mint])[mint];
     this.logger.info('TRACKING_COMPLETED', {
-      target_token: this.buyTracker.targetToken,
-      total_transactions_found: buys.length,
+      target_token: mint,
+      target_symbol: token?.symbol || null,
+      total_buys_found: buys.length,
       first_transaction: buys[0] || null,
       last_transaction: buys[buys.length - 1] || null,
       unique_dexes: [...new Set(buys.map(buy => buy.dex))],
       unique_buyers: [...new Set(buys.map(buy => buy.buyer))].length,
+      // Buys without a USD price are left out
+      total_value_usd: buys.reduce((sum, buy) => sum + (buy.quoteValueUsd ?? 0), 0),
       time_range: {
         first_transaction_timestamp: buys[0]?.timestamp,
         last_transaction_timestamp: buys[buys.length - 1]?.timestamp
@@ -183,7 +613,7 @@ export class TokenTrackingService {
 
     // Log all transactions in a summary format
     this.logger.info('ALL_TRANSACTIONS_SUMMARY', {
-      target_token: this.buyTracker.targetToken,
+      target_token: mint,
       transactions: buys.map(buy => ({
         transaction_number: buy.buyNumber,
         tx_hash: buy.txHash,
@@ -191,6 +621,8 @@ export class TokenTrackingService {
         amount_bought: buy.amountBought,
         amount_sold: buy.amountSold,
         price_per_token: buy.pricePerToken,
+        value_usd: buy.quoteValueUsd,
+        price_usd: buy.priceUsd,
         timestamp: buy.timestamp,
         buyer: buy.buyer
       }))
@@ -199,7 +631,11 @@ export class TokenTrackingService {
 
   stop() {
     this.logger.info('Stopping Token Tracking Service');
+    // Save the last slot boundary reached, not the block still in flight
+    this.saveCheckpoint();
+    this.streamState.elapsedMs = this.getElapsedMs();
     this.isRunning = false;
+    clearInterval(this.progressInterval);
     this.rpcService.stop();
   }
 
@@ -207,15 +643,17 @@ export class TokenTrackingService {
     return {
       ...this.stats,
       runtime_ms: Date.now() - this.stats.startTime,
-      progress: this.buyTracker.getProgress(),
-      recent_transactions: this.buyTracker.getDetectedBuys().slice(-5), // Last 5 transactions
+      backfillStrategy: this.backfill.strategy,
+      progress: this.getProgress(),
+      positions: Object.fromEntries(Array.from(this.mints.values(), ({ mint, positionLedger }) => [mint, positionLedger.getSummary()])),
+      recent_transactions: this.getDetectedBuys().slice(-5), // Last 5 transactions
     };
   }
 
   // Graceful shutdown
   setupGracefulShutdown() {
     setupGracefulShutdown(this, this.logger, () => {
-      if (this.buyTracker.getBuyCount() > 0) {
+      if (this.getBuyCount() > 0) {
         this.displayResults();
       }
     });
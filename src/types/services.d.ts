@@ -5,6 +5,77 @@ declare module '*.js' {
 
 declare module '../utils/validation.js' {
   export function isValidTokenMint(tokenMint: string): boolean;
+  export function normalizeTrackedMints(
+    targets: string | Array<string | { mint: string; maxBuys?: number | null }>
+  ): Array<{ mint: string; maxBuys: number | null }> | null;
+}
+
+declare module '../utils/decimal.js' {
+  export const DECIMAL_SCALE: number;
+  export function toDecimalString(amount: bigint | string | number, decimals?: number): string;
+  export function divideDecimal(numerator: bigint | string | number, denominator: bigint | string | number, scale?: number): string;
+  export function roundDecimal(value: string, places: number): string;
+  export function toSignificant(value: string, digits: number): string;
+  export function parseDecimal(value: string | number, scale?: number): bigint;
+}
+
+declare module '../utils/mintAccount.js' {
+  export const TOKEN_PROGRAM_ID: string;
+  export const TOKEN_2022_PROGRAM_ID: string;
+  export const METADATA_PROGRAM_ID: string;
+  export const MINT_EXTENSION_TYPES: Record<number, string>;
+  export interface DecodedMint {
+    mintAuthority: string | null;
+    supply: string;
+    decimals: number;
+    isInitialized: boolean;
+    freezeAuthority: string | null;
+    extensions: Array<{ type: number; name: string; data: Uint8Array }>;
+  }
+  export function decodeMintAccount(data: Uint8Array): DecodedMint;
+  export function decodeTokenMetadataExtension(data: Uint8Array): {
+    updateAuthority: string | null;
+    mint: string;
+    name: string;
+    symbol: string;
+    uri: string;
+    additionalMetadata: Array<[string, string]>;
+  };
+  export function decodeMetaplexMetadata(data: Uint8Array): { updateAuthority: string; mint: string; name: string; symbol: string; uri: string };
+  export function getMetaplexMetadataAddress(mint: string): string;
+}
+
+declare module '../utils/tokenExtensions.js' {
+  export const SLOTS_PER_EPOCH: number;
+  export const RISK_FLAGS: Record<string, string>;
+  export interface TransferFee {
+    epoch: number;
+    maximumFee: string;
+    basisPoints: number;
+  }
+  export interface MintExtensionSummary {
+    names: string[];
+    transferFee: {
+      authority: string | null;
+      withdrawWithheldAuthority: string | null;
+      withheldAmount: string;
+      olderTransferFee: TransferFee;
+      newerTransferFee: TransferFee;
+    } | null;
+    interestBearing: {
+      rateAuthority: string | null;
+      initializationTimestamp: number;
+      preUpdateAverageRate: number;
+      lastUpdateTimestamp: number;
+      currentRate: number;
+    } | null;
+    confidentialTransfers: boolean;
+    riskFlags: string[];
+  }
+  export function summarizeMintExtensions(mint: import('../utils/mintAccount.js').DecodedMint): MintExtensionSummary;
+  export function calculateTransferFee(transferFee: MintExtensionSummary['transferFee'], slot: number, amount: bigint): bigint;
+  export function calculateInverseTransferFee(transferFee: MintExtensionSummary['transferFee'], slot: number, amount: bigint): bigint;
+  export function getInterestMultiplier(interestBearing: MintExtensionSummary['interestBearing'], timestamp: number): number;
 }
 
 declare module '../utils/shutdown.js' {
@@ -13,8 +84,25 @@ declare module '../utils/shutdown.js' {
 
 declare module './services/tokenTrackingService.js' {
   export class TokenTrackingService {
-    constructor();
-    start(targetToken: string, startingBlock?: number): Promise<boolean>;
+    constructor(options?: {
+      onDetection?: (detection: any) => void;
+      onCheckpoint?: (checkpoint: any) => void;
+      endpointPool?: import('./services/rpcEndpointPool.js').RpcEndpointPool;
+      blockSource?: import('./services/blockIngestionService.js').BlockIngestionService;
+      transport?: import('./services/rpcTransport.js').RpcTransport;
+      tokenMetadata?: import('./services/tokenMetadataService.js').TokenMetadataService;
+    });
+    start(
+      targets: string | Array<string | { mint: string; maxBuys?: number | null }>,
+      startingBlock?: number,
+      options?: {
+        backfillStrategy?: string;
+        poolAddresses?: string[];
+        stopConditions?: import('./services/stopConditions.js').StopConditionSpec;
+        filters?: import('./services/detectionFilters.js').DetectionFilterSpec;
+      }
+    ): Promise<boolean>;
+    resume(checkpoint: any): Promise<boolean>;
     stop(): void;
     getStats(): {
       totalBlocks: number;
@@ -28,56 +116,452 @@ declare module './services/tokenTrackingService.js' {
         percentage: string;
         isComplete: boolean;
       };
+      positions: Record<string, any>;
       recent_buys: any[];
+      backfillStrategy: string;
     };
-    buyTracker: {
-      getDetectedBuys(): any[];
-      getProgress(): {
-        current: number;
-        target: number;
-        percentage: string;
-        isComplete: boolean;
-      };
+    getTargetTokens(): string[];
+    isTrackingComplete(): boolean;
+    getBuyCount(): number;
+    getDetectedBuys(): any[];
+    getProgress(): {
+      current: number | null;
+      target: number;
+      percentage: string;
+      condition: string | null;
+      isComplete: boolean;
+      buys: number;
+      classifications: Record<string, number>;
+      filtered: Record<string, number>;
+      pools: import('./services/tokenBuyTracker.js').PoolBreakdown[];
+      mints: Record<string, import('./services/stopConditions.js').MintProgress>;
     };
+    getMintResults(): Array<{
+      mint: string;
+      supply: { amount: string; decimals: number } | null;
+      progress: import('./services/stopConditions.js').MintProgress;
+      buyers: any[];
+      snipers: import('./services/sniperAnalyzer.js').SniperSummary;
+    }>;
+    stopConditions: import('./services/stopConditions.js').StopConditionSpec;
+    filters: import('./services/detectionFilters.js').DetectionFilters;
+    pricingService: import('./services/pricingService.js').PricingService;
+    tokenMetadata: import('./services/tokenMetadataService.js').TokenMetadataService;
+    sniperAnalyzer: import('./services/sniperAnalyzer.js').SniperAnalyzer;
+    getTokens(): Record<string, import('./services/tokenMetadataService.js').TokenMetadata>;
+    getPositionLedger(mint: string): any;
     isRunning: boolean;
   }
 }
 
 declare module './services/tokenBuyTracker.js' {
+  // Trades of the target through one pool; volumes are in base units of the pool's quote token
+  export interface PoolBreakdown {
+    address: string;
+    dex: string;
+    mint: string;
+    quoteToken: string | null;
+    decimalsTarget: number;
+    decimalsQuote: number | null;
+    buys: number;
+    sells: number;
+    buyers: number;
+    tokensBought: string;
+    tokensSold: string;
+    buyVolume: string;
+    sellVolume: string;
+    volumeUsd: number | null;
+    firstSlot: number;
+    lastSlot: number;
+  }
+
   export class TokenBuyTracker {
     constructor(rpcService: any, instructionDecoder: any);
-    setTargetToken(tokenMint: string, startingBlock?: number): void;
-    detectBuysInTransaction(transaction: any, signature: string): Promise<any[]>;
+    launchSlot: number | null;
+    bondingCurve: { virtualSolReserves: string; virtualTokenReserves: string; realTokenReserves: string; progress: string; complete: boolean; slot: number } | null;
+    migration: { dex: string; pool: string | null; bondingCurve: string; slot: number; txHash: string } | null;
+    setTargetToken(tokenMint: string, startingBlock?: number | null, maxBuys?: number | null): void;
+    setFilters(filters: import('./services/detectionFilters.js').DetectionFilters): void;
+    setPricingService(pricingService: import('./services/pricingService.js').PricingService): void;
+    setSupply(supply: { amount: string; decimals: number } | null): void;
+    setTokenMetadata(tokenMetadata: import('./services/tokenMetadataService.js').TokenMetadataService | null): void;
+    detectBuysInTransaction(transaction: any, signature: string, balanceChanges?: any[] | null): Promise<any[]>;
+    classifyTransaction(transaction: any, balanceChanges: any[], decodedInstructions: any[]): { type: string; [key: string]: any };
+    isLiquidityDeposit(classification: { type: string; targetChange?: any }): boolean;
+    resolvePool(transaction: any, balanceChanges: any[], decodedInstructions: any[]): { address: string; dex: string; inputMint: string | null; outputMint: string | null } | null;
+    getPools(): PoolBreakdown[];
     getDetectedBuys(): any[];
     getBuyCount(): number;
+    exportState(): any;
+    importState(state: any): void;
     isTrackingComplete(): boolean;
     getProgress(): {
       current: number;
       target: number;
       percentage: string;
       isComplete: boolean;
+      bondingCurve: TokenBuyTracker['bondingCurve'];
+      migration: TokenBuyTracker['migration'];
+      pools: PoolBreakdown[];
     };
     reset(): void;
   }
 }
 
+declare module './services/stopConditions.js' {
+  export const STOP_CONDITION_TYPES: string[];
+  export const STOP_CONDITION_MODES: string[];
+  export const DEFAULT_MAX_BUYS: number;
+
+  export interface StopConditionSpec {
+    mode?: 'any' | 'all';
+    buys?: number;
+    uniqueBuyers?: number;
+    endSlot?: number;
+    endTime?: number | string;
+    quoteVolume?: number;
+    durationSeconds?: number;
+  }
+
+  export interface StopConditionProgress {
+    type: string;
+    current: number | string | null;
+    target: number;
+    percentage: string;
+    met: boolean;
+  }
+
+  export interface MintProgress {
+    current: number | string | null;
+    target: number;
+    percentage: string;
+    condition: string;
+    isComplete: boolean;
+    buys: number;
+    classifications: Record<string, number>;
+    filtered: Record<string, number>;
+    pools: import('./services/tokenBuyTracker.js').PoolBreakdown[];
+    conditions: StopConditionProgress[];
+  }
+
+  export function normalizeStopConditions(spec?: StopConditionSpec): StopConditionSpec;
+
+  export class StopConditions {
+    constructor(spec?: StopConditionSpec);
+    mode: 'any' | 'all';
+    getBuyCap(): number | null;
+    evaluate(state: {
+      buys: number;
+      uniqueBuyers: number;
+      quoteVolume: string;
+      slot: number | null;
+      blockTime: number | null;
+      startSlot: number | null;
+      startTime: number | null;
+      elapsedMs: number;
+    }): { isMet: boolean; leading: any; conditions: any[] };
+  }
+}
+
+declare module './services/detectionFilters.js' {
+  export const FILTER_REASONS: string[];
+
+  export interface DetectionFilterSpec {
+    minQuoteAmount?: number | string | null;
+    maxQuoteAmount?: number | string | null;
+    quoteMint?: string;
+    allowedDexes?: string[] | string;
+    excludedWallets?: string[] | string;
+    excludedWalletsFile?: string;
+    excludeProgramAccounts?: boolean;
+    logFiltered?: boolean;
+  }
+
+  export interface NormalizedDetectionFilters {
+    minQuoteAmount: string | null; // Decimal strings in whole tokens of quoteMint
+    maxQuoteAmount: string | null;
+    quoteMint: string;
+    allowedDexes: string[];
+    excludedWallets: string[];
+    excludeProgramAccounts: boolean;
+    logFiltered: boolean;
+  }
+
+  export function normalizeDetectionFilters(spec?: DetectionFilterSpec): NormalizedDetectionFilters;
+
+  export class DetectionFilters {
+    constructor(spec?: DetectionFilterSpec);
+    spec: NormalizedDetectionFilters;
+    logFiltered: boolean;
+    getFilterReason(detection: any): string | null;
+  }
+}
+
+declare module './services/pricingService.js' {
+  export const STABLECOIN_MINTS: string[];
+
+  export interface PriceSource {
+    method: 'stablecoin' | 'stablecoin-swaps';
+    mint: string;
+    samples?: number;
+    fromSlot?: number;
+    toSlot?: number;
+    signatures?: string[];
+  }
+
+  export class PricingService {
+    constructor(options?: { windowSlots?: number; minSampleUsd?: number; quoteMints?: string[] });
+    observeTransaction(balanceChanges: any[], slot: number, signature: string): void;
+    getPrice(mint: string, slot: number): { priceUsd: number; source: PriceSource } | null;
+    priceDetection<T extends object>(detection: T): T & {
+      quoteValueUsd: number | null;
+      priceUsd: number | null;
+      quotePriceUsd: number | null;
+      priceSource: PriceSource | null;
+    };
+    prune(slot: number): void;
+    exportState(): { samples: Record<string, any[]> };
+    importState(state: { samples: Record<string, any[]> } | null | undefined): void;
+  }
+}
+
+declare module './services/sniperAnalyzer.js' {
+  export const SNIPER_LABELS: string[];
+  export const JITO_TIP_ACCOUNTS: string[];
+
+  export interface SniperSummary {
+    launchSlot: number | null;
+    buys: number;
+    flaggedBuys: number;
+    wallets: number;
+    flaggedWallets: number;
+    labels: Record<string, number>;
+    jitoTips: string;
+  }
+
+  export class SniperAnalyzer {
+    constructor(options?: {
+      launchWindowSlots?: number;
+      sameSlotMinWallets?: number;
+      layoutMinWallets?: number;
+      layoutWindowSlots?: number;
+    });
+    analyze<T extends object>(buys: T[], launchSlot?: number | null): {
+      buys: Array<T & { sniperLabels: string[] }>;
+      summary: SniperSummary;
+    };
+    combine(mintResults: Array<{ buyers: any[] }>): Omit<SniperSummary, 'launchSlot'>;
+  }
+}
+
+declare module './services/fundingClusterService.js' {
+  export interface FundingCluster {
+    funder: string;
+    funders: Array<{ address: string; wallets: number; hop: number }>;
+    wallets: string[];
+    size: number;
+    buys: number;
+    supplyPercentage: Record<string, string | null>;
+    firstBuySlot: number;
+    lastBuySlot: number;
+    firstBuyTime: number;
+    lastBuyTime: number;
+    firstFundedAt: number | null;
+    lastFundedAt: number | null;
+  }
+
+  export class FundingClusterService {
+    constructor(options?: {
+      endpointPool?: import('./services/rpcEndpointPool.js').RpcEndpointPool;
+      transport?: import('./services/rpcTransport.js').RpcTransport;
+      maxHops?: number;
+      transactionsPerWallet?: number;
+      hubThreshold?: number;
+      ignoredFunders?: string[];
+    });
+    getClusters(buyers: any[], supplies?: Record<string, { amount: string; decimals: number } | null>): {
+      status: 'tracing' | 'complete';
+      traced: number;
+      wallets: number;
+      clusters: FundingCluster[];
+    };
+  }
+}
+
+declare module './services/launchDiscoveryService.js' {
+  export interface LaunchSlots {
+    mint: string;
+    creationSlot: number | null;
+    creationSignature: string | null;
+    poolSlot: number | null;
+    poolSignature: string | null;
+    startSlot: number | null;
+    error: string | null;
+  }
+
+  export class LaunchDiscoveryService {
+    constructor(options?: {
+      endpointPool?: import('./services/rpcEndpointPool.js').RpcEndpointPool;
+      transport?: import('./services/rpcTransport.js').RpcTransport;
+      maxSignaturePages?: number;
+      poolScanTransactions?: number;
+    });
+    discover(mint: string): Promise<LaunchSlots>;
+    discoverMany(mints: string[]): Promise<Record<string, LaunchSlots>>;
+  }
+}
+
+declare module './services/tokenMetadataService.js' {
+  export interface TokenMetadata {
+    mint: string;
+    name: string | null;
+    symbol: string | null;
+    decimals: number | null;
+    uri: string | null;
+    tokenProgram: string | null;
+    extensions: import('../utils/tokenExtensions.js').MintExtensionSummary | null;
+    source: 'token-2022' | 'metaplex' | 'known' | 'mint' | null;
+    resolvedAt: number;
+  }
+
+  export class TokenMetadataService {
+    constructor(options?: {
+      endpointPool?: import('./services/rpcEndpointPool.js').RpcEndpointPool;
+      transport?: import('./services/rpcTransport.js').RpcTransport;
+      retryInterval?: number;
+    });
+    resolve(mint: string): Promise<TokenMetadata>;
+    resolveMany(mints: string[]): Promise<Record<string, TokenMetadata>>;
+    getCached(mints: string[]): Record<string, TokenMetadata>;
+  }
+}
+
 declare module './services/rpcService.js' {
+  export const BACKFILL_STRATEGIES: string[];
+  export const SIGNATURE_PAGE_LIMIT: number;
   export class SolanaRPCService {
-    constructor();
+    constructor(options?: {
+      endpointPool?: import('./services/rpcEndpointPool.js').RpcEndpointPool;
+      blockSource?: import('./services/blockIngestionService.js').BlockIngestionService;
+      transport?: import('./services/rpcTransport.js').RpcTransport;
+    });
     initialize(): Promise<boolean>;
-    startSlotPolling(onNewBlock: (block: any, slot: number) => void): Promise<void>;
+    startSlotPolling(
+      onNewBlock: (block: any, slot: number) => void,
+      startingBlock?: number | null,
+      onSlotProcessed?: (slot: number) => void,
+      backfill?: { strategy: string; addresses: string[] }
+    ): Promise<void>;
+    backfillBySignatures(addresses: string[], startSlot: number, endSlot: number, onNewBlock: (block: any, slot: number) => void): Promise<void>;
+    addBackfillAddress(address: string): void;
     stop(): void;
     getTokenBalanceChanges(transaction: any): Promise<any[]>;
+    getTokenSupply(mint: string): Promise<{ amount: string; decimals: number } | null>;
+  }
+}
+
+declare module './services/rpcTransport.js' {
+  export const RPC_TRANSPORT_MODES: string[];
+  export class RpcTransport {
+    constructor(endpoint: string, options?: { mode?: string; fetch?: (url: string, options: any) => Promise<Response>; headers?: Record<string, string> });
+    endpoint: string;
+    mode: string;
+    readonly isRateLimited: boolean;
+    getSlot(): Promise<number>;
+    getBlock(slot: number, options?: any): Promise<any>;
+    getTransaction(signature: string, options?: any): Promise<any>;
+    getSignaturesForAddress(address: string, options?: any): Promise<any[]>;
+    getTokenSupply(mint: string): Promise<{ value: { amount: string; decimals: number; uiAmountString?: string } }>;
+    getMultipleAccounts(addresses: string[]): Promise<Array<{ data: Uint8Array; owner: { toBase58(): string } } | null>>;
+  }
+  export class RpcFixtureStore {
+    constructor(directory: string);
+    record(method: string, params: any, response: any): void;
+    next(method: string, params: any): any | null;
+  }
+  export function createRpcTransport(endpoint: string, options?: { mode?: string; fixtureDirectory?: string; headers?: Record<string, string> }): RpcTransport;
+}
+
+declare module './services/blockIngestionService.js' {
+  export class BlockIngestionService {
+    constructor(options?: {
+      endpointPool?: import('./services/rpcEndpointPool.js').RpcEndpointPool;
+      transport?: import('./services/rpcTransport.js').RpcTransport;
+      cacheSize?: number;
+    });
+    getLatestSlot(): Promise<number>;
+    getBlock(slot: number): Promise<any | null>;
+    streamSlots(
+      startSlot: number,
+      endSlot: number,
+      deliver: (block: any | null, slot: number) => Promise<void>,
+      shouldContinue?: () => boolean
+    ): Promise<void>;
+    getStats(): any;
+  }
+}
+
+declare module './services/rpcEndpointPool.js' {
+  export interface RpcEndpointDefinition {
+    url: string;
+    name?: string;
+    weight?: number;
+    maxRequestsPerSecond?: number;
+    requestDelay?: number;
+    headers?: Record<string, string>;
+    transport?: import('./services/rpcTransport.js').RpcTransport;
+  }
+  export class RpcEndpointPool {
+    constructor(
+      definitions?: RpcEndpointDefinition[],
+      options?: { healthCheckInterval?: number; failureThreshold?: number; quarantineDuration?: number; maxQuarantineDuration?: number }
+    );
+    request(method: string, ...args: any[]): Promise<any>;
+    getState(): { highestSlot: number | null; selected: string | null; endpoints: any[] };
   }
 }
 
 declare module './services/instructionDecoder.js' {
   export class InstructionDecoder {
-    constructor();
+    constructor(idlDirectory?: string);
+    registerIdl(idl: any): void;
+    getRegisteredPrograms(): { programId: string; name: string; instructions: string[]; events: string[] }[];
     decodeTransaction(transaction: any): any[];
   }
 }
 
+declare module './services/storageService.js' {
+  export class StorageService {
+    constructor(databasePath?: string);
+    createSession(session: { sessionId: string; tokenAddress: string; blockNumber?: number | null; status?: string; params?: any }): void;
+    updateSession(sessionId: string, fields: { status?: string; error?: string; progress?: any; stats?: any; stoppedAt?: number; blockNumber?: number | null; params?: any }): void;
+    getSession(sessionId: string): any | null;
+    listSessions(limit?: number): any[];
+    markInterruptedSessions(): number;
+    saveDetection(sessionId: string, detection: any): void;
+    getDetections(sessionId: string, options?: { types?: string[] | null; buyersOnly?: boolean }): any[];
+    saveCheckpoint(sessionId: string, checkpoint: any): void;
+    getCheckpoint(sessionId: string): any | null;
+    prepareResume(sessionId: string): any;
+    createSessionHooks(sessionId: string): { onDetection: (detection: any) => void; onCheckpoint: (checkpoint: any) => void };
+    close(): void;
+  }
+}
+
+declare module './services/sessionEventHub.js' {
+  export class SessionEventHub {
+    constructor(bufferSize?: number);
+    publish(sessionId: string, type: string, data: any): { id: string; seq: number; type: string; data: any; timestamp: number };
+    subscribe(
+      sessionId: string,
+      lastEventId: string | null,
+      listener: (event: any) => void,
+      onClose?: (() => void) | null
+    ): { missed: any[] | null; lastEventId: string; unsubscribe: () => void };
+    closeSession(sessionId: string): void;
+  }
+}
+
 declare module './services/logger.js' {
   export class Logger {
     constructor(level: string);
@@ -93,6 +577,7 @@ declare module './config/index.js' {
   export const config: {
     solana: {
       rpcUrl: string;
+      endpoints: import('./services/rpcEndpointPool.js').RpcEndpointDefinition[];
       commitment: string;
       slotPollInterval: number;
       maxRetries: number;
@@ -102,20 +587,71 @@ declare module './config/index.js' {
       rateLimitBackoffMultiplier: number;
       maxRateLimitDelay: number;
       maxSlotsPerBatch: number;
-      slotProcessingDelay: number;
+      fetchConcurrency: number;
+      minFetchConcurrency: number;
+      maxFetchConcurrency: number;
+      historicalBatchSize: number;
     };
     logging: {
       level: string;
       enablePerformanceLogs: boolean;
     };
-    dexPrograms: {
-      [key: string]: {
-        programId: string;
-        name: string;
-        discriminators: {
-          [key: string]: number[];
-        };
-      };
+    positions: {
+      followAfterComplete: boolean;
+    };
+    decoder: {
+      idlDirectory: string;
+    };
+    pricing: {
+      windowSlots: number;
+      minSampleUsd: number;
+      quoteMints: string[];
+    };
+    metadata: {
+      retryInterval: number;
+    };
+    discovery: {
+      maxSignaturePages: number;
+      poolScanTransactions: number;
+    };
+    funding: {
+      maxHops: number;
+      transactionsPerWallet: number;
+      hubThreshold: number;
+      ignoredFunders: string[];
+    };
+    snipers: {
+      launchWindowSlots: number;
+      sameSlotMinWallets: number;
+      layoutMinWallets: number;
+      layoutWindowSlots: number;
+    };
+    backfill: {
+      defaultStrategy: string;
+    };
+    rpcPool: {
+      healthCheckInterval: number;
+      failureThreshold: number;
+      quarantineDuration: number;
+      maxQuarantineDuration: number;
+    };
+    ingestion: {
+      blockCacheSize: number;
+      batchSlots: number;
+    };
+    rpcTransport: {
+      mode: string;
+      fixtureDirectory: string;
+    };
+    storage: {
+      databasePath: string;
+      progressPersistInterval: number;
+      checkpointInterval: number;
+    };
+    events: {
+      bufferSize: number;
+      progressInterval: number;
+      heartbeatInterval: number;
     };
   };
 }
\ No newline at end of file
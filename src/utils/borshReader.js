@@ -0,0 +1,166 @@
+/**
+ * Minimal Borsh reader used to decode instruction and event arguments described by
+ * Anchor IDL type definitions.
+ */
+
+import { PublicKey } from '@solana/web3.js';
+
+export class BorshReader {
+  /**
+   * @param {Uint8Array|number[]} bytes - The serialized data
+   * @param {Array} types - The `types` section of the IDL, used to resolve `defined` types
+   */
+  constructor(bytes, types = []) {
+    this.bytes = Uint8Array.from(bytes);
+    this.view = new DataView(this.bytes.buffer, this.bytes.byteOffset, this.bytes.byteLength);
+    this.offset = 0;
+    this.types = new Map(types.map(type => [type.name, type]));
+  }
+
+  remaining() {
+    return this.bytes.length - this.offset;
+  }
+
+  ensure(length) {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error(`Unexpected end of data at offset ${this.offset} (need ${length} bytes)`);
+    }
+  }
+
+  readUnsigned(size) {
+    this.ensure(size);
+    let value = 0n;
+    for (let i = size - 1; i >= 0; i--) {
+      value = (value << 8n) | BigInt(this.bytes[this.offset + i]);
+    }
+    this.offset += size;
+    return value;
+  }
+
+  readSigned(size) {
+    const value = this.readUnsigned(size);
+    const bits = BigInt(size * 8);
+    return value >= (1n << (bits - 1n)) ? value - (1n << bits) : value;
+  }
+
+  readBytes(length) {
+    this.ensure(length);
+    const slice = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  readString() {
+    const length = Number(this.readUnsigned(4));
+    return new TextDecoder().decode(this.readBytes(length));
+  }
+
+  readPublicKey() {
+    return new PublicKey(this.readBytes(32)).toBase58();
+  }
+
+  /**
+   * Reads a value of the given IDL type. Integers wider than 32 bits are returned as
+   * decimal strings so they survive JSON serialization without losing precision.
+   */
+  read(type) {
+    if (typeof type === 'string') {
+      return this.readPrimitive(type);
+    }
+    if (type.vec) {
+      const length = Number(this.readUnsigned(4));
+      return Array.from({ length }, () => this.read(type.vec));
+    }
+    if (type.option || type.coption) {
+      const present = type.option ? this.readUnsigned(1) : this.readUnsigned(4);
+      return present ? this.read(type.option || type.coption) : null;
+    }
+    if (type.array) {
+      const [itemType, length] = type.array;
+      return Array.from({ length }, () => this.read(itemType));
+    }
+    if (type.defined) {
+      const name = typeof type.defined === 'string' ? type.defined : type.defined.name;
+      return this.readDefined(name);
+    }
+    throw new Error(`Unsupported IDL type: ${JSON.stringify(type)}`);
+  }
+
+  readPrimitive(type) {
+    switch (type) {
+      case 'bool':
+        return this.readUnsigned(1) !== 0n;
+      case 'u8':
+      case 'u16':
+      case 'u32':
+        return Number(this.readUnsigned(parseInt(type.slice(1)) / 8));
+      case 'i8':
+      case 'i16':
+      case 'i32':
+        return Number(this.readSigned(parseInt(type.slice(1)) / 8));
+      case 'u64':
+      case 'u128':
+        return this.readUnsigned(parseInt(type.slice(1)) / 8).toString();
+      case 'i64':
+      case 'i128':
+        return this.readSigned(parseInt(type.slice(1)) / 8).toString();
+      case 'f32': {
+        this.ensure(4);
+        const value = this.view.getFloat32(this.offset, true);
+        this.offset += 4;
+        return value;
+      }
+      case 'f64': {
+        this.ensure(8);
+        const value = this.view.getFloat64(this.offset, true);
+        this.offset += 8;
+        return value;
+      }
+      case 'string':
+        return this.readString();
+      case 'bytes':
+        return Array.from(this.readBytes(Number(this.readUnsigned(4))));
+      case 'publicKey':
+      case 'pubkey':
+        return this.readPublicKey();
+      default:
+        throw new Error(`Unsupported IDL primitive: ${type}`);
+    }
+  }
+
+  readDefined(name) {
+    const definition = this.types.get(name);
+    if (!definition) {
+      throw new Error(`Unknown IDL type: ${name}`);
+    }
+
+    const { kind, fields, variants } = definition.type;
+    if (kind === 'struct') {
+      return this.readFields(fields || []);
+    }
+    if (kind === 'enum') {
+      const index = Number(this.readUnsigned(1));
+      const variant = variants[index];
+      if (!variant) {
+        throw new Error(`Unknown variant ${index} for enum ${name}`);
+      }
+      if (!variant.fields || variant.fields.length === 0) {
+        return variant.name;
+      }
+      return { [variant.name]: this.readFields(variant.fields) };
+    }
+    throw new Error(`Unsupported IDL type kind: ${kind}`);
+  }
+
+  // Reads named struct fields, or tuple fields given as bare types
+  readFields(fields) {
+    if (fields.length > 0 && fields[0].name === undefined) {
+      return fields.map(field => this.read(field));
+    }
+    const result = {};
+    for (const field of fields) {
+      result[field.name] = this.read(field.type);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Exact decimal helpers. Token amounts are integers in base units, so prices and ratios are
+ * computed on BigInt and returned as decimal strings instead of going through floating point.
+ */
+
+// Fractional digits kept by divideDecimal, enough for prices of high-supply tokens
+export const DECIMAL_SCALE = 18;
+
+const toBigInt = value => typeof value === 'bigint' ? value : BigInt(value);
+
+function trimFraction(value) {
+  return value.includes('.') ? value.replace(/\.?0+$/, '') : value;
+}
+
+/**
+ * Converts a base-unit amount to a decimal string, e.g. ('1500000', 6) -> '1.5'
+ * @param {bigint|string|number} amount - Integer amount in base units
+ * @param {number} decimals - Decimals of the token
+ * @returns {string} - The exact amount in whole tokens
+ */
+export function toDecimalString(amount, decimals = 0) {
+  const value = toBigInt(amount);
+  const negative = value < 0n;
+  const digits = (negative ? -value : value).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals);
+  return (negative ? '-' : '') + trimFraction(decimals > 0 ? `${whole}.${fraction}` : whole);
+}
+
+/**
+ * Divides two integers into a decimal string, rounded half up at `scale` fractional digits
+ * @param {bigint|string|number} numerator - Integer numerator
+ * @param {bigint|string|number} denominator - Integer denominator, not zero
+ * @param {number} scale - Fractional digits to keep
+ * @returns {string} - The quotient without trailing zeros
+ */
+export function divideDecimal(numerator, denominator, scale = DECIMAL_SCALE) {
+  let num = toBigInt(numerator);
+  let den = toBigInt(denominator);
+  if (den === 0n) {
+    throw new RangeError('Division by zero');
+  }
+  if (den < 0n) {
+    num = -num;
+    den = -den;
+  }
+
+  const negative = num < 0n;
+  const scaled = (negative ? -num : num) * 10n ** BigInt(scale);
+  const rounded = (scaled * 2n + den) / (den * 2n);
+  return toDecimalString(negative ? -rounded : rounded, scale);
+}
+
+/**
+ * Rounds a decimal string half up to a fixed number of fractional digits
+ * @param {string} value - Decimal string such as '0.000123456'
+ * @param {number} places - Fractional digits in the result
+ * @returns {string} - The rounded value with exactly `places` fractional digits
+ */
+export function roundDecimal(value, places) {
+  const [whole, fraction = ''] = String(value).replace('-', '').split('.');
+  const negative = String(value).startsWith('-');
+  const units = BigInt(whole + fraction.padEnd(places + 1, '0').slice(0, places + 1));
+  const rounded = (units + 5n) / 10n;
+  const result = toDecimalString(rounded, places);
+  const padded = places > 0
+    ? result.includes('.') ? result.padEnd(result.indexOf('.') + places + 1, '0') : `${result}.${'0'.repeat(places)}`
+    : result;
+  return negative && rounded !== 0n ? `-${padded}` : padded;
+}
+
+/**
+ * Keeps the first `digits` significant digits of a decimal string, for values such as token
+ * prices that are often far below one
+ * @param {string} value - Decimal string
+ * @param {number} digits - Significant digits to keep
+ * @returns {string} - The rounded value without trailing zeros
+ */
+export function toSignificant(value, digits) {
+  const [whole, fraction = ''] = String(value).replace('-', '').split('.');
+  if (/[1-9]/.test(whole)) {
+    return trimFraction(roundDecimal(value, Math.max(digits - whole.replace(/^0+/, '').length, 0)));
+  }
+  const leadingZeros = fraction.length - fraction.replace(/^0+/, '').length;
+  return trimFraction(roundDecimal(value, leadingZeros + digits));
+}
+
+/**
+ * Parses a decimal string into an integer with `scale` fractional digits, truncating any digits
+ * past it, e.g. ('1.5', 6) -> 1500000n
+ * @param {string|number} value - Decimal string, or a number such as a configured target
+ * @param {number} scale - Fractional digits of the result
+ * @returns {bigint} - The value in units of 10^-scale
+ * @throws {RangeError} When the value isn't a decimal number
+ */
+export function parseDecimal(value, scale = DECIMAL_SCALE) {
+  const match = String(value).trim().match(/^(-?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i);
+  if (!match || !(match[2] || match[3])) {
+    throw new RangeError(`Invalid decimal: ${value}`);
+  }
+
+  // Numbers such as 1e-7 stringify with an exponent, which moves the decimal point
+  const [, sign, whole, fraction = '', exponent = '0'] = match;
+  const shift = scale + Number(exponent) - fraction.length;
+  const digits = BigInt(`${whole}${fraction}` || '0');
+  const units = shift >= 0 ? digits * 10n ** BigInt(shift) : digits / 10n ** BigInt(-shift);
+  return sign ? -units : units;
+}
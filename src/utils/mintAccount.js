@@ -0,0 +1,138 @@
+/**
+ * Decoding of SPL Token and Token-2022 mint accounts and of Metaplex token metadata accounts
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { BorshReader } from './borshReader.js';
+
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+export const METADATA_PROGRAM_ID = 'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s';
+
+// Token-2022 extension types by their on-chain number
+export const MINT_EXTENSION_TYPES = {
+  1: 'transferFeeConfig',
+  3: 'mintCloseAuthority',
+  4: 'confidentialTransferMint',
+  6: 'defaultAccountState',
+  9: 'nonTransferable',
+  10: 'interestBearingConfig',
+  12: 'permanentDelegate',
+  14: 'transferHook',
+  16: 'confidentialTransferFeeConfig',
+  18: 'metadataPointer',
+  19: 'tokenMetadata',
+  20: 'groupPointer',
+  21: 'tokenGroup',
+  22: 'groupMemberPointer',
+  23: 'tokenGroupMember',
+  24: 'confidentialMintBurn',
+  25: 'scaledUiAmount',
+  26: 'pausable',
+};
+
+const MINT_SIZE = 82;
+// Token-2022 pads mints with extensions to the size of a token account, then adds the account type
+const EXTENSIONS_OFFSET = 166;
+const ACCOUNT_TYPE_MINT = 1;
+
+function readOptionalKey(reader) {
+  const present = reader.readUnsigned(4);
+  const key = reader.readPublicKey();
+  return present ? key : null;
+}
+
+/**
+ * Decodes a mint account. Token-2022 extensions are returned undecoded, as `{ type, name, data }`.
+ * @param {Uint8Array} data - Account data
+ * @returns {{ mintAuthority: string|null, supply: string, decimals: number, isInitialized: boolean,
+ *   freezeAuthority: string|null, extensions: Array<{ type: number, name: string, data: Uint8Array }> }}
+ */
+export function decodeMintAccount(data) {
+  const reader = new BorshReader(data.subarray(0, MINT_SIZE));
+  const mint = {
+    mintAuthority: readOptionalKey(reader),
+    supply: reader.readUnsigned(8).toString(),
+    decimals: Number(reader.readUnsigned(1)),
+    isInitialized: reader.readUnsigned(1) === 1n,
+    freezeAuthority: readOptionalKey(reader),
+    extensions: [],
+  };
+
+  if (data.length <= EXTENSIONS_OFFSET || data[EXTENSIONS_OFFSET - 1] !== ACCOUNT_TYPE_MINT) {
+    return mint;
+  }
+
+  const extensions = new BorshReader(data.subarray(EXTENSIONS_OFFSET));
+  while (extensions.remaining() >= 4) {
+    const type = Number(extensions.readUnsigned(2));
+    const length = Number(extensions.readUnsigned(2));
+    // Trailing zero padding reads as an uninitialized extension
+    if (type === 0) {
+      break;
+    }
+    mint.extensions.push({ type, name: MINT_EXTENSION_TYPES[type] || `extension${type}`, data: extensions.readBytes(length) });
+  }
+  return mint;
+}
+
+// Metaplex pads names, symbols and URIs with null bytes
+const trimPadding = value => value.replace(/\0/g, '').trim();
+
+/**
+ * Decodes the Token-2022 token metadata extension of a mint
+ * @param {Uint8Array} data - Extension data from decodeMintAccount
+ * @returns {{ updateAuthority: string|null, mint: string, name: string, symbol: string, uri: string,
+ *   additionalMetadata: Array<[string, string]> }}
+ */
+export function decodeTokenMetadataExtension(data) {
+  const reader = new BorshReader(data);
+  const updateAuthority = reader.readPublicKey();
+  const mint = reader.readPublicKey();
+  const name = reader.readString();
+  const symbol = reader.readString();
+  const uri = reader.readString();
+  const count = Number(reader.readUnsigned(4));
+  const additionalMetadata = Array.from({ length: count }, () => [reader.readString(), reader.readString()]);
+
+  return {
+    // An all-zero authority means the metadata can no longer be updated
+    updateAuthority: updateAuthority === PublicKey.default.toBase58() ? null : updateAuthority,
+    mint,
+    name: trimPadding(name),
+    symbol: trimPadding(symbol),
+    uri: trimPadding(uri),
+    additionalMetadata,
+  };
+}
+
+/**
+ * Decodes the name, symbol and URI of a Metaplex token metadata account
+ * @param {Uint8Array} data - Account data
+ * @returns {{ updateAuthority: string, mint: string, name: string, symbol: string, uri: string }}
+ */
+export function decodeMetaplexMetadata(data) {
+  const reader = new BorshReader(data);
+  reader.readUnsigned(1); // account key
+  return {
+    updateAuthority: reader.readPublicKey(),
+    mint: reader.readPublicKey(),
+    name: trimPadding(reader.readString()),
+    symbol: trimPadding(reader.readString()),
+    uri: trimPadding(reader.readString()),
+  };
+}
+
+/**
+ * Address of the Metaplex metadata account of a mint
+ * @param {string} mint - Mint address
+ * @returns {string} - The metadata PDA
+ */
+export function getMetaplexMetadataAddress(mint) {
+  const programId = new PublicKey(METADATA_PROGRAM_ID);
+  const [address] = PublicKey.findProgramAddressSync(
+    [Buffer.from('metadata'), programId.toBuffer(), new PublicKey(mint).toBuffer()],
+    programId
+  );
+  return address.toBase58();
+}
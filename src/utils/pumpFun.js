@@ -0,0 +1,82 @@
+/**
+ * Pump.fun bonding curves: trades as the program's trade events report them, how far a curve has
+ * filled, and the migration of a filled curve to an AMM pool.
+ */
+
+import { divideDecimal } from './decimal.js';
+
+export const PUMP_FUN_PROGRAM_ID = '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P';
+
+// Every curve starts from the same reserves, and trades move virtual and real token reserves by
+// the same amount, so the real reserves follow from the virtual ones in each trade event
+const INITIAL_VIRTUAL_TOKEN_RESERVES = 1073000000000000n;
+const INITIAL_REAL_TOKEN_RESERVES = 793100000000000n;
+
+// `migrate` moves a filled curve into a PumpSwap pool; the older `withdraw` handed it to a
+// migration account that created a Raydium pool in a later transaction
+const MIGRATION_INSTRUCTIONS = { migrate: 'PumpSwap', withdraw: 'Raydium AMM v4' };
+
+const fromPumpFun = (decodedInstructions, type) => decodedInstructions.filter(instruction =>
+  instruction.programId === PUMP_FUN_PROGRAM_ID && instruction.decodedData.type === type
+);
+
+/**
+ * Trade events emitted for a mint and trader, in instruction order
+ * @param {Array} decodedInstructions - Result of InstructionDecoder.decodeTransaction
+ * @param {string} mint - Mint address
+ * @param {string} user - Trader address
+ * @returns {Array} - Decoded `TradeEvent` fields
+ */
+export function findTradeEvents(decodedInstructions, mint, user) {
+  return fromPumpFun(decodedInstructions, 'event')
+    .filter(({ decodedData }) => decodedData.event === 'trade_event' && decodedData.args)
+    .map(({ decodedData }) => decodedData.args)
+    .filter(event => event.mint === mint && event.user === user);
+}
+
+/**
+ * State of a curve after a trade
+ * @param {Object} tradeEvent - Decoded `TradeEvent` fields
+ * @returns {{ virtualSolReserves: string, virtualTokenReserves: string, realTokenReserves: string,
+ *   progress: string, complete: boolean }} `progress` is the percentage of the curve's tokens sold
+ */
+export function getCurveState(tradeEvent) {
+  const virtualTokenReserves = BigInt(tradeEvent.virtual_token_reserves);
+  const realTokenReserves = virtualTokenReserves - (INITIAL_VIRTUAL_TOKEN_RESERVES - INITIAL_REAL_TOKEN_RESERVES);
+  const remaining = realTokenReserves > 0n ? realTokenReserves : 0n;
+  return {
+    virtualSolReserves: tradeEvent.virtual_sol_reserves,
+    virtualTokenReserves: virtualTokenReserves.toString(),
+    realTokenReserves: remaining.toString(),
+    progress: divideDecimal((INITIAL_REAL_TOKEN_RESERVES - remaining) * 100n, INITIAL_REAL_TOKEN_RESERVES, 2),
+    complete: remaining === 0n,
+  };
+}
+
+/**
+ * The curve a transaction created for a mint, or null
+ * @param {Array} decodedInstructions - Result of InstructionDecoder.decodeTransaction
+ * @param {string} mint - Mint address
+ * @returns {{ bondingCurve: string, creator: string }|null}
+ */
+export function findCurveCreation(decodedInstructions, mint) {
+  const create = fromPumpFun(decodedInstructions, 'create').find(({ namedAccounts }) => namedAccounts.mint === mint);
+  return create ? { bondingCurve: create.namedAccounts.bonding_curve, creator: create.namedAccounts.user } : null;
+}
+
+/**
+ * The migration of a mint's curve in a transaction, or null
+ * @param {Array} decodedInstructions - Result of InstructionDecoder.decodeTransaction
+ * @param {string} mint - Mint address
+ * @returns {{ dex: string, pool: string|null, bondingCurve: string }|null} `pool` is null for
+ *   Raydium migrations, whose pool is created afterwards
+ */
+export function findMigration(decodedInstructions, mint) {
+  for (const [type, dex] of Object.entries(MIGRATION_INSTRUCTIONS)) {
+    const instruction = fromPumpFun(decodedInstructions, type).find(({ namedAccounts }) => namedAccounts.mint === mint);
+    if (instruction) {
+      return { dex, pool: instruction.namedAccounts.pool || null, bondingCurve: instruction.namedAccounts.bonding_curve };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,159 @@
+/**
+ * Token-2022 mint extensions that change how balance deltas translate into traded amounts:
+ * transfer fees, interest-bearing UI amounts and confidential balances, plus the extensions
+ * that let an authority move, freeze or lock holders' tokens.
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { BorshReader } from './borshReader.js';
+
+const MAX_FEE_BASIS_POINTS = 10000n;
+// Mainnet epochs have a fixed length; transfer fee schedules switch at epoch boundaries
+export const SLOTS_PER_EPOCH = 432000;
+// Interest-bearing mints compound continuously over a 365.24-day year
+const SECONDS_PER_YEAR = 60 * 60 * 24 * 365.24;
+const DEFAULT_STATE_FROZEN = 2;
+
+// Reasons a mint is flagged on every detection, with the extension that causes each
+export const RISK_FLAGS = {
+  permanentDelegate: 'An authority can transfer or burn tokens from any account',
+  transferHook: 'Every transfer runs a program chosen by the mint',
+  transferFee: 'Transfers are charged a fee that an authority can change',
+  defaultFrozen: 'New token accounts start frozen',
+  nonTransferable: 'Tokens cannot be transferred once received',
+  pausable: 'An authority can pause all transfers',
+};
+
+// An all-zero key stands for "none" in Token-2022 extensions
+function readOptionalNonZeroKey(reader) {
+  const key = reader.readPublicKey();
+  return key === PublicKey.default.toBase58() ? null : key;
+}
+
+function readTransferFee(reader) {
+  return {
+    epoch: Number(reader.readUnsigned(8)),
+    maximumFee: reader.readUnsigned(8).toString(),
+    basisPoints: Number(reader.readUnsigned(2)),
+  };
+}
+
+function decodeTransferFeeConfig(data) {
+  const reader = new BorshReader(data);
+  return {
+    authority: readOptionalNonZeroKey(reader),
+    withdrawWithheldAuthority: readOptionalNonZeroKey(reader),
+    withheldAmount: reader.readUnsigned(8).toString(),
+    olderTransferFee: readTransferFee(reader),
+    newerTransferFee: readTransferFee(reader),
+  };
+}
+
+function decodeInterestBearingConfig(data) {
+  const reader = new BorshReader(data);
+  return {
+    rateAuthority: readOptionalNonZeroKey(reader),
+    initializationTimestamp: Number(reader.readSigned(8)),
+    preUpdateAverageRate: Number(reader.readSigned(2)),
+    lastUpdateTimestamp: Number(reader.readSigned(8)),
+    currentRate: Number(reader.readSigned(2)),
+  };
+}
+
+/**
+ * Summarizes the extensions of a decoded Token-2022 mint
+ * @param {Object} mint - Result of decodeMintAccount
+ * @returns {{ names: string[], transferFee: Object|null, interestBearing: Object|null,
+ *   confidentialTransfers: boolean, riskFlags: string[] }}
+ */
+export function summarizeMintExtensions(mint) {
+  const byName = new Map(mint.extensions.map(extension => [extension.name, extension.data]));
+  const key = name => byName.has(name) ? readOptionalNonZeroKey(new BorshReader(byName.get(name))) : null;
+
+  const transferFee = byName.has('transferFeeConfig') ? decodeTransferFeeConfig(byName.get('transferFeeConfig')) : null;
+  const interestBearing = byName.has('interestBearingConfig') ? decodeInterestBearingConfig(byName.get('interestBearingConfig')) : null;
+
+  const riskFlags = [];
+  if (key('permanentDelegate')) {
+    riskFlags.push('permanentDelegate');
+  }
+  // The hook program follows its authority
+  if (byName.has('transferHook') && readOptionalNonZeroKey(new BorshReader(byName.get('transferHook').subarray(32)))) {
+    riskFlags.push('transferHook');
+  }
+  if (transferFee && (transferFee.authority || transferFee.newerTransferFee.basisPoints > 0)) {
+    riskFlags.push('transferFee');
+  }
+  if (byName.get('defaultAccountState')?.[0] === DEFAULT_STATE_FROZEN) {
+    riskFlags.push('defaultFrozen');
+  }
+  if (byName.has('nonTransferable')) {
+    riskFlags.push('nonTransferable');
+  }
+  if (byName.has('pausable')) {
+    riskFlags.push('pausable');
+  }
+
+  return {
+    names: mint.extensions.map(extension => extension.name),
+    transferFee,
+    interestBearing,
+    confidentialTransfers: byName.has('confidentialTransferMint'),
+    riskFlags,
+  };
+}
+
+function getEpochFee(transferFee, slot) {
+  const epoch = Math.floor(slot / SLOTS_PER_EPOCH);
+  return epoch >= transferFee.newerTransferFee.epoch ? transferFee.newerTransferFee : transferFee.olderTransferFee;
+}
+
+/**
+ * Fee withheld from a transfer of `amount` sent, as Token-2022 computes it
+ * @param {Object} transferFee - `transferFee` from summarizeMintExtensions
+ * @param {number} slot - Slot of the transfer, which selects the fee schedule
+ * @param {bigint} amount - Amount sent, in base units
+ * @returns {bigint} - The fee, in base units
+ */
+export function calculateTransferFee(transferFee, slot, amount) {
+  const { basisPoints, maximumFee } = getEpochFee(transferFee, slot);
+  if (basisPoints === 0 || amount === 0n) {
+    return 0n;
+  }
+  const fee = (amount * BigInt(basisPoints) + MAX_FEE_BASIS_POINTS - 1n) / MAX_FEE_BASIS_POINTS;
+  return fee < BigInt(maximumFee) ? fee : BigInt(maximumFee);
+}
+
+/**
+ * Fee withheld from a transfer that delivered `amount`, i.e. what the sender paid on top
+ * @param {Object} transferFee - `transferFee` from summarizeMintExtensions
+ * @param {number} slot - Slot of the transfer
+ * @param {bigint} amount - Amount received, in base units
+ * @returns {bigint} - The fee, in base units
+ */
+export function calculateInverseTransferFee(transferFee, slot, amount) {
+  const { basisPoints, maximumFee } = getEpochFee(transferFee, slot);
+  const bps = BigInt(basisPoints);
+  if (bps === 0n || amount === 0n) {
+    return 0n;
+  }
+  if (bps === MAX_FEE_BASIS_POINTS) {
+    return BigInt(maximumFee);
+  }
+  const denominator = MAX_FEE_BASIS_POINTS - bps;
+  const preFeeAmount = (amount * MAX_FEE_BASIS_POINTS + denominator - 1n) / denominator;
+  return preFeeAmount - amount >= BigInt(maximumFee) ? BigInt(maximumFee) : preFeeAmount - amount;
+}
+
+/**
+ * Factor between an interest-bearing mint's raw amounts and the amounts wallets display
+ * @param {Object} interestBearing - `interestBearing` from summarizeMintExtensions
+ * @param {number} timestamp - Unix time in seconds
+ * @returns {number} - The multiplier, 1 before any interest accrued
+ */
+export function getInterestMultiplier(interestBearing, timestamp) {
+  const { initializationTimestamp, preUpdateAverageRate, lastUpdateTimestamp, currentRate } = interestBearing;
+  const preUpdate = Math.exp(preUpdateAverageRate * (lastUpdateTimestamp - initializationTimestamp) / SECONDS_PER_YEAR / 10000);
+  const postUpdate = Math.exp(currentRate * (timestamp - lastUpdateTimestamp) / SECONDS_PER_YEAR / 10000);
+  return preUpdate * postUpdate;
+}
@@ -0,0 +1,65 @@
+/**
+ * Shared transaction helpers
+ */
+
+/**
+ * Resolves the full account key list of a transaction. For v0 transactions the static keys
+ * are followed by the writable and then the readonly addresses loaded from lookup tables,
+ * which is the order `programIdIndex`, instruction account indexes and token balance
+ * `accountIndex` values refer to.
+ * @param {Object} transaction - A transaction from getBlock or getTransaction
+ * @returns {string[]} - Base58 account keys
+ */
+export function getAccountKeys(transaction) {
+  const message = transaction?.transaction?.message;
+  if (!message) {
+    return [];
+  }
+
+  const staticKeys = message.staticAccountKeys || message.accountKeys || [];
+  const loadedAddresses = transaction.meta?.loadedAddresses || {};
+
+  return [
+    ...staticKeys,
+    ...(loadedAddresses.writable || []),
+    ...(loadedAddresses.readonly || []),
+  ].map(key => (key.pubkey || key).toString());
+}
+
+/**
+ * Returns the accounts that signed the transaction (the fee payer first).
+ * @param {Object} transaction - A transaction from getBlock or getTransaction
+ * @returns {string[]} - Base58 signer keys
+ */
+export function getSigners(transaction) {
+  const header = transaction?.transaction?.message?.header;
+  const keys = getAccountKeys(transaction);
+  if (!header) {
+    return keys.slice(0, 1);
+  }
+  return keys.slice(0, header.numRequiredSignatures);
+}
+
+/**
+ * Returns the top-level instructions of a transaction in one shape for both legacy and v0
+ * messages: `{ programIdIndex, accounts, data }`, where data is base58 or raw bytes.
+ * @param {Object} transaction - A transaction from getBlock or getTransaction
+ * @returns {Array} - Normalized instructions
+ */
+export function getInstructions(transaction) {
+  const message = transaction?.transaction?.message;
+  if (!message) {
+    return [];
+  }
+
+  // MessageV0 only carries compiled instructions; legacy messages expose `instructions`
+  if (message.instructions) {
+    return message.instructions;
+  }
+
+  return (message.compiledInstructions || []).map(instruction => ({
+    programIdIndex: instruction.programIdIndex,
+    accounts: instruction.accountKeyIndexes,
+    data: instruction.data,
+  }));
+}
@@ -21,4 +21,29 @@ export function isValidTokenMint(tokenMint) {
   // Basic base58 character check
   const base58Regex = /^[1-9A-HJ-NP-Za-km-z]+$/;
   return base58Regex.test(tokenMint);
-} 
\ No newline at end of file
+} 
+/**
+ * Normalizes the mints a session tracks: a single address, a list of addresses, or a list of
+ * `{ mint, maxBuys }` entries. Repeated mints are kept once.
+ * @param {string|Array<string|{mint: string, maxBuys?: number}>} targets - Mints to track
+ * @returns {Array<{mint: string, maxBuys: number|null}>|null} - The mints, or null if any entry is invalid
+ */
+export function normalizeTrackedMints(targets) {
+  const entries = Array.isArray(targets) ? targets : [targets];
+  const mints = new Map();
+
+  for (const entry of entries) {
+    const { mint, maxBuys = null } = typeof entry === 'string' ? { mint: entry } : entry || {};
+    if (!isValidTokenMint(mint)) {
+      return null;
+    }
+    if (maxBuys !== null && !(Number.isInteger(maxBuys) && maxBuys > 0)) {
+      return null;
+    }
+    if (!mints.has(mint)) {
+      mints.set(mint, { mint, maxBuys });
+    }
+  }
+
+  return mints.size > 0 ? Array.from(mints.values()) : null;
+}
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../src/config/index.js';
+import { BlockIngestionService } from '../src/services/blockIngestionService.js';
+import { FetchError } from '../src/services/fetchPipeline.js';
+
+config.logging.level = 'error';
+
+// A service whose blocks come from a stub that counts requests, failing the slots in `failing`
+const createService = (failing = []) => {
+  const service = new BlockIngestionService({ cacheSize: 1000 });
+  const calls = { bySlot: new Map(), inflight: 0, maxInflight: 0 };
+  service.fetchPipeline.sleep = () => Promise.resolve();
+  service.rpcService.fetchBlock = async slot => {
+    calls.bySlot.set(slot, (calls.bySlot.get(slot) || 0) + 1);
+    calls.inflight++;
+    calls.maxInflight = Math.max(calls.maxInflight, calls.inflight);
+    await new Promise(resolve => setTimeout(resolve, 1));
+    calls.inflight--;
+    if (failing.includes(slot)) {
+      throw Object.assign(new Error('Block not available'), { code: -32004 });
+    }
+    return { slot, transactions: [] };
+  };
+  return { service, calls };
+};
+
+const read = async (service, startSlot, endSlot) => {
+  const slots = [];
+  await service.streamSlots(startSlot, endSlot, async (block, slot) => {
+    assert.equal(block.slot, slot);
+    slots.push(slot);
+  });
+  return slots;
+};
+
+test('readers share one fetch loop that fetches each slot once', async () => {
+  const { service, calls } = createService();
+  const concurrency = service.fetchPipeline.maxConcurrency;
+
+  const [first, second, third] = await Promise.all([
+    read(service, 100, 160),
+    read(service, 130, 190),
+    read(service, 500, 540)
+  ]);
+
+  assert.deepEqual(first, Array.from({ length: 61 }, (_, i) => 100 + i));
+  assert.deepEqual(second, Array.from({ length: 61 }, (_, i) => 130 + i));
+  assert.deepEqual(third, Array.from({ length: 41 }, (_, i) => 500 + i));
+  assert.equal(calls.bySlot.size, 91 + 41);
+  assert.ok(Array.from(calls.bySlot.values()).every(count => count === 1));
+  assert.ok(calls.maxInflight <= concurrency, `${calls.maxInflight} requests in flight`);
+  assert.equal(service.getStats().requested, 0);
+});
+
+test('a slot that cannot be read rejects its readers and leaves the others running', async () => {
+  const { service } = createService([105]);
+
+  const [failed, other] = await Promise.allSettled([
+    read(service, 100, 110),
+    read(service, 200, 210)
+  ]);
+
+  assert.equal(failed.status, 'rejected');
+  assert.ok(failed.reason instanceof FetchError);
+  assert.equal(failed.reason.key, 105);
+  assert.equal(other.status, 'fulfilled');
+  assert.equal(other.value.length, 11);
+});
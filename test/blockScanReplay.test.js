@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { config } from '../src/config/index.js';
+import { createRpcTransport, RpcFixtureStore } from '../src/services/rpcTransport.js';
+import { TokenTrackingService } from '../src/services/tokenTrackingService.js';
+import { FIXTURE_DIRECTORY, MINT, BUYER, START_SLOT, BUY_SLOT } from './fixtures/recordBlockScan.js';
+
+config.logging.level = 'error';
+// Stop at the buy cap instead of following positions, so the replay ends after the last slot
+config.positions.followAfterComplete = false;
+
+const replayTransport = () => createRpcTransport('http://replay.invalid', { mode: 'replay', fixtureDirectory: FIXTURE_DIRECTORY });
+
+test('block scan replays the recorded slots and numbers the buy', async () => {
+  const service = new TokenTrackingService({ transport: replayTransport() });
+
+  assert.equal(await service.start(MINT, START_SLOT, { stopConditions: { buys: 1 } }), true);
+
+  const buys = service.getDetectedBuys();
+  assert.equal(buys.length, 1);
+  assert.deepEqual(
+    { type: buys[0].type, dex: buys[0].dex, buyer: buys[0].buyer, buyNumber: buys[0].buyNumber, slot: buys[0].slot },
+    { type: 'buy', dex: 'Raydium', buyer: BUYER, buyNumber: 1, slot: BUY_SLOT }
+  );
+  assert.equal(buys[0].amountBought, '15000000000');
+  assert.equal(buys[0].amountSold, '500000000');
+  assert.equal(buys[0].pricePerToken, '0.000033333333333333');
+  assert.equal(buys[0].supplyPercentage, '1.5');
+  assert.equal(service.isTrackingComplete(), true);
+
+  const [position] = service.getPositionLedger(MINT).getPositions();
+  assert.deepEqual(
+    { balance: position.balance, costBasis: position.costBasis, status: position.status },
+    { balance: '15000', costBasis: '0.5', status: 'holding' }
+  );
+});
+
+test('replay fails calls that were never recorded', async () => {
+  await assert.rejects(replayTransport().getBlock(START_SLOT - 1, { maxSupportedTransactionVersion: 0 }), /No recorded RPC response/);
+});
+
+test('recorded responses are written as they are recorded', () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'rpc-fixtures-'));
+  try {
+    const store = new RpcFixtureStore(directory);
+    const file = store.fileFor('getSlot', []);
+    store.record('getSlot', [], { result: 1 });
+    assert.equal(fs.readFileSync(file, 'utf8').split('\n').filter(Boolean).length, 1);
+    store.record('getSlot', [], { result: 2 });
+
+    const replay = new RpcFixtureStore(directory);
+    assert.deepEqual([replay.next('getSlot', []), replay.next('getSlot', []), replay.next('getSlot', [])], [{ result: 1 }, { result: 2 }, { result: 2 }]);
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { divideDecimal, parseDecimal, roundDecimal, toDecimalString } from '../src/utils/decimal.js';
+
+test('divideDecimal rounds half up at the requested scale', () => {
+  assert.equal(divideDecimal(1, 3, 2), '0.33');
+  assert.equal(divideDecimal(2, 3, 2), '0.67');
+  assert.equal(divideDecimal(1, 8, 2), '0.13');
+  assert.equal(divideDecimal(1, 8, 3), '0.125');
+  assert.equal(divideDecimal(1, 200, 2), '0.01');
+  assert.equal(divideDecimal(1, 201, 2), '0');
+});
+
+test('divideDecimal rounds negative quotients away from zero and trims trailing zeros', () => {
+  assert.equal(divideDecimal(-1, 8, 2), '-0.13');
+  assert.equal(divideDecimal(1, -8, 2), '-0.13');
+  assert.equal(divideDecimal(-1, -8, 2), '0.13');
+  assert.equal(divideDecimal(10, 4), '2.5');
+  assert.equal(divideDecimal(6, 3), '2');
+});
+
+test('divideDecimal keeps 18 fractional digits by default', () => {
+  assert.equal(divideDecimal(1, 3), `0.${'3'.repeat(18)}`);
+  assert.equal(divideDecimal(2, 3), `0.${'6'.repeat(17)}7`);
+  assert.equal(divideDecimal(10n ** 30n + 1n, 10n ** 12n), `1${'0'.repeat(18)}.000000000001`);
+  assert.throws(() => divideDecimal(1, 0), RangeError);
+});
+
+test('roundDecimal pads to a fixed number of places', () => {
+  assert.equal(roundDecimal('0.125', 2), '0.13');
+  assert.equal(roundDecimal('1', 2), '1.00');
+  assert.equal(roundDecimal('-0.004', 2), '0.00');
+  assert.equal(roundDecimal('-2.5', 0), '-3');
+});
+
+test('parseDecimal and toDecimalString round-trip exact amounts', () => {
+  assert.equal(parseDecimal('1.5', 6), 1500000n);
+  assert.equal(parseDecimal('0.0000001', 6), 0n);
+  assert.equal(parseDecimal('1e-3', 6), 1000n);
+  assert.equal(toDecimalString(parseDecimal('123.456789'), 18), '123.456789');
+  assert.throws(() => parseDecimal('abc'), RangeError);
+});
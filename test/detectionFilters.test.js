@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { DetectionFilters, normalizeDetectionFilters } from '../src/services/detectionFilters.js';
+
+const WSOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const RAYDIUM_V4 = '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8';
+const WALLET = Keypair.generate().publicKey.toBase58();
+const PDA = PublicKey.findProgramAddressSync([Buffer.from('pool')], new PublicKey(RAYDIUM_V4))[0].toBase58();
+
+// A buy paying `amountSold` lamports of WSOL on Raydium
+const buy = fields => ({
+  type: 'buy',
+  buyer: WALLET,
+  feePayer: WALLET,
+  dex: 'Raydium',
+  programId: RAYDIUM_V4,
+  quoteToken: WSOL,
+  amountSold: '100000000',
+  decimalsSold: 9,
+  ...fields
+});
+
+test('wallet rules drop excluded buyers, fee payers and program accounts', () => {
+  const excludedWallet = Keypair.generate().publicKey.toBase58();
+  const filters = new DetectionFilters({ excludedWallets: [excludedWallet], excludeProgramAccounts: true });
+
+  assert.equal(filters.getFilterReason(buy({ buyer: excludedWallet })), 'excludedWallet');
+  assert.equal(filters.getFilterReason(buy({ feePayer: excludedWallet })), 'excludedWallet');
+  assert.equal(filters.getFilterReason(buy({ buyer: PDA })), 'programAccount');
+  // Wallet rules also apply to detections that aren't trades
+  assert.equal(filters.getFilterReason({ type: 'transfer', buyer: PDA, feePayer: WALLET }), 'programAccount');
+  assert.equal(filters.getFilterReason(buy()), null);
+});
+
+test('DEX rules match program ids or DEX names', () => {
+  assert.equal(new DetectionFilters({ allowedDexes: 'orca' }).getFilterReason(buy()), 'dexNotAllowed');
+  assert.equal(new DetectionFilters({ allowedDexes: ['raydium'] }).getFilterReason(buy()), null);
+  assert.equal(new DetectionFilters({ allowedDexes: [RAYDIUM_V4] }).getFilterReason(buy()), null);
+  assert.equal(new DetectionFilters({ allowedDexes: 'orca' }).getFilterReason({ type: 'transfer', buyer: WALLET }), null);
+});
+
+test('size rules compare exact amounts of the quote mint', () => {
+  const filters = new DetectionFilters({ minQuoteAmount: 0.1, maxQuoteAmount: '2.5' });
+
+  assert.equal(filters.getFilterReason(buy({ amountSold: '99999999' })), 'belowMinQuote');
+  assert.equal(filters.getFilterReason(buy({ amountSold: '100000000' })), null);
+  assert.equal(filters.getFilterReason(buy({ amountSold: '2500000000' })), null);
+  assert.equal(filters.getFilterReason(buy({ amountSold: '2500000001' })), 'aboveMaxQuote');
+});
+
+test('size rules pass trades paid in another quote token', () => {
+  const filters = new DetectionFilters({ minQuoteAmount: 1 });
+  assert.equal(filters.getFilterReason(buy({ quoteToken: USDC, amountSold: '5000', decimalsSold: 6 })), null);
+
+  const usdcFilters = new DetectionFilters({ minQuoteAmount: 1, quoteMint: USDC });
+  assert.equal(usdcFilters.getFilterReason(buy({ quoteToken: USDC, amountSold: '999999', decimalsSold: 6 })), 'belowMinQuote');
+  assert.equal(usdcFilters.getFilterReason(buy({ amountSold: '1' })), null);
+});
+
+test('normalizeDetectionFilters rejects invalid filters', () => {
+  assert.equal(normalizeDetectionFilters({ minQuoteAmount: 0.05 }).minQuoteAmount, '0.05');
+  assert.throws(() => normalizeDetectionFilters({ minQuoteAmount: -1 }), /non-negative/);
+  assert.throws(() => normalizeDetectionFilters({ minQuoteAmount: 2, maxQuoteAmount: 1 }), /must not be greater/);
+  assert.throws(() => normalizeDetectionFilters({ excludedWallets: ['not-an-address'] }), /invalid address/);
+  assert.throws(() => normalizeDetectionFilters({ minSol: 1 }), /Unknown filters: minSol/);
+});
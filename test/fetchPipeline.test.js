@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../src/config/index.js';
+import { OrderedFetchPipeline, FetchError } from '../src/services/fetchPipeline.js';
+
+config.logging.level = 'error';
+
+const createPipeline = options => {
+  const pipeline = new OrderedFetchPipeline({ retryDelay: 1, ...options });
+  pipeline.sleep = () => Promise.resolve();
+  return pipeline;
+};
+
+test('a key that keeps failing rejects the run after the delivered keys', async () => {
+  const pipeline = createPipeline({ maxRetries: 2, maxFetchRounds: 2 });
+  const delivered = [];
+  let attempts = 0;
+
+  await assert.rejects(
+    pipeline.run([1, 2, 3, 4], async key => {
+      if (key === 3) {
+        attempts++;
+        throw new Error('timeout');
+      }
+      return key;
+    }, async result => delivered.push(result)),
+    error => error instanceof FetchError && error.key === 3
+  );
+  assert.deepEqual(delivered, [1, 2]);
+  assert.equal(attempts, 4);
+});
+
+test('permanent RPC errors are not retried', async () => {
+  const pipeline = createPipeline({ maxRetries: 5, maxFetchRounds: 5 });
+  let attempts = 0;
+
+  await assert.rejects(
+    pipeline.run([1], async () => {
+      attempts++;
+      throw Object.assign(new Error('Block not available for slot 1'), { code: -32004 });
+    }, async () => {}),
+    FetchError
+  );
+  assert.equal(attempts, 1);
+});
+
+test('a key that recovers within the rounds is delivered in order', async () => {
+  const pipeline = createPipeline({ maxRetries: 2, maxFetchRounds: 3 });
+  const delivered = [];
+  let attempts = 0;
+
+  await pipeline.run([1, 2], async key => {
+    if (key === 1 && ++attempts < 5) {
+      throw new Error('flaky');
+    }
+    return key;
+  }, async result => delivered.push(result));
+  assert.deepEqual(delivered, [1, 2]);
+});
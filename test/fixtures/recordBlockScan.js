@@ -0,0 +1,133 @@
+/**
+ * Records the block-scan fixture replayed by test/blockScanReplay.test.js. A local JSON-RPC node
+ * serves three slots, the middle one holding a Raydium buy of the target mint paid in WSOL, and a
+ * tracking run against it is captured with the record transport.
+ *
+ *   node test/fixtures/recordBlockScan.js
+ */
+import http from 'http';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import bs58 from 'bs58';
+import { Keypair } from '@solana/web3.js';
+import { config } from '../../src/config/index.js';
+import { createRpcTransport } from '../../src/services/rpcTransport.js';
+import { TokenTrackingService } from '../../src/services/tokenTrackingService.js';
+
+export const FIXTURE_DIRECTORY = path.join(path.dirname(fileURLToPath(import.meta.url)), 'block-scan');
+export const START_SLOT = 1000;
+export const BUY_SLOT = 1001;
+export const LATEST_SLOT = 1002;
+
+const address = seed => Keypair.fromSeed(new Uint8Array(32).fill(seed)).publicKey.toBase58();
+export const [BUYER, BUYER_TOKEN_ACCOUNT, BUYER_WSOL_ACCOUNT, POOL_TOKEN_ACCOUNT, POOL_WSOL_ACCOUNT, MINT] = [1, 2, 3, 4, 5, 6].map(address);
+
+const WSOL = 'So11111111111111111111111111111111111111112';
+const RAYDIUM_AMM = '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8';
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+const u64 = value => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(BigInt(value));
+  return buffer;
+};
+
+const tokenBalance = (accountIndex, mint, owner, amount, decimals) => ({
+  accountIndex,
+  mint,
+  owner,
+  programId: TOKEN_PROGRAM,
+  uiTokenAmount: { amount, decimals, uiAmount: Number(amount) / 10 ** decimals, uiAmountString: String(Number(amount) / 10 ** decimals) },
+});
+
+// 0.5 WSOL for 15,000 tokens through swap_base_in
+const buyTransaction = {
+  transaction: {
+    signatures: [bs58.encode(Buffer.alloc(64, 7))],
+    message: {
+      accountKeys: [BUYER, BUYER_TOKEN_ACCOUNT, BUYER_WSOL_ACCOUNT, POOL_TOKEN_ACCOUNT, POOL_WSOL_ACCOUNT, RAYDIUM_AMM],
+      header: { numRequiredSignatures: 1, numReadonlySignedAccounts: 0, numReadonlyUnsignedAccounts: 1 },
+      recentBlockhash: address(9),
+      instructions: [{
+        programIdIndex: 5,
+        accounts: [1, 2, 3, 4],
+        data: bs58.encode(Buffer.concat([Buffer.from([9]), u64(500000000), u64(1)])),
+        stackHeight: null,
+      }],
+      addressTableLookups: [],
+    },
+  },
+  meta: {
+    err: null,
+    status: { Ok: null },
+    fee: 5000,
+    preBalances: [2000000000, 2039280, 2039280, 2039280, 2039280, 1],
+    postBalances: [1999995000, 2039280, 2039280, 2039280, 2039280, 1],
+    innerInstructions: [],
+    logMessages: [],
+    rewards: [],
+    loadedAddresses: { writable: [], readonly: [] },
+    preTokenBalances: [
+      tokenBalance(2, WSOL, BUYER, '500000000', 9),
+      tokenBalance(3, MINT, POOL_TOKEN_ACCOUNT, '900000000000', 6),
+      tokenBalance(4, WSOL, POOL_TOKEN_ACCOUNT, '30000000000', 9),
+    ],
+    postTokenBalances: [
+      tokenBalance(1, MINT, BUYER, '15000000000', 6),
+      tokenBalance(3, MINT, POOL_TOKEN_ACCOUNT, '885000000000', 6),
+      tokenBalance(4, WSOL, POOL_TOKEN_ACCOUNT, '30500000000', 9),
+    ],
+    computeUnitsConsumed: 40000,
+  },
+  version: 0,
+};
+
+const block = slot => ({
+  blockhash: address(10 + slot - START_SLOT),
+  previousBlockhash: address(9 + slot - START_SLOT),
+  parentSlot: slot - 1,
+  blockTime: 1700000000 + slot - START_SLOT,
+  blockHeight: slot,
+  transactions: slot === BUY_SLOT ? [buyTransaction] : [],
+  rewards: [],
+});
+
+function respond(method, params) {
+  const context = { slot: LATEST_SLOT };
+  switch (method) {
+    case 'getSlot':
+      return { result: LATEST_SLOT };
+    case 'getBlock':
+      return { result: block(params[0]) };
+    case 'getTokenSupply':
+      return { result: { context, value: { amount: '1000000000000', decimals: 6, uiAmount: 1000000, uiAmountString: '1000000' } } };
+    case 'getMultipleAccounts':
+      return { result: { context, value: params[0].map(() => null) } };
+    default:
+      return { error: { code: -32601, message: `Method not found: ${method}` } };
+  }
+}
+
+async function record() {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({ jsonrpc: '2.0', id, ...respond(method, params) }));
+    });
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  // Stop at the buy cap instead of following positions, so the run ends after the last slot
+  config.positions.followAfterComplete = false;
+  const transport = createRpcTransport(`http://127.0.0.1:${server.address().port}`, { mode: 'record', fixtureDirectory: FIXTURE_DIRECTORY });
+  const service = new TokenTrackingService({ transport });
+  await service.start(MINT, START_SLOT, { stopConditions: { buys: 1 } });
+  server.close();
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  await record();
+}
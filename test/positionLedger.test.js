@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../src/config/index.js';
+import { PositionLedger } from '../src/services/positionLedger.js';
+
+config.logging.level = 'error';
+
+const WSOL = 'So11111111111111111111111111111111111111112';
+const WALLET = 'Buyer111111111111111111111111111111111111111';
+
+// Trades of a 6-decimal token against WSOL; amounts are in whole tokens and SOL
+let slot = 100;
+const trade = (type, tokens, sol, buyNumber = null) => ({
+  type,
+  buyer: WALLET,
+  buyNumber,
+  amountBought: String(Math.round(tokens * 1e6)),
+  decimalsTarget: 6,
+  amountSold: String(Math.round(sol * 1e9)),
+  decimalsSold: 9,
+  quoteToken: WSOL,
+  slot: slot++,
+  timestamp: slot
+});
+
+const getPosition = ledger => ledger.getPositions()[0];
+
+test('partial sells realize against the average cost and keep it for the rest', () => {
+  const ledger = new PositionLedger();
+  ledger.recordDetection(trade('buy', 1000, 1, 1));
+  ledger.recordDetection(trade('buy', 1000, 3, 2));
+
+  let position = getPosition(ledger);
+  assert.equal(position.balance, '2000');
+  assert.equal(position.costBasis, '4');
+  assert.equal(position.averageEntryPrice, '0.002');
+  assert.equal(position.status, 'holding');
+
+  ledger.recordDetection(trade('sell', 500, 1.5));
+  position = getPosition(ledger);
+  assert.equal(position.balance, '1500');
+  assert.equal(position.costBasis, '3');
+  assert.equal(position.averageEntryPrice, '0.002');
+  assert.equal(position.realizedPnl, '0.5');
+  // Marked at the sell's price of 0.003
+  assert.equal(position.unrealizedPnl, '1.5');
+  assert.equal(position.status, 'partial');
+
+  ledger.recordDetection(trade('sell', 1500, 1.5));
+  position = getPosition(ledger);
+  assert.equal(position.balance, '0');
+  assert.equal(position.costBasis, '0');
+  assert.equal(position.realizedPnl, '-1');
+  assert.equal(position.unrealizedPnl, '0');
+  assert.equal(position.status, 'exited');
+});
+
+test('selling a position in parts clears its cost exactly', () => {
+  const ledger = new PositionLedger();
+  ledger.recordDetection(trade('buy', 3, 1, 1));
+
+  ledger.recordDetection(trade('sell', 1, 1));
+  assert.equal(getPosition(ledger).costBasis, '0.666666666666666667');
+  assert.equal(getPosition(ledger).realizedPnl, '0.666666666666666667');
+
+  ledger.recordDetection(trade('sell', 2, 0.5));
+  const position = getPosition(ledger);
+  assert.equal(position.costBasis, '0');
+  // Proceeds of 1.5 less the 1 it cost
+  assert.equal(position.realizedPnl, '0.5');
+});
+
+test('tokens sold beyond the tracked balance carry no cost basis', () => {
+  const ledger = new PositionLedger();
+  ledger.recordDetection(trade('buy', 1000, 1, 1));
+  ledger.recordDetection(trade('sell', 2000, 4));
+
+  const position = getPosition(ledger);
+  assert.equal(position.totalSold, '2000');
+  assert.equal(position.balance, '0');
+  // Half the proceeds match the tracked 1000 tokens
+  assert.equal(position.realizedPnl, '1');
+});
+
+test('positions survive an export and import', () => {
+  const ledger = new PositionLedger();
+  ledger.recordDetection(trade('buy', 1000, 1, 1));
+  ledger.recordDetection(trade('sell', 400, 0.6));
+
+  const restored = new PositionLedger();
+  restored.importState(JSON.parse(JSON.stringify(ledger.exportState())));
+  assert.deepEqual(restored.getPositions(), ledger.getPositions());
+  assert.deepEqual(restored.getSummary(), ledger.getSummary());
+});
@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../src/config/index.js';
+import { SolanaRPCService } from '../src/services/rpcService.js';
+
+config.logging.level = 'error';
+
+const MINT = 'Mint111111111111111111111111111111111111111';
+const POOL = 'Pool111111111111111111111111111111111111111';
+
+// A service whose signature index and transactions come from `history`, newest first per address
+const createService = history => {
+  const service = new SolanaRPCService();
+  service.isRunning = true;
+  service.fetchSignaturePage = async (address, before) => {
+    const entries = [...(history[address] || [])].sort((a, b) => b.slot - a.slot);
+    const start = before ? entries.findIndex(entry => entry.signature === before) + 1 : 0;
+    return entries.slice(start).map(entry => ({ ...entry, err: null, blockTime: entry.slot }));
+  };
+  service.fetchTransaction = async signature => ({ signature });
+  return service;
+};
+
+const backfill = async (service, migrationSlot) => {
+  const blocks = [];
+  await service.backfillBySignatures([MINT], 100, 110, async (block, slot) => {
+    blocks.push({ slot, signatures: block.transactions.map(transaction => transaction.signature) });
+    if (slot === migrationSlot) {
+      service.addBackfillAddress(POOL);
+    }
+  });
+  return blocks;
+};
+
+test('a pool added during a signature-index backfill is paged from the slot after the migration', async () => {
+  const service = createService({
+    [MINT]: [
+      { signature: 'create', slot: 100 },
+      { signature: 'migrate', slot: 101 },
+      { signature: 'pool-swap-listing-mint', slot: 105 },
+      { signature: 'mint-transfer', slot: 105 }
+    ],
+    [POOL]: [
+      { signature: 'pool-create', slot: 101 },
+      { signature: 'pool-swap-1', slot: 102 },
+      { signature: 'pool-swap-2', slot: 103 },
+      { signature: 'pool-swap-listing-mint', slot: 105 },
+      { signature: 'pool-swap-late', slot: 111 }
+    ]
+  });
+
+  assert.deepEqual(await backfill(service, 101), [
+    { slot: 100, signatures: ['create'] },
+    { slot: 101, signatures: ['migrate'] },
+    { slot: 102, signatures: ['pool-swap-1'] },
+    { slot: 103, signatures: ['pool-swap-2'] },
+    { slot: 105, signatures: ['mint-transfer', 'pool-swap-listing-mint'] }
+  ]);
+});
+
+test('a pool added in the last indexed slot is still paged to the end of the range', async () => {
+  const service = createService({
+    [MINT]: [
+      { signature: 'create', slot: 100 },
+      { signature: 'migrate', slot: 101 }
+    ],
+    [POOL]: [
+      { signature: 'pool-swap-1', slot: 104 },
+      { signature: 'pool-swap-2', slot: 110 }
+    ]
+  });
+
+  assert.deepEqual(await backfill(service, 101), [
+    { slot: 100, signatures: ['create'] },
+    { slot: 101, signatures: ['migrate'] },
+    { slot: 104, signatures: ['pool-swap-1'] },
+    { slot: 110, signatures: ['pool-swap-2'] }
+  ]);
+});
+
+test('addresses added outside a backfill are ignored', () => {
+  const service = createService({});
+  service.addBackfillAddress(POOL);
+  assert.equal(service.addedBackfillAddresses, null);
+});
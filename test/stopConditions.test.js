@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_MAX_BUYS, StopConditions, normalizeStopConditions } from '../src/services/stopConditions.js';
+
+const state = fields => ({ buys: 0, uniqueBuyers: 0, quoteVolume: '0', slot: null, startSlot: null, elapsedMs: 0, ...fields });
+
+test('any mode stops on the first condition met and leads with the closest', () => {
+  const conditions = new StopConditions({ mode: 'any', buys: 10, uniqueBuyers: 5 });
+
+  let result = conditions.evaluate(state({ buys: 3, uniqueBuyers: 2 }));
+  assert.equal(result.isMet, false);
+  assert.equal(result.leading.type, 'uniqueBuyers');
+
+  result = conditions.evaluate(state({ buys: 10, uniqueBuyers: 2 }));
+  assert.equal(result.isMet, true);
+  assert.equal(result.leading.type, 'buys');
+  assert.equal(conditions.getBuyCap(), 10);
+});
+
+test('all mode waits for every condition and leads with the furthest', () => {
+  const conditions = new StopConditions({ mode: 'all', buys: 10, uniqueBuyers: 5 });
+
+  let result = conditions.evaluate(state({ buys: 10, uniqueBuyers: 2 }));
+  assert.equal(result.isMet, false);
+  assert.equal(result.leading.type, 'uniqueBuyers');
+  assert.deepEqual(result.conditions.map(condition => condition.met), [true, false]);
+
+  result = conditions.evaluate(state({ buys: 12, uniqueBuyers: 5 }));
+  assert.equal(result.isMet, true);
+  // Buys past the target keep their numbers while other conditions are pending
+  assert.equal(conditions.getBuyCap(), null);
+});
+
+test('slot conditions are met once the stream is past the end slot', () => {
+  const conditions = new StopConditions({ endSlot: 200 });
+
+  let result = conditions.evaluate(state({ slot: 150, startSlot: 100 }));
+  assert.equal(result.isMet, false);
+  assert.equal(result.leading.fraction, 0.5);
+
+  result = conditions.evaluate(state({ slot: 200, startSlot: 100 }));
+  assert.equal(result.isMet, false);
+
+  result = conditions.evaluate(state({ slot: 201, startSlot: 100 }));
+  assert.equal(result.isMet, true);
+});
+
+test('quote volume is compared exactly', () => {
+  const conditions = new StopConditions({ quoteVolume: 1.5 });
+
+  assert.equal(conditions.evaluate(state({ quoteVolume: '1.499999999999999999' })).isMet, false);
+  assert.equal(conditions.evaluate(state({ quoteVolume: '1.5' })).isMet, true);
+});
+
+test('normalizeStopConditions defaults to a buy cap and rejects invalid conditions', () => {
+  assert.deepEqual(normalizeStopConditions({}), { mode: 'any', buys: DEFAULT_MAX_BUYS });
+  assert.deepEqual(normalizeStopConditions({ mode: 'all', buys: '20', durationSeconds: 60 }), { mode: 'all', buys: 20, durationSeconds: 60 });
+  assert.throws(() => normalizeStopConditions({ mode: 'some' }), /stopConditions.mode/);
+  assert.throws(() => normalizeStopConditions({ buys: 1.5 }), /positive integer/);
+  assert.throws(() => normalizeStopConditions({ maxBuys: 10 }), /Unknown stop conditions: maxBuys/);
+});
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../src/config/index.js';
+import { TokenBuyTracker } from '../src/services/tokenBuyTracker.js';
+import { SLOTS_PER_EPOCH, calculateInverseTransferFee, calculateTransferFee } from '../src/utils/tokenExtensions.js';
+
+config.logging.level = 'error';
+
+const WSOL = 'So11111111111111111111111111111111111111112';
+const MINT = 'Mint111111111111111111111111111111111111111';
+const WALLET = 'Buyer111111111111111111111111111111111111111';
+const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EHFLC1PE2JKtMAhHKWE7';
+
+// 1% from epoch 0 and 2% from epoch 2
+const transferFee = (maximumFee = '1000000000') => ({
+  olderTransferFee: { epoch: 0, maximumFee, basisPoints: 100 },
+  newerTransferFee: { epoch: 2, maximumFee, basisPoints: 200 }
+});
+
+test('transfer fees round up, follow the epoch schedule and stop at the maximum', () => {
+  assert.equal(calculateTransferFee(transferFee(), 0, 1000000n), 10000n);
+  assert.equal(calculateTransferFee(transferFee(), 0, 1n), 1n);
+  assert.equal(calculateTransferFee(transferFee(), 2 * SLOTS_PER_EPOCH, 1000000n), 20000n);
+  assert.equal(calculateTransferFee(transferFee('5000'), 0, 1000000n), 5000n);
+  assert.equal(calculateTransferFee(transferFee(), 0, 0n), 0n);
+});
+
+test('the fee on a received amount is what the sender paid on top', () => {
+  assert.equal(calculateInverseTransferFee(transferFee(), 0, 990000n), 10000n);
+  assert.equal(calculateInverseTransferFee(transferFee(), 2 * SLOTS_PER_EPOCH, 980000n), 20000n);
+  assert.equal(calculateInverseTransferFee(transferFee('5000'), 0, 990000n), 5000n);
+});
+
+const createTracker = () => {
+  const tracker = new TokenBuyTracker(null, null);
+  tracker.targetToken = MINT;
+  return tracker;
+};
+
+// A trade of the 6-decimal Token-2022 target against WSOL; deltas are the trader's balance changes
+const classify = (type, targetDelta, quoteDelta) => ({
+  type,
+  trader: WALLET,
+  targetChange: { mint: MINT, delta: targetDelta, decimals: 6, tokenProgram: TOKEN_2022_PROGRAM_ID },
+  quoteChange: { mint: WSOL, delta: quoteDelta, decimals: 9 }
+});
+
+const transaction = { slot: 5, blockTime: 1700000000, transaction: { signatures: ['sig'], message: { accountKeys: [] } }, meta: {} };
+
+test('a buy reports what the trader received and prices what the pool sent', () => {
+  const detection = createTracker().buildDetection(
+    classify('buy', '990000', '-1000000000'),
+    transaction,
+    'sig',
+    { target: { transferFee: transferFee(), interestBearing: null, riskFlags: ['transferFee'] } }
+  );
+
+  assert.equal(detection.amountBought, '990000');
+  assert.equal(detection.amountSold, '1000000000');
+  assert.equal(detection.targetTransferFee, '10000');
+  assert.equal(detection.quoteTransferFee, '0');
+  // The pool sent a whole token for 1 SOL; 0.01 of it was withheld on the way
+  assert.equal(detection.pricePerToken, '1');
+  assert.deepEqual(detection.riskFlags, ['transferFee']);
+});
+
+test('a sell prices what the pool received after the fee', () => {
+  const detection = createTracker().buildDetection(
+    classify('sell', '-1000000', '495000000'),
+    transaction,
+    'sig',
+    { target: { transferFee: transferFee(), interestBearing: null, riskFlags: [] } }
+  );
+
+  assert.equal(detection.amountBought, '1000000');
+  assert.equal(detection.amountSold, '495000000');
+  assert.equal(detection.targetTransferFee, '10000');
+  assert.equal(detection.pricePerToken, '0.5');
+});
+
+test('interest-bearing amounts are priced at their displayed value', () => {
+  const year = Math.round(60 * 60 * 24 * 365.24);
+  const interestBearing = {
+    initializationTimestamp: transaction.blockTime - year,
+    preUpdateAverageRate: 500,
+    lastUpdateTimestamp: transaction.blockTime,
+    currentRate: 500
+  };
+  const detection = createTracker().buildDetection(
+    classify('buy', '1000000', '-1000000000'),
+    transaction,
+    'sig',
+    { target: { transferFee: null, interestBearing, riskFlags: [] } }
+  );
+
+  // A year at 5% grows the token's displayed amounts by e^0.05
+  assert.equal(detection.targetTransferFee, '0');
+  assert.ok(Math.abs(Number(detection.pricePerToken) - 1 / Math.exp(0.05)) < 1e-9, detection.pricePerToken);
+});